@@ -3,11 +3,33 @@ import React from 'react';
 import cytoscape, { Core } from 'cytoscape';
 import LanOverlay from './lan/LanOverlay';
 import ImportPreview from './import/ImportPreview';
+import ExposedServices from './nat/ExposedServices';
+import FqdnResolutions from './fqdn/FqdnResolutions';
+import ObjectHealth from './health/ObjectHealth';
+import RuleAnalysis, { RULE_KIND_COLOR } from './rules/RuleAnalysis';
+import { analyzeRules, findingsByPolicy, RULE_KIND_LABEL } from './rules/rule_analysis';
+import ReachQuery from './reach/ReachQuery';
+import ZoneMatrix from './zones/ZoneMatrix';
+import RevisionHistory from './history/RevisionHistory';
+import DeviceUpdate from './import/DeviceUpdate';
+import DatabaseCheck from './maintenance/DatabaseCheck';
+import EditHistory from './history/EditHistory';
+import AuditLog from './history/AuditLog';
+import UnlockScreen from './security/UnlockScreen';
+import EncryptionSettings from './security/EncryptionSettings';
+import PassphrasePrompt from './security/PassphrasePrompt';
+import { anonymizeMapBundle } from './security/anonymize';
+import { bundleFileName, exportMapBundle, importMapBundle, isSealedBundleText, openSealedBundle, parseMapBundle, sealMapBundle, BUNDLE_EXT } from './map_bundle';
+import type { ReachResult } from './reach/reachability';
 
 // Data + parsing
-import { parseWatchGuardXml, parseWatchGuardXmlText, toDomain, makeAliasUniverse, type InterfaceInfo } from './parse_watchguard';
+import { parseWatchGuardXml, parseWatchGuardXmlText, toDomain, makeAliasUniverse, formatServiceEntry, formatNat, type InterfaceInfo, type RouteInfo } from './parse_watchguard';
 import { xmlPoliciesToUnified, type UnifiedPolicy } from './xml_to_upolicy';
 import { mergePolicies } from './merge_policies';
+import { formatFireware } from './fireware_profile';
+import { dhcpForSubnet, importDhcpReservations, subnetReservations } from './lan/dhcp_hosts';
+import { cidrContainsIp, overlaps, prefixLen, isHostCidr, bucketCidr, cidrContains } from './ip';
+import { matchVpnTunnels, formatVpnPairs } from './vpn_links';
 import {
   initDb, listMaps, createMap, createEmptyMap, getMapXmlText, touchMap,
   getAnnotationMapFor, setAnnotationFor,
@@ -16,6 +38,8 @@ import {
   getEdgeNotesFor, setEdgeNoteFor,
   addMapDevice, listMapDevices, getMapAllXmlTexts,
   deleteMap, renameFirstDeviceForMap,
+  getFqdnResolutionsFor, withoutHistory, undoHistory, redoHistory, setAuditUser, isDbLocked, isDbEncrypted,
+  getSchemaVersion, getPreMigrationSnapshot, SCHEMA_VERSION, type PreMigrationSnapshot,
   listManualHostIps,
   listManualDevices, listManualNetworks, listManualLinks,
   upsertManualDevice, upsertManualNetwork, upsertManualLink,
@@ -23,42 +47,6 @@ import {
   type MapRow
 } from './db';
 
-// ---------------- IPv4 helpers ----------------
-function ipToInt(ip: string): number {
-  const [a,b,c,d] = ip.split('.').map((x)=>parseInt(x,10));
-  return (((a<<24)>>>0) + (b<<16) + (c<<8) + d)>>>0;
-}
-function intToIp(n: number): string {
-  return [(n>>>24)&255,(n>>>16)&255,(n>>>8)&255,n&255].join('.');
-}
-function maskBits(bits: number): number {
-  return bits===0 ? 0 : (~0 << (32-bits))>>>0;
-}
-function cidrContainsIp(cidr: string, ip: string): boolean {
-  const [n,bitsStr] = cidr.split('/');
-  const bits = parseInt(bitsStr,10);
-  const mask = maskBits(bits);
-  return (ipToInt(ip)&mask) === (ipToInt(n)&mask);
-}
-function overlaps(a: string, b: string): boolean {
-  const [na,ba]=a.split('/'); const [nb,bb]=b.split('/');
-  const ma = maskBits(parseInt(ba,10)); const mb = maskBits(parseInt(bb,10));
-  const ia = ipToInt(na); const ib = ipToInt(nb);
-  return (ia & ma) === (ib & ma) || (ia & mb) === (ib & mb) || (
-    ((ia & ma) <= (ib & mb)) && ((ib & mb) <= ((ia & ma) + (~ma>>>0)))
-  );
-}
-function to24(ipOrCidr: string): string {
-  const ip = ipOrCidr.includes('/') ? ipOrCidr.split('/')[0] : ipOrCidr;
-  const n = ipToInt(ip);
-  const base = n & maskBits(24);
-  return `${intToIp(base)}/24`;
-}
-function prefixLen(cidr: string): number {
-  const p = parseInt(cidr.split('/')[1]||'32',10);
-  return Number.isFinite(p)?p:32;
-}
-
 // ---------------- Types ----------------
 type Domain = ReturnType<typeof toDomain>;
 type Snapshot = {
@@ -89,11 +77,13 @@ export default function App() {
   // File inputs (hidden)
   const xmlInputRef = React.useRef<HTMLInputElement | null>(null);
   const xmlAddFwRef = React.useRef<HTMLInputElement | null>(null);
+  const bundleInputRef = React.useRef<HTMLInputElement | null>(null);
 
   // State
   const [snap, setSnap] = React.useState<Snapshot>({});
   const [activeSubnet, setActiveSubnet] = React.useState<string | null>(null); // wheel node (network)
   const [activeHost, setActiveHost] = React.useState<string | null>(null);     // clicked host in panel
+  const [activeFirewall, setActiveFirewall] = React.useState<string | null>(null); // firewall node (routes panel)
   const [searchIp, setSearchIp] = React.useState('');
   const [log, setLog] = React.useState<string[]>([]);
   const [error, setError] = React.useState<string | null>(null);
@@ -113,9 +103,29 @@ export default function App() {
   const [edgeNotes, setEdgeNotes] = React.useState<Map<string, string>>(new Map());
   const [editingEdge, setEditingEdge] = React.useState<{ cidr: string; value: string } | null>(null);
   const [editingNode, setEditingNode] = React.useState<{ cidr: string; value: string } | null>(null);
-  const [firewalls, setFirewalls] = React.useState<Array<{ id: string; name: string; domain: Domain; xmlText?: string }>>([]);
+  const [firewalls, setFirewalls] = React.useState<Array<{ id: string; name: string; domain: Domain; xmlText?: string; model?: string; version?: string }>>([]);
   const [lanFocusSubnet, setLanFocusSubnet] = React.useState<string | null>(null);
   const [showImportPreview, setShowImportPreview] = React.useState(false);
+  const [showExposed, setShowExposed] = React.useState(false);
+  const [showFqdn, setShowFqdn] = React.useState(false);
+  const [showHealth, setShowHealth] = React.useState(false);
+  const [showRules, setShowRules] = React.useState(false);
+  const [showReach, setShowReach] = React.useState(false);
+  const [showMatrix, setShowMatrix] = React.useState(false);
+  const [showRevisions, setShowRevisions] = React.useState(false);
+  const [showDeviceUpdate, setShowDeviceUpdate] = React.useState(false);
+  const [showDbCheck, setShowDbCheck] = React.useState(false);
+  const [showEditHistory, setShowEditHistory] = React.useState(false);
+  const [showAuditLog, setShowAuditLog] = React.useState(false);
+  const [dbLocked, setDbLocked] = React.useState(false);
+  const [showEncryption, setShowEncryption] = React.useState(false);
+  const [passPrompt, setPassPrompt] = React.useState<null | { title: string; note?: string; confirm?: boolean; allowEmpty?: boolean; resolve: (p: string | null)=>void }>(null);
+  const [historyTick, setHistoryTick] = React.useState(0); // bumped after undo/redo so open views reload
+  const [preMigration, setPreMigration] = React.useState<PreMigrationSnapshot | null>(null);
+  const [reachPath, setReachPath] = React.useState<{ nodes: string[]; edges: string[]; blocked?: string } | null>(null);
+  // Explicit policy list from a report click-through; overrides the subnet/host filter until cleared
+  const [policyFilter, setPolicyFilter] = React.useState<{ label: string; policies: UnifiedPolicy[] } | null>(null);
+  const [fqdnTable, setFqdnTable] = React.useState<Map<string, string[]>>(new Map());
   const [undoSnapshot, setUndoSnapshot] = React.useState<Uint8Array | null>(null);
   const [undoLabel, setUndoLabel] = React.useState<string | null>(null);
   // Manual modeling state
@@ -148,6 +158,7 @@ export default function App() {
   const cyContainerRef = React.useRef<HTMLDivElement | null>(null);
   const cyRef = React.useRef<Core | null>(null);
   const LAST_MAP_KEY = 'wgmap_last_map_id';
+  const USER_NAME_KEY = 'wgmap_user_name'; // recorded with every change in the map history
 
   // Logging
   const logMsg = React.useCallback((m: string) => {
@@ -191,28 +202,42 @@ export default function App() {
     try { cy.fit(cy.elements(), 50); } catch {}
   }, []);
 
-  // Init DB and load maps list
+  // Resolves with the passphrase entered in PassphrasePrompt, or null when cancelled
+  const askPassphrase = React.useCallback((opts: { title: string; note?: string; confirm?: boolean; allowEmpty?: boolean }) =>
+    new Promise<string | null>(resolve => setPassPrompt({ ...opts, resolve })), []);
+
+  // Init DB and load maps list; an encrypted database waits for the unlock screen's passphrase
+  const openDb = React.useCallback(async (passphrase?: string) => {
+    await initDb(passphrase);
+    setDbLocked(false);
+    const rows = await listMaps();
+    setMaps(rows);
+    logMsg(`DB ready (schema v${getSchemaVersion()}${isDbEncrypted() ? ', encrypted' : ''}). Maps: ${rows.length}`);
+    const pre = await getPreMigrationSnapshot(); setPreMigration(pre);
+    if (pre && pre.toVersion === SCHEMA_VERSION && Date.now() - pre.at < 60_000) logMsg(`Database upgraded from schema v${pre.fromVersion} to v${pre.toVersion}; a backup was kept (Help menu).`);
+    // Try to restore last opened map on load
+    try {
+      const lastId = localStorage.getItem(LAST_MAP_KEY);
+      if (lastId) {
+        // Defer a tick to let initial render settle
+        setTimeout(() => { void loadMapById(lastId); }, 0);
+      }
+    } catch {}
+  }, [logMsg]);
+
   React.useEffect(() => {
     (async () => {
+      try { setAuditUser(localStorage.getItem(USER_NAME_KEY) || ''); } catch {}
       try {
-        await initDb();
-        const rows = await listMaps();
-        setMaps(rows);
-        logMsg(`DB ready. Maps: ${rows.length}`);
-        // Try to restore last opened map on load
-        try {
-          const lastId = localStorage.getItem(LAST_MAP_KEY);
-          if (lastId) {
-            // Defer a tick to let initial render settle
-            setTimeout(() => { void loadMapById(lastId); }, 0);
-          }
-        } catch {}
+        if (await isDbLocked()) { setDbLocked(true); return; }
+        await openDb();
       } catch (e: any) {
         console.error(e);
+        setError(`Database unavailable: ${String(e?.message || e)}`);
         logMsg('Annotation DB init failed; continuing without persistence.');
       }
     })();
-  }, [logMsg]);
+  }, [logMsg, openDb]);
 
   // Helper to load a map by id and set all state accordingly
   const loadMapById = React.useCallback(async (id: string) => {
@@ -223,23 +248,26 @@ export default function App() {
       if (data.xmlText && data.xmlText.trim().length > 0) {
         const raw = await parseWatchGuardXmlText(data.xmlText);
         const domain = toDomain(raw);
-        const univ = makeAliasUniverse(raw, domain);
+        const fqdns = await getFqdnResolutionsFor(id); setFqdnTable(fqdns);
+        const univ = makeAliasUniverse(raw, domain, fqdns);
         const xmlPolicies = xmlPoliciesToUnified(raw, univ);
         setSnap(prev => { const merged = mergePolicies(xmlPolicies, []); return { ...prev, domain, xmlPolicies, policies: merged }; });
         const all = await getMapAllXmlTexts(id);
-        const fwArr: Array<{ id: string; name: string; domain: Domain; xmlText?: string }> = [];
+        const fwArr: Array<{ id: string; name: string; domain: Domain; xmlText?: string; model?: string; version?: string }> = [];
         for (let i = 0; i < all.length; i++) {
           const entry = all[i];
           const r = await parseWatchGuardXmlText(entry.xmlText);
           const d = toDomain(r);
           const nm = entry.name || (i === 0 ? (data.xmlName || data.name) : `Device ${i+1}`);
-          fwArr.push({ id: `fw-${i+1}`, name: nm, domain: d, xmlText: entry.xmlText });
+          for (const w of r.fireware.warnings) logMsg(`${nm}: ${w}`);
+          // Devices carry the model/version stored with them; the primary XML has only its own header
+          fwArr.push({ id: `fw-${i+1}`, name: nm, domain: d, xmlText: entry.xmlText, model: entry.model ?? r.fireware.model, version: entry.version ?? r.fireware.version });
         }
         setFirewalls(fwArr);
         setManualDevices([]); setManualNetworks([]); setManualLinks([]);
       } else {
         // Manual map (no XML)
-        setSnap({}); setFirewalls([]);
+        setSnap({}); setFirewalls([]); setFqdnTable(new Map());
         const devs = await listManualDevices(id); setManualDevices(devs.map(d => ({ id: d.id, name: d.name, type: d.type })));
         const nets = await listManualNetworks(id); setManualNetworks(nets.map(n => ({ id: n.id, cidr: n.cidr, name: n.name })));
         const links = await listManualLinks(id); setManualLinks(links);
@@ -253,6 +281,48 @@ export default function App() {
     } catch (e) { console.error(e); }
   }, [logMsg]);
 
+  // After undo/redo: reload what edits can change. FQDN answers feed the policy model, so those
+  // need the full reload; everything else is re-read from the DB without re-parsing the XML.
+  const reloadMapEdits = React.useCallback(async (id: string, tables: string[]) => {
+    if (tables.includes('fqdn_resolutions')) { await loadMapById(id); return; }
+    setAnnotations(await getAnnotationMapFor(id));
+    setLabelOffsets(await getAnnotationOffsetsFor(id));
+    setEdgeNotes(await getEdgeNotesFor(id));
+    if (!firewalls.length) {
+      const devs = await listManualDevices(id); setManualDevices(devs.map(d => ({ id: d.id, name: d.name, type: d.type })));
+      const nets = await listManualNetworks(id); setManualNetworks(nets.map(n => ({ id: n.id, cidr: n.cidr, name: n.name })));
+      setManualLinks(await listManualLinks(id));
+    }
+  }, [loadMapById, firewalls.length]);
+
+  const onHistoryStep = React.useCallback(async (redo: boolean) => {
+    if (!mapId) return;
+    try {
+      const step = redo ? await redoHistory(mapId) : await undoHistory(mapId);
+      if (!step) { logMsg(redo ? 'Nothing to redo.' : 'Nothing to undo.'); return; }
+      await reloadMapEdits(mapId, step.tables);
+      logMsg(`${redo ? 'Redo' : 'Undo'}: ${step.label}`);
+    } finally {
+      setHistoryTick(t => t + 1);
+    }
+  }, [mapId, reloadMapEdits, logMsg]);
+
+  // Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z); text fields keep their own undo
+  React.useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const t = e.target as HTMLElement | null;
+      if (t && (t.tagName === 'INPUT' || t.tagName === 'TEXTAREA' || t.tagName === 'SELECT' || t.isContentEditable)) return;
+      const k = e.key.toLowerCase();
+      const redo = k === 'y' || (k === 'z' && e.shiftKey);
+      if (k !== 'z' && k !== 'y') return;
+      e.preventDefault();
+      onHistoryStep(redo).catch(err => { console.error(err); logMsg(String(err?.message ?? err)); });
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onHistoryStep, logMsg]);
+
   // onChange handlers
   const onPickXml = React.useCallback(async (e?: React.ChangeEvent<HTMLInputElement>) => {
     try {
@@ -266,9 +336,11 @@ export default function App() {
   const raw = await parseWatchGuardXml(xmlFile);
     setLastXmlText(raw.xmlText);
     setLastXmlName(xmlFile.name);
+      for (const w of raw.fireware.warnings) logMsg(`${xmlFile.name}: ${w}`);
       const domain = toDomain(raw);
       const univ = makeAliasUniverse(raw, domain);
       const xmlPolicies = xmlPoliciesToUnified(raw, univ);
+      setFqdnTable(new Map());
 
       setSnap(prev => {
         const merged = mergePolicies(xmlPolicies, []);
@@ -283,7 +355,7 @@ export default function App() {
         const name = pendingCreateName.trim() || xmlFile.name.replace(/\.[^.]+$/, '');
         const id = await createMap(name, xmlFile.name, raw.xmlText);
         setMapId(id); setMapName(name);
-        setFirewalls([{ id: 'fw-1', name, domain, xmlText: raw.xmlText }]);
+        setFirewalls([{ id: 'fw-1', name, domain, xmlText: raw.xmlText, model: raw.fireware.model, version: raw.fireware.version }]);
         const amap = await getAnnotationMapFor(id); setAnnotations(amap);
         const offs = await getAnnotationOffsetsFor(id); setLabelOffsets(offs);
         const enotes = await getEdgeNotesFor(id); setEdgeNotes(enotes);
@@ -293,7 +365,7 @@ export default function App() {
       } else {
         setMapId(null); setMapName(null);
         setAnnotations(new Map()); setLabelOffsets(new Map()); setEdgeNotes(new Map());
-        setFirewalls([{ id: 'fw-1', name: xmlFile.name, domain, xmlText: raw.xmlText }]);
+        setFirewalls([{ id: 'fw-1', name: xmlFile.name, domain, xmlText: raw.xmlText, model: raw.fireware.model, version: raw.fireware.version }]);
       }
     } catch (err: any) {
       console.error(err);
@@ -317,7 +389,8 @@ export default function App() {
       const xmlFile = files[0];
   const raw = await parseWatchGuardXml(xmlFile);
   const domain = toDomain(raw);
-  setFirewalls(prev => prev.concat([{ id: `fw-${prev.length+1}`, name: xmlFile.name, domain, xmlText: raw.xmlText }]));
+  for (const w of raw.fireware.warnings) logMsg(`${xmlFile.name}: ${w}`);
+  setFirewalls(prev => prev.concat([{ id: `fw-${prev.length+1}`, name: xmlFile.name, domain, xmlText: raw.xmlText, model: raw.fireware.model, version: raw.fireware.version }]));
       if (mapIdRef.current) {
         await addMapDevice(mapIdRef.current, xmlFile.name, raw.xmlText);
         await touchMap(mapIdRef.current);
@@ -330,7 +403,7 @@ export default function App() {
   }, [logMsg]);
 
   // ---------- Build wheel nodes as NETWORKS, not /32 hosts ----------
-  type WheelSubnet = { id: string; cidr: string; label: string; interfaceName?: string; vlanId?: string; derived?: boolean; gateways?: string[]; firewallId?: string; firewallName?: string; networkName?: string };
+  type WheelSubnet = { id: string; cidr: string; label: string; interfaceName?: string; vlanId?: string; derived?: boolean; gateways?: string[]; firewallId?: string; firewallName?: string; networkName?: string; route?: RouteInfo };
 
   const wheelSubnets = React.useMemo<WheelSubnet[]>(() => {
     const out: WheelSubnet[] = [];
@@ -348,15 +421,14 @@ export default function App() {
         const fw = firewalls[idx];
         for (const intf of d.interfaces) {
           for (const cidr of intf.cidrs) {
-            const pfx = prefixLen(cidr);
-            if (pfx < 32) {
+            if (!isHostCidr(cidr)) {
               out.push({
                 id: `${intf.name}::${cidr}`,
                 cidr,
                 label: `${cidr}`,
                 interfaceName: intf.name,
                 vlanId: intf.vlanId,
-                gateways: intf.primaryIp && cidrContainsIp(cidr, intf.primaryIp) ? [intf.primaryIp] : [],
+                gateways: [intf.primaryIp, intf.primaryIp6].filter((g): g is string => !!g && cidrContainsIp(cidr, g)),
                 firewallId: fw?.id,
                 firewallName: fw?.name,
                 networkName: (intf as any).networkName,
@@ -368,25 +440,56 @@ export default function App() {
       }
     }
 
-    // 2) Also derive /24 networks from policies’ CIDRs and hosts (union)
+    // 1b) Remote networks behind static routes and default gateways
+    const connected = new Set(seenCidrs);
+    const routed: Array<{ fwId?: string; fwName?: string; route: RouteInfo }> = [];
+    for (let idx = 0; idx < allDomains.length; idx++) {
+      const fw = firewalls[idx];
+      for (const r of allDomains[idx].routes ?? []) {
+        routed.push({ fwId: fw?.id, fwName: fw?.name, route: r });
+        if (connected.has(r.dest)) continue; // directly connected, not remote
+        out.push({
+          id: `route::${fw?.id ?? ''}::${r.dest}::${r.nextHop ?? ''}`,
+          cidr: r.dest,
+          label: r.dest,
+          gateways: [],
+          firewallId: fw?.id,
+          firewallName: fw?.name,
+          networkName: r.kind === 'default' ? 'default route' : undefined,
+          route: r,
+        });
+        seenCidrs.add(r.dest);
+      }
+    }
+    // Most specific non-default route covering a network, if any
+    const coveringRoute = (cidr: string) => {
+      let best: (typeof routed)[number] | undefined;
+      for (const x of routed) {
+        if (x.route.kind === 'default') continue;
+        if (!cidrContains(x.route.dest, cidr)) continue;
+        if (!best || prefixLen(x.route.dest) > prefixLen(best.route.dest)) best = x;
+      }
+      return best;
+    };
+
+    // 2) Also derive /24 (IPv6: /64) networks from policies’ CIDRs and hosts (union)
     const uniq = new Set<string>();
+    const bucket = (c: string) => {
+      const b = bucketCidr(c);
+      return prefixLen(c) >= prefixLen(b) ? b : c; // keep broader nets, bucket longer prefixes
+    };
     for (const p of (snap.policies ?? [])) {
-      for (const c of p.srcCidrs) {
+      for (const c of [...p.srcCidrs, ...p.dstCidrs]) {
         if (!c) continue;
-        const pfx = prefixLen(c);
-        if (pfx === 32) uniq.add(to24(c));
-        else uniq.add(pfx >= 24 ? to24(c) : c); // keep broader nets, bucket >=/24 at /24
-      }
-      for (const c of p.dstCidrs) {
-        if (!c) continue;
-        const pfx = prefixLen(c);
-        if (pfx === 32) uniq.add(to24(c));
-        else uniq.add(pfx >= 24 ? to24(c) : c);
+        try { uniq.add(bucket(c)); } catch { /* not an address (e.g. spreadsheet text); nothing to draw */ }
       }
     }
     // Build wheel nodes
     Array.from(uniq).forEach(cidr => {
-      if (!seenCidrs.has(cidr)) out.push({ id: `derived::${cidr}`, cidr, label: `${cidr}`, derived: true, gateways: [] });
+      if (seenCidrs.has(cidr)) return;
+      // Attach derived networks to the route that reaches them instead of the firewall itself
+      const via = coveringRoute(cidr);
+      out.push({ id: `derived::${cidr}`, cidr, label: `${cidr}`, derived: true, gateways: [], firewallId: via?.fwId, firewallName: via?.fwName, route: via?.route });
     });
     // 3) Include manual networks for manual maps
     if (!firewalls.length && manualNetworks.length) {
@@ -400,6 +503,9 @@ export default function App() {
     return out;
   }, [snap.domain, firewalls, manualNetworks, snap.policies, logMsg]);
 
+  // ---------- Branch Office VPN tunnels across loaded firewalls ----------
+  const vpn = React.useMemo(() => matchVpnTunnels(firewalls), [firewalls]);
+
   // ---------- Cytoscape rendering ----------
   React.useEffect(() => {
     if (!cyContainerRef.current) return;
@@ -412,6 +518,9 @@ export default function App() {
           { selector: 'node', style: { 'background-color': theme.nodeFill, 'border-color': theme.nodeBorder, 'border-width': '2px', 'label': 'data(label)', 'font-size': '11px', 'color': theme.nodeText, 'text-wrap': 'wrap', 'text-max-width': '160px', 'shape': 'round-rectangle', 'padding': '6px' } },
           { selector: 'edge', style: { 'width': 2, 'line-color': theme.edge, 'curve-style': 'straight', 'target-arrow-shape': 'none', 'label': 'data(label)', 'font-size': 10, 'color': theme.edgeText, 'text-outline-color': theme.edgeTextOutline, 'text-outline-width': 2, 'text-rotation': 'autorotate', 'text-margin-x': 0 } },
           { selector: '.active', style: { 'background-color': theme.accent, 'border-color': theme.accent2, 'border-width': '3px', 'color': '#ffffff' } },
+          // Underlays so the reachability path shows through per-kind colours set as bypass styles
+          { selector: '.reach', style: { 'underlay-color': '#22c55e', 'underlay-opacity': 0.45, 'underlay-padding': 6 } },
+          { selector: '.reach-blocked', style: { 'underlay-color': '#ef4444', 'underlay-opacity': 0.6, 'underlay-padding': 8 } },
         ],
       });
     }
@@ -432,7 +541,9 @@ export default function App() {
     if (firewalls.length > 0) {
       fwIds = firewalls.map(f => f.id);
       firewalls.forEach((fw, i) => {
-        cy.add({ group: 'nodes', data: { id: fw.id, label: fw.name || `Firewall ${i+1}` } });
+        const detected = formatFireware(fw);
+        const name = fw.name || `Firewall ${i+1}`;
+        cy.add({ group: 'nodes', data: { id: fw.id, kind: 'firewall', label: detected ? `${name}\n${detected}` : name } });
       });
     } else {
       if (manualDevices.length) {
@@ -449,6 +560,11 @@ export default function App() {
 
     // Add network nodes
     for (const [cidr, info] of networksByCidr.entries()) {
+      // 0.0.0.0/0 and ::/0 stand for "everything behind the gateway", not a network
+      if (prefixLen(cidr) === 0) {
+        cy.add({ group: 'nodes', data: { id: cidr, kind: 'defaultroute', label: `${cidr}\n(default route)` } });
+        continue;
+      }
       const nodeNote = annotations.get(cidr) || undefined;
       const fallbackName = (()=>{
         // Try to find a networkName from any interface that used this CIDR
@@ -460,9 +576,29 @@ export default function App() {
       cy.add({ group: 'nodes', data: { id: cidr, label: nodeLabel, cidr } });
     }
 
+    // Next-hop nodes are per firewall: two firewalls may use the same gateway IP on unrelated links
+    const ensureNextHop = (fwId: string, r: RouteInfo): string => {
+      const id = `nh:${fwId}:${r.nextHop}`;
+      if (cy.getElementById(id).empty()) {
+        cy.add({ group: 'nodes', data: { id, kind: 'nexthop', label: `next-hop\n${r.nextHop}` } });
+        cy.add({ group: 'edges', data: { id: `fw-nh:${fwId}->${id}`, kind: 'fw-nh', source: fwId, target: id, label: r.egressIf || '' } });
+      }
+      return id;
+    };
+
     // Edges from firewalls to networks (from XML)
     for (const s of wheelSubnets) {
       const src = s.firewallId || fwIds[0];
+      if (s.route) {
+        // Routed network: firewall → next-hop → remote network
+        const r = s.route;
+        const from = r.nextHop ? ensureNextHop(src, r) : src;
+        const label = s.derived ? `via ${r.dest}` : r.metric != null ? `metric ${r.metric}` : r.kind === 'default' ? 'default' : (r.nextHop ? 'static' : (r.egressIf || 'static'));
+        const edgeId = `route:${from}->${s.cidr}`;
+        if (cy.getElementById(edgeId).nonempty()) continue;
+        cy.add({ group: 'edges', data: { id: edgeId, kind: 'route', source: from, target: s.cidr, label } });
+        continue;
+      }
       const targetNodeId = s.cidr; // network nodes keyed by cidr
       const defaultEdge = s.interfaceName ? (s.vlanId ? `${s.interfaceName} | VLAN ${s.vlanId}` : s.interfaceName) : '(derived)';
       const edgeLabel = edgeNotes.get(s.cidr) ?? defaultEdge;
@@ -515,6 +651,30 @@ export default function App() {
       cy.$('edge[kind = "fw-fw"]').style({ 'line-color': '#ffd54a', 'width': 3, 'target-arrow-shape': 'none', 'curve-style': 'bezier' });
     }
 
+    // Branch Office VPN tunnels between loaded firewalls, and to peers that are not on the map
+    const vpnLabel = (head: string, ike: number | undefined, pairs: Parameters<typeof formatVpnPairs>[0], extra = '') => {
+      const title = `VPN ${head}${ike ? ` IKEv${ike}` : ''}${extra}`;
+      return pairs.length ? `${title}\n${formatVpnPairs(pairs)}` : title;
+    };
+    for (const l of vpn.links) {
+      const head = l.aGateway === l.bGateway ? l.aGateway : `${l.aGateway} ↔ ${l.bGateway}`;
+      cy.add({ group: 'edges', data: { id: l.id, kind: 'vpn', source: l.aFw, target: l.bFw, label: vpnLabel(head, l.ikeVersion, l.pairs, l.ikeMismatch ? ' (IKE mismatch)' : '') } });
+    }
+    for (const p of vpn.peers) {
+      const peerId = `vpnpeer:${p.peer}`;
+      if (cy.getElementById(peerId).empty()) cy.add({ group: 'nodes', data: { id: peerId, kind: 'vpnpeer', label: `VPN peer\n${p.peer}` } });
+      const id = `vpn:${p.fwId}:${p.gateway}->${peerId}`;
+      if (cy.getElementById(id).nonempty()) continue;
+      cy.add({ group: 'edges', data: { id, kind: 'vpn', source: p.fwId, target: peerId, label: vpnLabel(p.gateway, p.ikeVersion, p.pairs) } });
+    }
+    cy.$('edge[kind = "vpn"]').style({ 'line-color': '#c084fc', 'line-style': 'dashed', 'width': 3, 'curve-style': 'bezier', 'text-wrap': 'wrap' });
+    cy.$('node[kind = "vpnpeer"]').style({ 'shape': 'diamond', 'border-color': '#c084fc' });
+
+    // style for routes and next hops
+    cy.$('node[kind = "nexthop"]').style({ 'shape': 'ellipse', 'background-color': '#0c2a3d', 'border-color': '#38bdf8', 'font-size': '10px' });
+    cy.$('node[kind = "defaultroute"]').style({ 'shape': 'ellipse', 'border-color': '#38bdf8', 'border-style': 'dashed' });
+    cy.$('edge[kind = "route"], edge[kind = "fw-nh"]').style({ 'line-color': '#38bdf8', 'line-style': 'dashed' });
+
   cy.layout({ name: 'circle', radius: 300, animate: false }).run();
   try { cy.fit(cy.elements(), 50); } catch {}
 
@@ -523,10 +683,13 @@ export default function App() {
   cy.off('tap', 'edge');
     cy.off('cxttap', 'node');
   cy.off('dbltap', 'node');
+    // next hops, VPN peers and default routes are not networks: no selection, LAN focus or notes
+    const isAux = (n: any) => ['nexthop', 'vpnpeer', 'defaultroute'].includes(n.data('kind'));
     cy.on('tap', 'node', (evt) => {
       const id: string = evt.target.id();
       // firewall nodes are ids in fwIds; network nodes are keyed by cidr strings
-      if (fwIds.includes(id)) return;
+      if (evt.target.data('kind') === 'firewall') { setActiveFirewall(prev => (prev === id ? null : id)); return; }
+      if (fwIds.includes(id) || isAux(evt.target)) return;
       const cidr = id; // node ids for networks are cidrs
       setActiveSubnet(prev => (prev === cidr ? null : cidr));
       setActiveHost(null);
@@ -535,7 +698,7 @@ export default function App() {
     // Double-click to enter LAN Focus overlay
     cy.on('dbltap', 'node', (evt) => {
       const id: string = evt.target.id();
-      if (fwIds.includes(id)) return;
+      if (fwIds.includes(id) || isAux(evt.target)) return;
       setLanFocusSubnet(id);
     });
 
@@ -556,7 +719,7 @@ export default function App() {
     cy.on('cxttap', 'node', async (evt) => {
       try {
         const id: string = evt.target.id();
-        if (fwIds.includes(id)) return;
+        if (fwIds.includes(id) || isAux(evt.target)) return;
         const cidr = id;
         const current = annotations.get(cidr) || '';
         setEditingNode({ cidr, value: current });
@@ -585,10 +748,28 @@ export default function App() {
     cy.on('mouseup', async () => {
       try { if (!dragging) return; const { edgeId, cidr } = dragging; const edge = cy.getElementById(edgeId); const offset = edge.data('labelOffset') ?? 0; const mid = mapIdRef.current; dragging = null; if (mid) { await setAnnotationOffsetFor(mid, cidr, Number(offset)||0); await touchMap(mid); setLabelOffsets(prev => { const n = new Map(prev); n.set(cidr, Number(offset)||0); return n; }); } } catch (e) { console.error(e); }
     });
-  }, [wheelSubnets, annotations, labelOffsets, edgeNotes, firewalls]);
+  }, [wheelSubnets, annotations, labelOffsets, edgeNotes, firewalls, vpn]);
+
+  const selectedFirewall = React.useMemo(() => firewalls.find(f => f.id === activeFirewall) ?? null, [firewalls, activeFirewall]);
+  const subnetDhcp = React.useMemo(() => (activeSubnet ? dhcpForSubnet(firewalls, activeSubnet) : []), [firewalls, activeSubnet]);
+  const dhcpReservations = React.useMemo(() => (activeSubnet ? subnetReservations(subnetDhcp, activeSubnet) : []), [subnetDhcp, activeSubnet]);
+
+  const onImportDhcpReservations = React.useCallback(async () => {
+    const mid = mapIdRef.current;
+    if (!mid || !activeSubnet || !dhcpReservations.length) return;
+    try {
+      const { added, skipped } = await importDhcpReservations(mid, activeSubnet, dhcpReservations);
+      logMsg(`DHCP reservations for ${activeSubnet}: ${added} added to LAN hosts${skipped ? `, ${skipped} already present` : ''}.`);
+    } catch (e: any) {
+      console.error(e);
+      setError(`DHCP import failed: ${String(e?.message || e)}`);
+    }
+  }, [activeSubnet, dhcpReservations, logMsg]);
 
   // ---------- Compute Hosts + Policies for selected network ----------
   const allPolicies = snap.policies ?? [];
+  const ruleFindings = React.useMemo(() => analyzeRules(allPolicies), [allPolicies]);
+  const ruleFindingsByPolicy = React.useMemo(() => findingsByPolicy(ruleFindings), [ruleFindings]);
 
   // Policies that affect a given subnet (any src/dst overlap)
   const policiesForSubnet = React.useCallback((subnet: string): UnifiedPolicy[] => {
@@ -607,22 +788,28 @@ export default function App() {
       for (const ip of p.srcHosts) if (cidrContainsIp(subnet, ip)) h.add(ip);
       for (const ip of p.dstHosts) if (cidrContainsIp(subnet, ip)) h.add(ip);
       // if policy uses /32 in cidrs but not in hosts arrays, include them too
-      for (const c of p.srcCidrs) if (c && prefixLen(c)===32) { const ip = c.split('/')[0]; if (cidrContainsIp(subnet, ip)) h.add(ip); }
-      for (const c of p.dstCidrs) if (c && prefixLen(c)===32) { const ip = c.split('/')[0]; if (cidrContainsIp(subnet, ip)) h.add(ip); }
+      for (const c of p.srcCidrs) if (c && isHostCidr(c)) { const ip = c.split('/')[0]; if (cidrContainsIp(subnet, ip)) h.add(ip); }
+      for (const c of p.dstCidrs) if (c && isHostCidr(c)) { const ip = c.split('/')[0]; if (cidrContainsIp(subnet, ip)) h.add(ip); }
     }
     return Array.from(h).sort();
   }, [policiesForSubnet]);
 
   const visiblePolicies = React.useMemo(() => {
-    if (!activeSubnet) return allPolicies;
+    // Effective rule order first; policies without a known order (e.g. XLS) keep their relative position at the end
+    const ordered = (arr: UnifiedPolicy[]) => arr.slice().sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity));
+    if (policyFilter) return ordered(policyFilter.policies);
+    if (!activeSubnet) return ordered(allPolicies);
     const sub = policiesForSubnet(activeSubnet);
-    if (!activeHost) return sub;
-    return sub.filter(p =>
+    if (!activeHost) return ordered(sub);
+    return ordered(sub.filter(p =>
       p.srcHosts.includes(activeHost) || p.dstHosts.includes(activeHost) ||
-      p.srcCidrs.some(c => c && prefixLen(c)===32 && c.startsWith(activeHost + '/')) ||
-      p.dstCidrs.some(c => c && prefixLen(c)===32 && c.startsWith(activeHost + '/'))
-    );
-  }, [allPolicies, activeSubnet, activeHost, policiesForSubnet]);
+      p.srcCidrs.some(c => c && isHostCidr(c) && c.startsWith(activeHost + '/')) ||
+      p.dstCidrs.some(c => c && isHostCidr(c) && c.startsWith(activeHost + '/'))
+    ));
+  }, [allPolicies, activeSubnet, activeHost, policiesForSubnet, policyFilter]);
+
+  // Picking a subnet/host or another map returns the panel to the normal view
+  React.useEffect(() => { setPolicyFilter(null); }, [activeSubnet, activeHost, mapId]);
 
   const [manualHosts, setManualHosts] = React.useState<string[]>([]);
   React.useEffect(() => {
@@ -641,21 +828,44 @@ export default function App() {
     return Array.from(set).sort();
   }, [activeSubnet, hostsForSubnet, manualHosts]);
 
+  // ---------- FQDN resolution ----------
+  const policyFqdns = React.useMemo(() => {
+    const set = new Set<string>();
+    for (const p of allPolicies) { p.srcFqdns?.forEach(f => set.add(f)); p.dstFqdns?.forEach(f => set.add(f)); }
+    return Array.from(set).sort();
+  }, [allPolicies]);
+
+  // Re-resolve aliases after the table changes so policies pick up the new addresses
+  const onFqdnSaved = React.useCallback(async () => {
+    if (!mapId) return;
+    const table = await getFqdnResolutionsFor(mapId);
+    setFqdnTable(table);
+    if (!lastXmlText || !lastXmlText.trim()) return;
+    const raw = await parseWatchGuardXmlText(lastXmlText);
+    const domain = toDomain(raw);
+    const xmlPolicies = xmlPoliciesToUnified(raw, makeAliasUniverse(raw, domain, table));
+    setSnap(prev => ({ ...prev, domain, xmlPolicies, policies: mergePolicies(xmlPolicies, []) }));
+    logMsg(`FQDN table saved: ${table.size} name(s) resolved.`);
+  }, [mapId, lastXmlText, logMsg]);
+
   // ---------- Search (select /24 node for an IP) ----------
-  const onSearch = React.useCallback(() => {
-    const ip = searchIp.trim();
-    if (!ip) return;
+  const focusHost = React.useCallback((ip: string) => {
     // try exact matching among wheel subnets
     let found: string | null = null;
     for (const s of wheelSubnets) {
-      if (cidrContainsIp(s.cidr, ip)) { found = s.cidr; break; }
+      if (prefixLen(s.cidr) > 0 && cidrContainsIp(s.cidr, ip)) { found = s.cidr; break; } // not the default route
     }
     // fallback: /24
-    if (!found) found = to24(ip);
+    if (!found) { try { found = bucketCidr(ip); } catch { found = null; } }
     setActiveSubnet(found);
     setActiveHost(ip);
     logMsg(found ? `Selected subnet ${found} for host ${ip}` : `No subnet contains ${ip}`);
-  }, [searchIp, wheelSubnets, logMsg]);
+  }, [wheelSubnets, logMsg]);
+  const onSearch = React.useCallback(() => {
+    const ip = searchIp.trim();
+    if (!ip) return;
+    focusHost(ip);
+  }, [searchIp, focusHost]);
 
   // ---- Counts & layout ----
   const xmlCount = snap.xmlPolicies?.length ?? 0;
@@ -668,8 +878,58 @@ export default function App() {
         const n = cy.getElementById(activeSubnet);
         if (n && n.nonempty()) n.addClass('active');
       }
+      if (activeFirewall) cy.getElementById(activeFirewall).addClass('active');
+    } catch {}
+  }, [activeSubnet, activeFirewall]);
+  // ---------- Reachability path ----------
+  const onReachResult = React.useCallback((r: ReachResult | null, q: { src: string; dst: string }) => {
+    if (!r) { setReachPath(null); return; }
+    // Most specific network node on the map that holds the address
+    const netNode = (addr: string): string | null => {
+      const hits = wheelSubnets.filter(s => (addr.includes('/') ? cidrContains(s.cidr, addr) : cidrContainsIp(s.cidr, addr)));
+      hits.sort((a, b) => prefixLen(b.cidr) - prefixLen(a.cidr));
+      return hits[0]?.cidr ?? null;
+    };
+    const nodes: string[] = [];
+    const edges: string[] = [];
+    const srcNet = netNode(q.src);
+    if (srcNet) nodes.push(srcNet);
+    for (const h of r.hops) {
+      nodes.push(h.fwId);
+      const e = h.egress;
+      if (!e || e.kind === 'none') continue;
+      const finalDst = r.hops[r.hops.length - 1] === h ? h.dst : null;
+      if (e.kind === 'connected') { const n = netNode(e.cidr.split('/')[0]) ?? e.cidr; nodes.push(n); }
+      else if (e.kind === 'vpn') {
+        if (e.linkId) edges.push(e.linkId);
+        if (e.peer) nodes.push(`vpnpeer:${e.peer}`);
+      } else if (e.kind === 'route' && !e.nextFw) {
+        if (e.route.nextHop) nodes.push(`nh:${h.fwId}:${e.route.nextHop}`);
+        const n = finalDst ? netNode(finalDst) : null;
+        if (n) nodes.push(n);
+      }
+    }
+    setReachPath({ nodes, edges, blocked: r.verdict === 'denied' ? r.hops[r.hops.length - 1]?.fwId : undefined });
+  }, [wheelSubnets]);
+
+  React.useEffect(() => {
+    const cy = cyRef.current; if (!cy) return;
+    try {
+      cy.elements().removeClass('reach reach-blocked');
+      if (!reachPath) return;
+      const ids = reachPath.nodes.filter(id => cy.getElementById(id).nonempty());
+      ids.forEach(id => cy.getElementById(id).addClass('reach'));
+      // Edges between consecutive nodes; VPN hops use their own tunnel edge only
+      const vpnEdges = new Set(reachPath.edges);
+      for (let i = 1; i < ids.length; i++) {
+        const between = cy.getElementById(ids[i - 1]).edgesWith(cy.getElementById(ids[i]));
+        const tunnel = between.filter(e => vpnEdges.has(e.id()));
+        (tunnel.nonempty() ? tunnel : between).addClass('reach');
+      }
+      if (reachPath.blocked) cy.getElementById(reachPath.blocked).addClass('reach-blocked');
     } catch {}
-  }, [activeSubnet]);
+  }, [reachPath, wheelSubnets, firewalls, vpn, annotations, labelOffsets, edgeNotes]);
+
   const onSaveMap = React.useCallback(async () => {
     try {
       if (mapId) {
@@ -704,33 +964,37 @@ export default function App() {
       if (!lastXmlText) { window.alert('Load an XML first, then Save As.'); return; }
       const nm = window.prompt('New map name:');
       if (!nm || !nm.trim()) return;
-      const newId = (lastXmlText && lastXmlText.trim()) ?
-        await createMap(nm.trim(), lastXmlName || undefined, lastXmlText) :
-        await createEmptyMap(nm.trim());
-      // If user renamed the main firewall in-session, persist that name on the new map's primary device
-      if (firewalls[0]?.name) {
-        try { await renameFirstDeviceForMap(newId, firewalls[0].name); } catch {}
-      }
-      // If XML-based, add additional firewalls (skip first which is included by createMap)
-      if (lastXmlText && lastXmlText.trim()) {
-        for (let i = 1; i < firewalls.length; i++) {
-          const fw = firewalls[i];
-          if (fw.xmlText) {
-            await addMapDevice(newId, fw.name, fw.xmlText);
+      // A new map starts with an empty undo history
+      const newId = await withoutHistory(async () => {
+        const id = (lastXmlText && lastXmlText.trim()) ?
+          await createMap(nm.trim(), lastXmlName || undefined, lastXmlText) :
+          await createEmptyMap(nm.trim());
+        // If user renamed the main firewall in-session, persist that name on the new map's primary device
+        if (firewalls[0]?.name) {
+          try { await renameFirstDeviceForMap(id, firewalls[0].name); } catch {}
+        }
+        // If XML-based, add additional firewalls (skip first which is included by createMap)
+        if (lastXmlText && lastXmlText.trim()) {
+          for (let i = 1; i < firewalls.length; i++) {
+            const fw = firewalls[i];
+            if (fw.xmlText) {
+              await addMapDevice(id, fw.name, fw.xmlText);
+            }
           }
         }
-      }
-      // Copy annotations and edge data
-      for (const [cidr, note] of annotations.entries()) {
-        await setAnnotationFor(newId, cidr, note);
-      }
-      for (const [cidr, off] of labelOffsets.entries()) {
-        await setAnnotationOffsetFor(newId, cidr, off);
-      }
-      for (const [cidr, en] of edgeNotes.entries()) {
-        await setEdgeNoteFor(newId, cidr, en);
-      }
-      await touchMap(newId);
+        // Copy annotations and edge data
+        for (const [cidr, note] of annotations.entries()) {
+          await setAnnotationFor(id, cidr, note);
+        }
+        for (const [cidr, off] of labelOffsets.entries()) {
+          await setAnnotationOffsetFor(id, cidr, off);
+        }
+        for (const [cidr, en] of edgeNotes.entries()) {
+          await setEdgeNoteFor(id, cidr, en);
+        }
+        await touchMap(id);
+        return id;
+      });
       setMapId(newId); setMapName(nm.trim());
       try { localStorage.setItem(LAST_MAP_KEY, newId); } catch {}
       const rows = await listMaps(); setMaps(rows);
@@ -791,6 +1055,75 @@ export default function App() {
       logMsg('Closed current map.');
     } catch (e) { console.error(e); }
   }, [logMsg]);
+
+  // Single-map bundles for moving a map to another browser. anonymize: the copy for vendors and
+  // consultants, with addresses and names replaced (see security/anonymize.ts)
+  const onExportMapBundle = React.useCallback(async (anonymize = false) => {
+    try {
+      if (!mapId || !mapName) { window.alert('No saved map selected. Open a map first.'); return; }
+      // An encrypted database only exports encrypted bundles
+      const encrypted = isDbEncrypted();
+      const pass = await askPassphrase({
+        title: anonymize ? 'Encrypt anonymized map' : 'Encrypt map bundle',
+        note: encrypted ? 'The database is encrypted, so the bundle is too. Share the passphrase with the recipient separately.'
+          : anonymize ? 'Leave empty to export an unencrypted bundle. Addresses, alias and host names are replaced; descriptions, notes and the history are left out.'
+          : 'Leave empty to export an unencrypted bundle. The bundle contains the firewall XML (without its keys and passwords).',
+        confirm: true,
+        allowEmpty: !encrypted,
+      });
+      if (pass === null) return;
+      let bundle = await exportMapBundle(mapId);
+      if (anonymize) bundle = anonymizeMapBundle(bundle);
+      const fileName = bundleFileName(anonymize ? 'anonymized-map' : mapName);
+      const blob = new Blob([pass ? await sealMapBundle(bundle, pass) : JSON.stringify(bundle)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url; a.download = fileName; a.click();
+      setTimeout(()=> URL.revokeObjectURL(url), 5000);
+      logMsg(`Exported ${anonymize ? 'an anonymized copy of ' : ''}map '${mapName}' to ${fileName}${pass ? ' (encrypted)' : ''}.`);
+    } catch (e: any) {
+      console.error(e); setError(`Export map failed: ${String(e?.message || e)}`);
+    }
+  }, [mapId, mapName, logMsg, askPassphrase]);
+
+  const onImportMapBundle = React.useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    try {
+      setError(null);
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const text = await file.text();
+      let bundle;
+      if (isSealedBundleText(text)) {
+        const pass = await askPassphrase({ title: `Open ${file.name}`, note: 'This map bundle is encrypted.' });
+        if (pass === null) return;
+        bundle = await openSealedBundle(text, pass);
+      } else {
+        bundle = parseMapBundle(text);
+      }
+      const rows = await listMaps();
+      const clash = rows.find(m => m.id === bundle.map.id) ?? rows.find(m => m.name === bundle.map.name);
+      let name = bundle.map.name;
+      let replaceId: string | undefined;
+      if (clash) {
+        if (window.confirm(`A map named '${clash.name}' already exists.\n\nOK: replace it with the imported map.\nCancel: import as a separate copy.`)) {
+          replaceId = clash.id;
+        } else {
+          const nm = window.prompt('Name for the imported copy:', `${bundle.map.name} (imported)`);
+          if (!nm || !nm.trim()) return;
+          name = nm.trim();
+        }
+      }
+      const id = await importMapBundle(bundle, { name, replaceId });
+      setMaps(await listMaps());
+      if (replaceId && replaceId === mapIdRef.current) { setUndoSnapshot(null); setUndoLabel(null); }
+      await loadMapById(id);
+      logMsg(`Imported map '${name}' from ${file.name}${replaceId ? ' (replaced existing map)' : ''}.`);
+    } catch (err: any) {
+      console.error(err); setError(`Import map failed: ${String(err?.message || err)}`);
+    } finally {
+      if (bundleInputRef.current) bundleInputRef.current.value = '';
+    }
+  }, [loadMapById, logMsg, askPassphrase]);
   const mergedCount = allPolicies.length;
   const headerHeight = 44;
 
@@ -825,6 +1158,12 @@ export default function App() {
                     style={{ width: '100%', background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Rename Map…</button>
                   <button type="button" onClick={()=>{ closeAllMenus(); onSaveAsMap(); }}
                     style={{ width: '100%', background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Save As…</button>
+                  <button type="button" disabled={!mapId} onClick={()=>{ closeAllMenus(); onExportMapBundle(); }}
+                    style={{ width: '100%', background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer', opacity: mapId ? 1 : 0.5 }}>Export map…</button>
+                  <button type="button" disabled={!mapId} onClick={()=>{ closeAllMenus(); onExportMapBundle(true); }} title="Export a copy with addresses, alias and host names replaced"
+                    style={{ width: '100%', background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer', opacity: mapId ? 1 : 0.5 }}>Anonymize for sharing…</button>
+                  <button type="button" onClick={()=>{ closeAllMenus(); bundleInputRef.current?.click(); }}
+                    style={{ width: '100%', background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Import map…</button>
                   {mapId && (
                     <button type="button" onClick={()=>{ closeAllMenus(); onDeleteCurrentMap(); }}
                       style={{ width: '100%', background: '#7f1d1d', color: 'white', border: 'none', padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Delete Map</button>
@@ -879,6 +1218,7 @@ export default function App() {
                 <div style={{ display: 'grid', gap: 6 }}>
                   <button type="button" onClick={()=>{ closeAllMenus(); xmlInputRef.current?.click(); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Load XML…</button>
                   <button type="button" onClick={()=>{ closeAllMenus(); clickAddFirewallPicker(); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Add Firewall XML…</button>
+                  <button type="button" disabled={!mapId} onClick={()=>{ closeAllMenus(); setShowDeviceUpdate(true); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer', opacity: mapId ? 1 : 0.5 }}>Update device from XML…</button>
                   <button type="button" onClick={()=>{ closeAllMenus(); onRenameMainFirewall(); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Rename Firewall…</button>
                   <button type="button" onClick={()=>{ closeAllMenus(); if (!mapId) { window.alert('Open or save a map first to import into.'); return; } setShowImportPreview(true); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Import from Excel (Preview)…</button>
                 </div>
@@ -894,6 +1234,15 @@ export default function App() {
               <div style={{ position: 'absolute', top: '100%', left: 0, background: theme.panelBg, border: `1px solid ${theme.border}`, borderRadius: 8, padding: 8, zIndex: 10, minWidth: 200 }}>
                 <div style={{ display: 'grid', gap: 6 }}>
                   <button type="button" onClick={()=>{ closeAllMenus(); onFitGraph(); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Fit graph to view</button>
+                  <button type="button" disabled={!allPolicies.length} onClick={()=>{ closeAllMenus(); setShowExposed(true); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer', opacity: allPolicies.length ? 1 : 0.5 }}>Exposed services…</button>
+                  <button type="button" disabled={!firewalls.length} onClick={()=>{ closeAllMenus(); setShowReach(true); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer', opacity: firewalls.length ? 1 : 0.5 }}>Can A reach B?…</button>
+                  <button type="button" disabled={!firewalls.length} onClick={()=>{ closeAllMenus(); setShowMatrix(true); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer', opacity: firewalls.length ? 1 : 0.5 }}>Access matrix…</button>
+                  <button type="button" disabled={!mapId} onClick={()=>{ closeAllMenus(); setShowRevisions(true); }} title={mapId ? 'Compare stored XML revisions of a device' : 'Save the map first'} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer', opacity: mapId ? 1 : 0.5 }}>Revision history…</button>
+                  <button type="button" disabled={!mapId} onClick={()=>{ closeAllMenus(); setShowEditHistory(true); }} title={mapId ? 'Undo and redo edits (Ctrl+Z / Ctrl+Y)' : 'Save the map first'} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer', opacity: mapId ? 1 : 0.5 }}>Undo history…</button>
+                  <button type="button" disabled={!mapId} onClick={()=>{ closeAllMenus(); setShowAuditLog(true); }} title={mapId ? 'Who changed what in this map, and when' : 'Save the map first'} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer', opacity: mapId ? 1 : 0.5 }}>History…</button>
+                  <button type="button" disabled={!allPolicies.length} onClick={()=>{ closeAllMenus(); setShowRules(true); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer', opacity: allPolicies.length ? 1 : 0.5 }}>Policy anomalies{ruleFindings.length ? ` (${ruleFindings.length})` : ''}…</button>
+                  <button type="button" disabled={!firewalls.length} onClick={()=>{ closeAllMenus(); setShowHealth(true); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer', opacity: firewalls.length ? 1 : 0.5 }}>Object health…</button>
+                  <button type="button" disabled={!mapId || (!policyFqdns.length && !fqdnTable.size)} onClick={()=>{ closeAllMenus(); setShowFqdn(true); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer', opacity: mapId && (policyFqdns.length || fqdnTable.size) ? 1 : 0.5 }}>FQDN resolution…</button>
                 </div>
               </div>
             )}
@@ -906,8 +1255,22 @@ export default function App() {
             {helpMenuOpen && (
               <div style={{ position: 'absolute', top: '100%', left: 0, background: theme.panelBg, border: `1px solid ${theme.border}`, borderRadius: 8, padding: 8, zIndex: 10, minWidth: 200 }}>
                 <div style={{ display: 'grid', gap: 6 }}>
-                  <button type="button" onClick={()=>{ closeAllMenus(); window.alert('WatchGuard Network Mapper\nLocal-only app. Data stored in your browser.'); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>About</button>
-                  <button type="button" onClick={()=>{ closeAllMenus(); window.alert('Shortcuts:\nCtrl+O Open\nCtrl+S Save\nCtrl+Shift+S Save As\nF Fit graph\n/ Focus search'); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Shortcuts</button>
+                  <button type="button" onClick={()=>{ closeAllMenus(); window.alert(`WatchGuard Network Mapper\nLocal-only app. Data stored in your browser.\nDatabase schema v${SCHEMA_VERSION}`); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>About</button>
+                  <button type="button" onClick={()=>{
+                    closeAllMenus();
+                    const current = (()=>{ try { return localStorage.getItem(USER_NAME_KEY) || ''; } catch { return ''; } })();
+                    const name = window.prompt('Your name, recorded with every change you make (History):', current);
+                    if (name === null) return;
+                    try { localStorage.setItem(USER_NAME_KEY, name.trim()); } catch {}
+                    setAuditUser(name);
+                    logMsg(name.trim() ? `Changes are now recorded as ${name.trim()}.` : 'User name cleared.');
+                  }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>User name…</button>
+                  <button type="button" onClick={()=>{ closeAllMenus(); setShowEncryption(true); }} title="Encrypt the maps stored in this browser with a passphrase" style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Database encryption…</button>
+                  <button type="button" onClick={()=>{ closeAllMenus(); window.alert('Shortcuts:\nCtrl+O Open\nCtrl+S Save\nCtrl+Shift+S Save As\nCtrl+Z Undo edit\nCtrl+Y Redo edit\nF Fit graph\n/ Focus search'); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Shortcuts</button>
+                  <button type="button" onClick={()=>{ closeAllMenus(); setShowDbCheck(true); }} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Database check…</button>
+                  {preMigration && (
+                    <button type="button" onClick={()=>{ closeAllMenus(); if (isDbEncrypted() && !window.confirm('The backup file is not encrypted. Download it anyway?')) return; const blob = new Blob([new Uint8Array(preMigration.bytes)], { type: 'application/x-sqlite3' }); const url = URL.createObjectURL(blob); const a = document.createElement('a'); a.href = url; a.download = `wgmap-schema-v${preMigration.fromVersion}-backup.sqlite`; a.click(); setTimeout(()=> URL.revokeObjectURL(url), 5000); }} title={`Database as it was before the upgrade to schema v${preMigration.toVersion} on ${new Date(preMigration.at).toLocaleString()}`} style={{ background: theme.bg, color: theme.text, border: `1px solid ${theme.border}`, padding: '6px 8px', borderRadius: 6, cursor: 'pointer' }}>Download pre-upgrade DB backup</button>
+                  )}
                 </div>
               </div>
             )}
@@ -921,7 +1284,7 @@ export default function App() {
               onClick={async () => {
                 try {
                   const { restoreDbBytes, listMaps } = await import('./db');
-                  await restoreDbBytes(undoSnapshot);
+                  await restoreDbBytes(undoSnapshot, mapId ? { mapId, detail: `Undo Import${undoLabel ? `: ${undoLabel}` : ''}` } : undefined);
                   const rows = await listMaps(); setMaps(rows);
                   logMsg(`Undo applied${undoLabel ? `: ${undoLabel}` : ''}.`);
                 } catch (e) { console.error(e); }
@@ -951,6 +1314,7 @@ export default function App() {
           {/* hidden inputs */}
           <input type="file" accept=".xml" ref={xmlInputRef} onChange={onPickXml} style={{ display: 'none' }} />
           <input type="file" accept=".xml" ref={xmlAddFwRef} onChange={onAddFirewallXml} style={{ display: 'none' }} />
+          <input type="file" accept={`${BUNDLE_EXT},application/json`} ref={bundleInputRef} onChange={onImportMapBundle} style={{ display: 'none' }} />
           {/* XLS deprecated: keeping the input hidden for now */}
           {/* <input type="file" accept=".xls,.xlsx" ref={xlsInputRef} onChange={onPickXls} style={{ display: 'none' }} /> */}
         </div>
@@ -973,10 +1337,123 @@ export default function App() {
             mapId={mapId}
             subnet={lanFocusSubnet}
             knownHostIps={activeSubnet===lanFocusSubnet ? hostList : []}
+            reloadKey={historyTick}
             onClose={() => setLanFocusSubnet(null)}
           />
         )}
 
+        {/* Report, tool and settings modals */}
+        {!lanFocusSubnet && showExposed && (
+          <ExposedServices
+            policies={allPolicies}
+            onClose={()=> setShowExposed(false)}
+            onFocusHost={(ip)=>{ setShowExposed(false); setSearchIp(ip); focusHost(ip); }}
+          />
+        )}
+        {!lanFocusSubnet && showReach && (
+          <ReachQuery
+            firewalls={firewalls}
+            fqdnTable={fqdnTable}
+            vpn={vpn}
+            onClose={()=> setShowReach(false)}
+            onResult={onReachResult}
+          />
+        )}
+        {!lanFocusSubnet && showMatrix && (
+          <ZoneMatrix
+            firewalls={firewalls}
+            fqdnTable={fqdnTable}
+            onClose={()=> setShowMatrix(false)}
+            onShowPolicies={(label, policies)=>{ setShowMatrix(false); setPolicyFilter({ label, policies }); }}
+          />
+        )}
+        {!lanFocusSubnet && showRevisions && mapId && (
+          <RevisionHistory
+            mapId={mapId}
+            fqdnTable={fqdnTable}
+            onClose={()=> setShowRevisions(false)}
+          />
+        )}
+        {!lanFocusSubnet && showRules && (
+          <RuleAnalysis
+            findings={ruleFindings}
+            onClose={()=> setShowRules(false)}
+            onShowPolicies={(label, policies)=>{ setShowRules(false); setPolicyFilter({ label, policies }); }}
+          />
+        )}
+        {!lanFocusSubnet && showHealth && (
+          <ObjectHealth
+            firewalls={firewalls}
+            fqdnTable={fqdnTable}
+            onClose={()=> setShowHealth(false)}
+            onShowPolicies={(label, policies)=>{ setShowHealth(false); setPolicyFilter({ label, policies }); }}
+          />
+        )}
+        {!lanFocusSubnet && showFqdn && mapId && (
+          <FqdnResolutions
+            mapId={mapId}
+            fqdns={policyFqdns}
+            table={fqdnTable}
+            onClose={()=> setShowFqdn(false)}
+            onSaved={()=>{ void onFqdnSaved(); }}
+          />
+        )}
+        {!lanFocusSubnet && showDeviceUpdate && mapId && (
+          <DeviceUpdate
+            mapId={mapId}
+            onClose={()=> setShowDeviceUpdate(false)}
+            onApplied={async (payload)=>{
+              setUndoSnapshot(payload.bytes);
+              setUndoLabel(payload.summary);
+              setShowDeviceUpdate(false);
+              await loadMapById(mapId);
+              logMsg(payload.summary);
+            }}
+          />
+        )}
+        {!lanFocusSubnet && showEditHistory && mapId && (
+          <EditHistory
+            mapId={mapId}
+            reloadKey={historyTick}
+            onStep={onHistoryStep}
+            onClose={()=> setShowEditHistory(false)}
+          />
+        )}
+        {!lanFocusSubnet && showAuditLog && mapId && (
+          <AuditLog
+            mapId={mapId}
+            onClose={()=> setShowAuditLog(false)}
+          />
+        )}
+        {showEncryption && (
+          <EncryptionSettings
+            onClose={()=> setShowEncryption(false)}
+            onChanged={(message)=> logMsg(message)}
+          />
+        )}
+        {passPrompt && (
+          <PassphrasePrompt
+            title={passPrompt.title}
+            note={passPrompt.note}
+            confirm={passPrompt.confirm}
+            allowEmpty={passPrompt.allowEmpty}
+            onSubmit={(p)=> { passPrompt.resolve(p); setPassPrompt(null); }}
+            onCancel={()=> { passPrompt.resolve(null); setPassPrompt(null); }}
+          />
+        )}
+        {dbLocked && <UnlockScreen onUnlock={openDb} />}
+        {!lanFocusSubnet && showDbCheck && (
+          <DatabaseCheck
+            onClose={()=> setShowDbCheck(false)}
+            onRepaired={async (payload)=>{
+              setUndoSnapshot(payload.bytes);
+              setUndoLabel(payload.summary);
+              setMaps(await listMaps());
+              if (mapId) await loadMapById(mapId);
+              logMsg(payload.summary);
+            }}
+          />
+        )}
         {/* Import Preview Modal */}
         {!lanFocusSubnet && showImportPreview && mapId && (
           <ImportPreview
@@ -1086,6 +1563,71 @@ export default function App() {
           <div style={{ fontWeight: 600, marginBottom: 4 }}>Selection</div>
           <div>Subnet: <span style={{ color: theme.accent }}>{activeSubnet ?? '—'}</span></div>
           <div>Host: <span style={{ color: theme.accent }}>{activeHost ?? '—'}</span></div>
+          {subnetDhcp.length > 0 && (
+            <div style={{ marginTop: 6 }}>
+              <div style={{ fontWeight: 600, margin: '6px 0 4px' }}>DHCP</div>
+              <ul style={{ margin: 0, paddingLeft: 16, color: theme.textDim }}>
+                {subnetDhcp.map(e => (
+                  <li key={`${e.firewallName}::${e.interfaceName}`}>
+                    <span style={{ color: theme.text }}>{e.interfaceName}</span>{firewalls.length > 1 ? ` (${e.firewallName})` : ''}
+                    {e.dhcp.mode === 'relay'
+                      ? ` relay → ${e.dhcp.relayServers.join(', ')}`
+                      : ` server, pool ${e.dhcp.pools.map(p => `${p.from}–${p.to}`).join(', ') || 'none'}`}
+                  </li>
+                ))}
+              </ul>
+              {dhcpReservations.length > 0 && (
+                <>
+                  <div style={{ fontWeight: 600, margin: '6px 0 4px' }}>Reservations ({dhcpReservations.length})</div>
+                  <ul style={{ margin: 0, paddingLeft: 16, maxHeight: 140, overflow: 'auto', color: theme.textDim }}>
+                    {dhcpReservations.map(r => (
+                      <li key={r.ip}><span style={{ color: theme.text }}>{r.ip}</span>{r.name ? ` ${r.name}` : ''}{r.mac ? ` (${r.mac})` : ''}</li>
+                    ))}
+                  </ul>
+                  <button type="button" disabled={!mapId} title={mapId ? undefined : 'Save the map first'} onClick={onImportDhcpReservations} style={{ marginTop: 6, background: theme.button, color: 'white', border: 'none', padding: '6px 10px', borderRadius: 6, opacity: mapId ? 1 : 0.5 }}>Import reservations into LAN hosts</button>
+                </>
+              )}
+            </div>
+          )}
+          {selectedFirewall && (
+            <div style={{ marginTop: 6 }}>
+              <div>Firewall: <span style={{ color: theme.accent }}>{selectedFirewall.name}</span></div>
+              <div style={{ fontWeight: 600, margin: '6px 0 4px' }}>Routes ({selectedFirewall.domain.routes.length})</div>
+              {selectedFirewall.domain.routes.length ? (
+                <ul style={{ margin: 0, paddingLeft: 16, maxHeight: 140, overflow: 'auto', color: theme.textDim }}>
+                  {selectedFirewall.domain.routes.map((r, i) => (
+                    <li key={i}>
+                      <span style={{ color: theme.text }}>{r.dest}</span>
+                      {r.nextHop ? ` via ${r.nextHop}` : ''}
+                      {r.egressIf ? ` dev ${r.egressIf}` : ''}
+                      {r.metric != null ? ` metric ${r.metric}` : ''}
+                      {r.kind !== 'network' ? ` (${r.kind})` : ''}
+                    </li>
+                  ))}
+                </ul>
+              ) : <div style={{ color: theme.textDim }}>No static routes or default gateways in XML.</div>}
+              {selectedFirewall.domain.vpnGateways.length > 0 && (
+                <>
+                  <div style={{ fontWeight: 600, margin: '6px 0 4px' }}>BOVPN gateways ({selectedFirewall.domain.vpnGateways.length})</div>
+                  <ul style={{ margin: 0, paddingLeft: 16, maxHeight: 140, overflow: 'auto', color: theme.textDim }}>
+                    {selectedFirewall.domain.vpnGateways.map(g => {
+                      const link = vpn.links.find(l => (l.aFw === selectedFirewall.id && l.aGateway === g.name) || (l.bFw === selectedFirewall.id && l.bGateway === g.name));
+                      const peerId = link ? (link.aFw === selectedFirewall.id ? link.bFw : link.aFw) : null;
+                      const pairs = selectedFirewall.domain.vpnTunnels.filter(t => t.gateway === g.name).flatMap(t => t.pairs);
+                      return (
+                        <li key={g.name}>
+                          <span style={{ color: theme.text }}>{g.name}</span>
+                          {g.ikeVersion ? ` IKEv${g.ikeVersion}` : ''}
+                          {` → ${peerId ? (firewalls.find(f => f.id === peerId)?.name ?? peerId) : (g.remoteAddrs.join(', ') || 'dynamic peer')}`}
+                          {pairs.map((p, i) => (<div key={i} style={{ fontSize: 12 }}>{p.local} ⇄ {p.remote}</div>))}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
           {error && <div style={{ marginTop: 6, color: '#fca5a5' }}>{error}</div>}
         </div>
 
@@ -1162,21 +1704,54 @@ export default function App() {
         {/* Policies */}
         <div style={{ padding: 10, overflow: 'auto', background: theme.panelBg }}>
           <div style={{ fontWeight: 600, marginBottom: 6 }}>
-            Policies {activeHost ? `(host ${activeHost})` : activeSubnet ? `(subnet ${activeSubnet})` : ''}
+            Policies {policyFilter ? `(${policyFilter.label})` : activeHost ? `(host ${activeHost})` : activeSubnet ? `(subnet ${activeSubnet})` : ''}
+            {policyFilter && (
+              <button type="button" onClick={()=> setPolicyFilter(null)} style={{ marginLeft: 8, background: 'transparent', color: '#93c5fd', border: `1px solid ${theme.border}`, padding: '0 6px', borderRadius: 6, cursor: 'pointer', fontSize: 12, fontWeight: 400 }}>clear</button>
+            )}
           </div>
           <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'grid', gap: 6 }}>
             {visiblePolicies.slice(0, 500).map(p => (
-              <li key={`${p.source}-${p.id}-${p.name}`} style={{ background: theme.bg, border: `1px solid ${theme.border}`, borderRadius: 8, padding: 8 }}>
+              <li key={`${p.source}-${p.id}-${p.name}`} style={{ background: theme.bg, border: `1px solid ${theme.border}`, borderRadius: 8, padding: 8, opacity: p.enabled === false ? 0.55 : 1 }}>
                 <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
-                  <span style={{ fontWeight: 600 }}>{p.name}</span>
+                  {typeof p.order === 'number' && <span style={{ fontSize: 12, color: theme.textDim }}>#{p.order}</span>}
+                  <span style={{ fontWeight: 600, textDecoration: p.enabled === false ? 'line-through' : 'none' }}>{p.name}</span>
                   <span style={{ fontSize: 12, opacity: 0.8 }}>{p.service ?? ''}</span>
-                  <span style={{ marginLeft: 'auto', fontSize: 12, background: theme.nodeFill, padding: '2px 6px', borderRadius: 999 }}>
-                    {p.source}
+                  <span style={{ marginLeft: 'auto', display: 'flex', gap: 4 }}>
+                    {p.action && (
+                      <span title={p.action === 'drop' ? 'Denied (dropped)' : p.action === 'deny' ? 'Denied (send reset)' : 'Allowed'} style={{ fontSize: 12, background: p.action === 'allow' ? '#14532d' : '#7f1d1d', padding: '2px 6px', borderRadius: 999 }}>
+                        {p.action}
+                      </span>
+                    )}
+                    {p.enabled === false && <span style={{ fontSize: 12, background: '#374151', padding: '2px 6px', borderRadius: 999 }}>disabled</span>}
+                    {Array.from(new Set((ruleFindingsByPolicy.get(p) ?? []).map(f => f.kind))).map(k => (
+                      <span key={k} title={(ruleFindingsByPolicy.get(p) ?? []).filter(f => f.kind === k).map(f => f.detail).join('\n')} style={{ fontSize: 12, background: RULE_KIND_COLOR[k], padding: '2px 6px', borderRadius: 999 }}>
+                        {RULE_KIND_LABEL[k].toLowerCase()}
+                      </span>
+                    ))}
+                    {p.log && <span style={{ fontSize: 12, background: theme.nodeFill, padding: '2px 6px', borderRadius: 999 }}>log</span>}
+                    <span style={{ fontSize: 12, background: theme.nodeFill, padding: '2px 6px', borderRadius: 999 }}>
+                      {p.source}
+                    </span>
                   </span>
                 </div>
                 <div style={{ marginTop: 4, fontSize: 12, opacity: 0.9 }}>
                   src: {p.srcCidrs.join(', ') || '—'} &nbsp;→&nbsp; dst: {p.dstCidrs.join(', ') || '—'}
                 </div>
+                {p.serviceEntries && p.serviceEntries.length > 0 && (
+                  <div style={{ marginTop: 2, fontSize: 12, color: theme.textDim }}>
+                    ports: {p.serviceEntries.map(formatServiceEntry).join(', ')}
+                  </div>
+                )}
+                {p.nat?.translations && p.nat.translations.length > 0 && (
+                  <div style={{ marginTop: 2, fontSize: 12, color: theme.textDim }}>
+                    nat: {p.nat.translations.map(formatNat).join('; ')}
+                  </div>
+                )}
+                {((p.srcFqdns?.length ?? 0) > 0 || (p.dstFqdns?.length ?? 0) > 0) && (
+                  <div style={{ marginTop: 2, fontSize: 12, color: theme.textDim }}>
+                    fqdn: {p.srcFqdns?.join(', ') || '—'} &nbsp;→&nbsp; {p.dstFqdns?.join(', ') || '—'}
+                  </div>
+                )}
               </li>
             ))}
             {visiblePolicies.length === 0 && <li style={{ opacity: 0.7 }}>No policies to display.</li>}
@@ -0,0 +1,76 @@
+// src/cli/report.ts
+// Headless report over one or more XML exports: the parsed domain, every alias resolved to its
+// addresses, the unified policies and the object health findings. Used by the command-line tool
+// (wgmap_report.ts); no browser APIs, so it also runs under Node.
+
+import { makeAliasUniverse, formatNat, formatServiceEntry, type Domain, type FqdnTable } from '../parse_watchguard';
+import { policiesFromXmlText, type UnifiedPolicy } from '../xml_to_upolicy';
+import { objectHealth, type HealthFirewall, type HealthIssue } from '../health/object_health';
+import { csvCell } from '../csv';
+
+export type ReportAlias = { cidrs: string[]; hosts: string[]; fqdns: string[]; notes: string[] };
+
+export type ReportFirewall = {
+  file: string;
+  name: string;
+  domain: Domain;
+  aliases: Record<string, ReportAlias>; // aliases and address groups by name
+  policies: UnifiedPolicy[];
+};
+
+export type Report = {
+  generatedAt: string; // ISO timestamp
+  firewalls: ReportFirewall[];
+  issues: HealthIssue[];
+};
+
+export type ReportInput = { file: string; name: string; xmlText: string };
+
+export async function buildReport(inputs: ReportInput[], fqdnTable: FqdnTable = new Map()): Promise<Report> {
+  const fws: Array<HealthFirewall & { file: string }> = [];
+  for (const [i, input] of inputs.entries()) {
+    let parsed;
+    try { parsed = await policiesFromXmlText(input.xmlText, fqdnTable); }
+    catch (e: any) { throw new Error(`${input.file}: ${String(e?.message ?? e)}`); }
+    fws.push({ id: `fw${i + 1}`, name: input.name, file: input.file, ...parsed });
+  }
+  const firewalls = fws.map(fw => {
+    const universe = makeAliasUniverse(fw.raw, fw.domain, fqdnTable);
+    const aliases: Record<string, ReportAlias> = {};
+    for (const name of [...fw.raw.aliasesByName.keys(), ...fw.raw.addrGroupsByName.keys()]) {
+      if (aliases[name]) continue;
+      const r = universe.resolveAlias(name);
+      aliases[name] = { cidrs: [...r.cidrs], hosts: [...r.hosts], fqdns: [...r.fqdns], notes: r.notes };
+    }
+    return { file: fw.file, name: fw.name, domain: fw.domain, aliases, policies: fw.policies };
+  });
+  return { generatedAt: new Date().toISOString(), firewalls, issues: objectHealth(fws) };
+}
+
+export function brokenReferences(report: Report): HealthIssue[] {
+  return report.issues.filter(i => i.kind === 'broken-ref');
+}
+
+// Maps and Sets (Domain lookups, resolved aliases) become objects and arrays
+export function reportToJson(report: Report): string {
+  return JSON.stringify(report, (_key, v) => (v instanceof Map ? Object.fromEntries(v) : v instanceof Set ? [...v] : v), 2);
+}
+
+export function reportPoliciesToCsv(report: Report): string {
+  const header = ['firewall', 'order', 'policy', 'action', 'enabled', 'service', 'ports', 'from', 'to', 'src', 'dst', 'nat'];
+  const lines = report.firewalls.flatMap(fw => fw.policies.map(p => [
+    fw.name,
+    p.order,
+    p.name,
+    p.action,
+    p.enabled === false ? 'no' : 'yes',
+    p.service,
+    (p.serviceEntries ?? []).map(formatServiceEntry).join(' '),
+    p.fromAliases.join(' '),
+    p.toAliases.join(' '),
+    [...p.srcCidrs, ...p.srcHosts, ...(p.srcFqdns ?? [])].join(' '),
+    [...p.dstCidrs, ...p.dstHosts, ...(p.dstFqdns ?? [])].join(' '),
+    (p.nat?.translations ?? []).map(formatNat).join('; '),
+  ].map(csvCell).join(',')));
+  return [header.join(','), ...lines].join('\n');
+}
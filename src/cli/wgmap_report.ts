@@ -0,0 +1,72 @@
+// src/cli/wgmap_report.ts
+// Command-line report for config backups (nightly jobs): parses WatchGuard XML exports without
+// the browser and writes the JSON report and/or a CSV policy table (see report.ts).
+// Usage: npm run report -- [--json <file>] [--csv <file>] <config.xml>...
+// Exit codes: 0 ok, 1 broken alias/address-group references, 2 bad arguments or unreadable XML.
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { formatFireware } from '../fireware_profile';
+import { brokenReferences, buildReport, reportPoliciesToCsv, reportToJson, type ReportInput } from './report';
+
+const USAGE = `Usage: wgmap_report [--json <file>] [--csv <file>] <config.xml>...
+  --json <file>  JSON report: domain, resolved aliases, unified policies, object health ('-' = stdout)
+  --csv <file>   policy table of every firewall ('-' = stdout)
+Without --json or --csv the JSON report goes to stdout. Exits with 1 when an alias or
+address group references an object that does not exist.`;
+
+async function output(target: string, text: string): Promise<void> {
+  if (target === '-') process.stdout.write(`${text}\n`);
+  else await writeFile(target, `${text}\n`, 'utf8');
+}
+
+async function main(args: string[]): Promise<number> {
+  let json: string | undefined;
+  let csv: string | undefined;
+  const files: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === '-h' || a === '--help') { console.log(USAGE); return 0; }
+    if (a === '--json' || a === '--csv') {
+      const v = args[++i];
+      if (!v) { console.error(`${a} needs a file name\n${USAGE}`); return 2; }
+      if (a === '--json') json = v; else csv = v;
+      continue;
+    }
+    if (a.startsWith('-') && a !== '-') { console.error(`Unknown option ${a}\n${USAGE}`); return 2; }
+    files.push(a);
+  }
+  if (!files.length) { console.error(USAGE); return 2; }
+  if (!json && !csv) json = '-';
+
+  const inputs: ReportInput[] = [];
+  for (const file of files) {
+    try {
+      inputs.push({ file, name: path.basename(file, path.extname(file)), xmlText: await readFile(file, 'utf8') });
+    } catch (e: any) {
+      console.error(`${file}: ${String(e?.message ?? e)}`);
+      return 2;
+    }
+  }
+  let report;
+  try { report = await buildReport(inputs); }
+  catch (e: any) { console.error(String(e?.message ?? e)); return 2; }
+
+  if (json) await output(json, reportToJson(report));
+  if (csv) await output(csv, reportPoliciesToCsv(report));
+
+  // The summary goes to stderr so stdout stays machine-readable
+  for (const fw of report.firewalls) {
+    const detected = formatFireware(fw.domain.fireware);
+    console.error(`${fw.name}${detected ? ` (${detected})` : ''}: ${fw.domain.interfaces.length} interfaces, ${Object.keys(fw.aliases).length} aliases, ${fw.policies.length} policies`);
+    for (const w of fw.domain.fireware?.warnings ?? []) console.error(`${fw.name}: warning: ${w}`);
+  }
+  const broken = brokenReferences(report);
+  for (const b of broken) console.error(`${b.fwName}: broken reference in ${b.objectType} ${b.object}: ${b.detail}`);
+  return broken.length ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  e => { console.error(e); process.exitCode = 2; },
+);
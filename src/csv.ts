@@ -0,0 +1,8 @@
+// src/csv.ts
+// CSV output shared by the report exports.
+
+/** One CSV field: quoted when it holds a quote, comma or line break */
+export function csvCell(v: unknown): string {
+  const s = String(v ?? '');
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
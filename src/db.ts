@@ -5,6 +5,10 @@
 import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
 import { get as idbGet, set as idbSet } from 'idb-keyval';
 import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import { deriveKey, isSealed, seal, unseal, type PassphraseKey, type Sealed } from './security/encryption';
+import { redactSecrets } from './security/redact';
+import { detectFireware } from './fireware_profile';
+import { parseXml } from './xml_dom';
 
 const DB_KEY = 'wgmap.sqlite';
 
@@ -17,11 +21,12 @@ async function loadSql(): Promise<SqlJsStatic> {
   return SQL;
 }
 
-async function loadDbBytes(): Promise<Uint8Array | null> {
+// The stored database: SQLite bytes, or sealed ones when encryption is on
+async function loadStored(): Promise<Uint8Array | Sealed | null> {
   try {
     const data = await idbGet(DB_KEY);
     if (!data) return null;
-    if (data instanceof Uint8Array) return data;
+    if (data instanceof Uint8Array || isSealed(data)) return data;
     if (Array.isArray(data)) return new Uint8Array(data);
     return null;
   } catch {
@@ -29,10 +34,92 @@ async function loadDbBytes(): Promise<Uint8Array | null> {
   }
 }
 
-async function persist(): Promise<void> {
+// ---------------- Persistence ----------------
+// Every write exports the whole SQLite file to IndexedDB, so writes are coalesced: persist()
+// schedules one export shortly after the last change, and nothing is written while a
+// transaction is open (its commit schedules the export instead).
+const PERSIST_DELAY_MS = 250;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+let txDepth = 0;
+let txDirty = false;
+let txOutlived = false; // the open transaction is still running after the task that began it
+let flushHooked = false;
+
+// sql.js reopens the database to export it, which resets connection settings such as
+// foreign key enforcement; every export goes through here to switch it back on
+function exportBytes(d: Database): Uint8Array {
+  const bytes = d.export();
+  d.exec('PRAGMA foreign_keys = ON');
+  return bytes;
+}
+
+// Writes are queued so a slower encryption cannot store an older export over a newer one
+let lastWrite: Promise<void> = Promise.resolve();
+
+async function writeNow(): Promise<void> {
+  if (persistTimer) { clearTimeout(persistTimer); persistTimer = null; }
   if (!db) return;
-  const data = db.export();
-  await idbSet(DB_KEY, data);
+  if (txDepth === 0) closeHistoryStep(db);
+  const data = exportBytes(db);
+  const key = dbKey;
+  const write = lastWrite.then(async () => { await idbSet(DB_KEY, key ? await seal(key, data) : data); });
+  lastWrite = write.catch(() => {});
+  await write;
+}
+
+async function persist(): Promise<void> {
+  if (txDepth > 0) { txDirty = true; return; }
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    if (txDepth > 0) { txDirty = true; return; }
+    writeNow().catch(e => console.error('[DB] persist failed', e));
+  }, PERSIST_DELAY_MS);
+}
+
+// Write any scheduled changes now (page hide, before replacing the DB, ...)
+export async function flushPersist(): Promise<void> {
+  if (persistTimer && txDepth === 0) await writeNow();
+}
+
+/**
+ * Runs fn as one unit of work: all its statements commit together or, if it throws, are rolled
+ * back and the error is rethrown. Nested calls join the outer transaction.
+ *
+ * fn may only await this module's database calls, never other I/O (files, network, timers), so
+ * it finishes within the task that began it and nothing else can run inside the transaction.
+ * That is enforced: a transaction still open after its task is rolled back, and calls made from
+ * other tasks while it is open are refused instead of joining it.
+ */
+export async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  const d = getDb();
+  if (txDepth > 0) {
+    if (txOutlived) throw new Error('Another transaction is still open');
+    return fn();
+  }
+  d.exec('BEGIN');
+  txDepth++;
+  txOutlived = false;
+  // Runs after the current task and its microtasks, i.e. only once fn has awaited real I/O
+  const watch = setTimeout(() => { if (txDepth > 0) txOutlived = true; }, 0);
+  let committed = false;
+  try {
+    const out = await fn();
+    if (txOutlived) throw new Error('Transaction awaited I/O outside the database; rolled back');
+    d.exec('COMMIT');
+    committed = true;
+    return out;
+  } catch (e) {
+    try { d.exec('ROLLBACK'); } catch { /* already rolled back by SQLite */ }
+    throw e;
+  } finally {
+    clearTimeout(watch);
+    txDepth--;
+    txOutlived = false;
+    const dirty = txDirty;
+    txDirty = false;
+    if (committed && dirty) await persist();
+  }
 }
 
 export type MapRow = {
@@ -43,7 +130,7 @@ export type MapRow = {
   updatedAt: number;
 };
 
-function uuid(): string {
+export function uuid(): string {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
     const r = (crypto.getRandomValues(new Uint8Array(1))[0] & 0xf) >>> 0;
     const v = c === 'x' ? r : (r & 0x3) | 0x8;
@@ -51,11 +138,13 @@ function uuid(): string {
   });
 }
 
-export async function initDb(): Promise<void> {
-  const SQL = await loadSql();
-  const bytes = await loadDbBytes();
-  db = bytes ? new SQL.Database(bytes) : new SQL.Database();
-  db.exec(`
+// ---------------- Schema migrations ----------------
+// schema_version records every migration applied; the highest version is the schema the DB is at.
+// Migrations run in order, each in its own transaction, and are never edited once released:
+// schema changes go in a new migration at the end of the list.
+
+// Version 1: tables as they were before versioning (older DBs already have them; IF NOT EXISTS)
+const BASE_SCHEMA = `
     CREATE TABLE IF NOT EXISTS maps (
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL,
@@ -190,14 +279,321 @@ export async function initDb(): Promise<void> {
       label TEXT,
       UNIQUE (mapId, srcId, dstId)
     );
-  `);
-  // --- Migrations (run every init; safe to ignore if already applied) ---
-  try { db.exec('ALTER TABLE annotations2 ADD COLUMN offset REAL'); console.log('[DB] migration: annotations2.offset added (or already present)'); } catch (e:any) { /* duplicate ok */ }
-  try { db.exec('ALTER TABLE annotations2 ADD COLUMN edgeNote TEXT'); console.log('[DB] migration: annotations2.edgeNote added (or already present)'); } catch (e:any) { /* duplicate ok */ }
-  try { db.exec('ALTER TABLE lan_hosts ADD COLUMN kind TEXT'); console.log('[DB] migration: lan_hosts.kind added (or already present)'); } catch (e:any) { /* duplicate ok */ }
-  try { db.exec('ALTER TABLE lan_switches ADD COLUMN managed INTEGER'); console.log('[DB] migration: lan_switches.managed added (or already present)'); } catch (e:any) { /* duplicate ok */ }
-  try { db.exec('ALTER TABLE lan_switches ADD COLUMN portCount INTEGER'); console.log('[DB] migration: lan_switches.portCount added (or already present)'); } catch (e:any) { /* duplicate ok */ }
-  await persist();
+`;
+
+type Migration = { version: number; name: string; up: (db: Database) => void };
+
+function hasColumn(db: Database, table: string, column: string): boolean {
+  const res = db.exec(`PRAGMA table_info(${table})`);
+  return (res?.[0]?.values ?? []).some((r: any[]) => r[1] === column);
+}
+
+// Databases from before versioning may already carry the column (it used to be added on every start)
+function addColumn(table: string, column: string, type: string): (db: Database) => void {
+  return db => { if (!hasColumn(db, table, column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`); };
+}
+
+const MIGRATIONS: Migration[] = [
+  { version: 1, name: 'base schema', up: db => db.exec(BASE_SCHEMA) },
+  { version: 2, name: 'annotations2.offset', up: addColumn('annotations2', 'offset', 'REAL') },
+  { version: 3, name: 'annotations2.edgeNote', up: addColumn('annotations2', 'edgeNote', 'TEXT') },
+  { version: 4, name: 'lan_hosts.kind', up: addColumn('lan_hosts', 'kind', 'TEXT') },
+  { version: 5, name: 'lan_switches.managed', up: addColumn('lan_switches', 'managed', 'INTEGER') },
+  { version: 6, name: 'lan_switches.portCount', up: addColumn('lan_switches', 'portCount', 'INTEGER') },
+  { version: 7, name: 'fqdn_resolutions', up: db => db.exec(`
+    -- Manual FQDN → IP answers for alias members that name a host
+    CREATE TABLE IF NOT EXISTS fqdn_resolutions (
+      mapId TEXT NOT NULL,
+      fqdn TEXT NOT NULL,
+      ips TEXT, -- comma-separated
+      PRIMARY KEY (mapId, fqdn)
+    );
+  `) },
+  { version: 8, name: 'xml_revisions', up: db => db.exec(`
+    -- Every XML stored for a map, per device slot ('primary' = map_xml, else map_devices.devId)
+    CREATE TABLE IF NOT EXISTS xml_revisions (
+      id TEXT PRIMARY KEY,
+      mapId TEXT NOT NULL,
+      devId TEXT NOT NULL,
+      name TEXT,
+      xml TEXT NOT NULL,
+      importedAt INTEGER NOT NULL
+    );
+  `) },
+  { version: 9, name: 'indexes on map and subnet lookups', up: db => db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_lan_switches_subnet ON lan_switches (mapId, subnet);
+    CREATE INDEX IF NOT EXISTS idx_lan_hosts_subnet ON lan_hosts (mapId, subnet);
+    CREATE INDEX IF NOT EXISTS idx_lan_vlans_subnet ON lan_vlans (mapId, subnet);
+    CREATE INDEX IF NOT EXISTS idx_lan_ports_switch ON lan_ports (switchId);
+    CREATE INDEX IF NOT EXISTS idx_map_devices_map ON map_devices (mapId);
+    CREATE INDEX IF NOT EXISTS idx_xml_revisions_device ON xml_revisions (mapId, devId, importedAt);
+  `) },
+  // Rows written before these columns existed hold NULL; store the defaults the queries assumed
+  { version: 10, name: 'backfill LAN defaults', up: db => db.exec(`
+    UPDATE lan_switches SET managed = 1 WHERE managed IS NULL;
+    UPDATE lan_switches SET portCount = 0 WHERE portCount IS NULL;
+    UPDATE lan_hosts SET source = 'manual' WHERE source IS NULL;
+  `) },
+  // SQLite cannot add constraints to a table, so the link tables are rebuilt. Rows that already
+  // point nowhere are kept as they are; the Database check reports and removes them.
+  { version: 11, name: 'foreign keys on LAN link tables', up: db => db.exec(`
+    CREATE TABLE lan_ports_new (
+      id TEXT PRIMARY KEY,
+      switchId TEXT NOT NULL REFERENCES lan_switches (id) ON DELETE CASCADE,
+      name TEXT,
+      idx INTEGER,
+      poe INTEGER,
+      speed TEXT,
+      meta TEXT
+    );
+    INSERT INTO lan_ports_new (id, switchId, name, idx, poe, speed, meta) SELECT id, switchId, name, idx, poe, speed, meta FROM lan_ports;
+    DROP TABLE lan_ports;
+    ALTER TABLE lan_ports_new RENAME TO lan_ports;
+
+    CREATE TABLE lan_port_vlans_new (
+      portId TEXT NOT NULL REFERENCES lan_ports (id) ON DELETE CASCADE,
+      vlanId TEXT NOT NULL REFERENCES lan_vlans (id) ON DELETE CASCADE,
+      mode TEXT,
+      untagged INTEGER,
+      PRIMARY KEY (portId, vlanId)
+    );
+    INSERT INTO lan_port_vlans_new (portId, vlanId, mode, untagged) SELECT portId, vlanId, mode, untagged FROM lan_port_vlans;
+    DROP TABLE lan_port_vlans;
+    ALTER TABLE lan_port_vlans_new RENAME TO lan_port_vlans;
+
+    -- Insertion order is kept: the Database check treats the latest binding of a host as current
+    CREATE TABLE lan_bindings_new (
+      hostId TEXT NOT NULL REFERENCES lan_hosts (id) ON DELETE CASCADE,
+      portId TEXT NOT NULL REFERENCES lan_ports (id) ON DELETE CASCADE,
+      PRIMARY KEY (hostId, portId)
+    );
+    INSERT INTO lan_bindings_new (hostId, portId) SELECT hostId, portId FROM lan_bindings ORDER BY rowid;
+    DROP TABLE lan_bindings;
+    ALTER TABLE lan_bindings_new RENAME TO lan_bindings;
+
+    CREATE INDEX IF NOT EXISTS idx_lan_ports_switch ON lan_ports (switchId);
+    CREATE INDEX IF NOT EXISTS idx_lan_port_vlans_vlan ON lan_port_vlans (vlanId);
+    CREATE INDEX IF NOT EXISTS idx_lan_bindings_port ON lan_bindings (portId);
+  `) },
+  { version: 12, name: 'edit history', up: db => db.exec(`
+    -- Undo/redo journal (see Edit history): one step per edit, with the SQL that reverts it
+    CREATE TABLE IF NOT EXISTS history_steps (
+      id INTEGER PRIMARY KEY,
+      mapId TEXT,
+      label TEXT NOT NULL,
+      at INTEGER NOT NULL,
+      undone INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE TABLE IF NOT EXISTS history_log (
+      seq INTEGER PRIMARY KEY,
+      stepId INTEGER, -- NULL until the step is closed
+      tbl TEXT NOT NULL,
+      op TEXT NOT NULL, -- insert|update|move|delete (the edit, not the reverting SQL)
+      mapId TEXT,
+      what TEXT, -- name/ip/cidr of the row, for step labels
+      sql TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_history_steps_map ON history_steps (mapId, id);
+    CREATE INDEX IF NOT EXISTS idx_history_log_step ON history_log (stepId);
+  `) },
+  { version: 13, name: 'audit log', up: db => db.exec(`
+    -- Who changed what and when (see Audit log); rows are never changed or removed
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY,
+      mapId TEXT NOT NULL,
+      at INTEGER NOT NULL,
+      user TEXT,
+      action TEXT NOT NULL, -- kind.verb, e.g. host.bind
+      subnet TEXT,
+      switchId TEXT,
+      hostId TEXT,
+      detail TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_audit_log_map ON audit_log (mapId, at);
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+  `) },
+  // XML saved before redaction still holds its credentials
+  { version: 14, name: 'redact stored XML', up: redactStoredXml },
+  // Redaction now also covers CDATA bodies, secret attributes and key elements
+  { version: 15, name: 'redact stored XML (CDATA, attributes)', up: redactStoredXml },
+  { version: 16, name: 'map_devices.model/version', up: db => {
+    addColumn('map_devices', 'model', 'TEXT')(db);
+    addColumn('map_devices', 'version', 'TEXT')(db);
+    const res = db.exec('SELECT rowid, xml FROM map_devices');
+    const stmt = db.prepare('UPDATE map_devices SET model = ?, version = ? WHERE rowid = ?');
+    for (const [rowid, xml] of (res?.[0]?.values ?? []) as any[][]) {
+      const f = firewareOf(String(xml));
+      stmt.run([f.model, f.version, rowid]);
+    }
+    stmt.free();
+  } },
+];
+
+// Device model and Fireware version, stored with each device as detected from its XML
+function firewareOf(xmlText: string): { model: string | null; version: string | null } {
+  try {
+    const info = detectFireware(xmlText, parseXml(xmlText));
+    return { model: info.model ?? null, version: info.version ?? null };
+  } catch {
+    return { model: null, version: null }; // not well-formed; the parser reports it when the map loads
+  }
+}
+
+// Also run on the pre-upgrade backup, which may predate some of these tables. secure_delete
+// zeroes the replaced text, which would otherwise stay in the file's free space.
+function redactStoredXml(db: Database): void {
+  db.exec('PRAGMA secure_delete = ON');
+  for (const table of ['map_xml', 'map_devices', 'xml_revisions']) {
+    if (!hasColumn(db, table, 'xml')) continue;
+    const res = db.exec(`SELECT rowid, xml FROM ${table}`);
+    const stmt = db.prepare(`UPDATE ${table} SET xml = ? WHERE rowid = ?`);
+    for (const [rowid, xml] of (res?.[0]?.values ?? []) as any[][]) {
+      const r = redactSecrets(String(xml));
+      if (r.count) stmt.run([r.xml, rowid]);
+    }
+    stmt.free();
+  }
+}
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const PRE_MIGRATION_KEY = `${DB_KEY}.pre-migration`;
+export type PreMigrationSnapshot = { fromVersion: number; toVersion: number; at: number; bytes: Uint8Array };
+
+function schemaVersionOf(db: Database): number {
+  const res = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'");
+  if (!res?.[0]?.values?.length) return 0;
+  const v = db.exec('SELECT MAX(version) FROM schema_version');
+  return Number(v?.[0]?.values?.[0]?.[0] ?? 0);
+}
+
+function tooNewMessage(version: number): string {
+  return `This browser's database is at schema v${version}, but this version of the app only knows up to v${SCHEMA_VERSION}. `
+    + 'Open the newer version of the app (or clear site data to start over); the database was left untouched.';
+}
+
+function migrate(db: Database, from: number): void {
+  db.exec('CREATE TABLE IF NOT EXISTS schema_version (version INTEGER PRIMARY KEY, name TEXT NOT NULL, appliedAt INTEGER NOT NULL)');
+  const pending = MIGRATIONS.filter(m => m.version > from);
+  if (!pending.length) return;
+  // Table rebuilds need foreign key enforcement off; it cannot change inside a transaction
+  const fk = db.exec('PRAGMA foreign_keys')?.[0]?.values?.[0]?.[0];
+  db.exec('PRAGMA foreign_keys = OFF');
+  try {
+    for (const m of pending) {
+      db.exec('BEGIN');
+      try {
+        m.up(db);
+        const stmt = db.prepare('INSERT INTO schema_version (version, name, appliedAt) VALUES (?, ?, ?)');
+        stmt.run([m.version, m.name, Date.now()]);
+        stmt.free();
+        db.exec('COMMIT');
+        console.log(`[DB] migration ${m.version}: ${m.name}`);
+      } catch (e: any) {
+        db.exec('ROLLBACK');
+        throw new Error(`Database migration ${m.version} (${m.name}) failed: ${String(e?.message ?? e)}`);
+      }
+    }
+  } finally {
+    if (fk) db.exec('PRAGMA foreign_keys = ON');
+  }
+}
+
+export function getSchemaVersion(): number {
+  return schemaVersionOf(getDb());
+}
+
+// Copy of the database taken just before the last schema upgrade, if any
+export async function getPreMigrationSnapshot(): Promise<PreMigrationSnapshot | null> {
+  try {
+    const snap = await idbGet(PRE_MIGRATION_KEY);
+    if (snap && isSealed(snap.bytes)) return dbKey ? { ...snap, bytes: await unseal(dbKey, snap.bytes) } : null;
+    return snap && snap.bytes instanceof Uint8Array ? (snap as PreMigrationSnapshot) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** passphrase: needed when the stored database is encrypted (see isDbLocked) */
+export async function initDb(passphrase?: string): Promise<void> {
+  const SQL = await loadSql();
+  const stored = await loadStored();
+  let bytes: Uint8Array | null = null;
+  if (isSealed(stored)) {
+    const key = passphrase !== undefined ? await deriveKey(passphrase, stored.salt, stored.iterations) : dbKey;
+    if (!key) throw new Error('The database is encrypted; enter the passphrase to open it');
+    bytes = await unseal(key, stored);
+    dbKey = key;
+  } else {
+    bytes = stored;
+  }
+  const next: Database = bytes ? new SQL.Database(bytes) : new SQL.Database();
+  const from = schemaVersionOf(next);
+  // Never touch (or persist over) a database written by a newer app
+  if (from > SCHEMA_VERSION) { next.close(); throw new Error(tooNewMessage(from)); }
+  db = next;
+  if (bytes && from < SCHEMA_VERSION) {
+    // The backup keeps the old schema, not the credentials the redaction migrations remove
+    const copy: Database = new SQL.Database(bytes);
+    redactStoredXml(copy);
+    const backup = exportBytes(copy);
+    copy.close();
+    await idbSet(PRE_MIGRATION_KEY, { fromVersion: from, toVersion: SCHEMA_VERSION, at: Date.now(), bytes: dbKey ? await seal(dbKey, backup) : backup });
+    console.log(`[DB] snapshot saved before migrating schema v${from} → v${SCHEMA_VERSION}`);
+  }
+  migrate(db, from);
+  installHistory(db);
+  await writeNow();
+  if (typeof window !== 'undefined' && !flushHooked) {
+    flushHooked = true;
+    const flush = () => { void flushPersist(); };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', () => { if (document.visibilityState === 'hidden') flush(); });
+  }
+}
+
+// ---------------- Encryption at rest ----------------
+// Optional: the stored database and its pre-upgrade backup are sealed with a key derived from
+// a passphrase (security/encryption.ts). The key lives in memory only, so every start needs the
+// passphrase; the in-memory database and undo snapshots stay plain.
+let dbKey: PassphraseKey | null = null;
+
+/** True when the stored database is encrypted and was not unlocked yet (initDb needs the passphrase) */
+export async function isDbLocked(): Promise<boolean> {
+  return !db && isSealed(await loadStored());
+}
+
+export function isDbEncrypted(): boolean {
+  return !!dbKey;
+}
+
+/**
+ * Turns encryption on (current null), changes the passphrase, or turns it off (next null).
+ * The current passphrase is checked against the stored database first.
+ */
+export async function changeDbPassphrase(current: string | null, next: string | null): Promise<void> {
+  if (txDepth > 0) throw new Error('Cannot change the passphrase inside a transaction');
+  const old = dbKey;
+  if (old) {
+    const stored = await loadStored();
+    if (current === null || !isSealed(stored)) throw new Error('Enter the current passphrase');
+    await unseal(await deriveKey(current, old.salt, old.iterations), stored);
+  }
+  const key = next === null ? null : await deriveKey(next);
+  // Writes made meanwhile seal with the new key too; if storing fails the old key stays in use,
+  // matching what is still stored
+  dbKey = key;
+  try {
+    await writeNow();
+  } catch (e) {
+    dbKey = old;
+    throw e;
+  }
+  // The pre-upgrade backup follows the new key (or is stored plain again)
+  const snap = await idbGet(PRE_MIGRATION_KEY);
+  const bytes = isSealed(snap?.bytes) ? (old ? await unseal(old, snap.bytes) : null) : snap?.bytes;
+  if (bytes instanceof Uint8Array) await idbSet(PRE_MIGRATION_KEY, { ...snap, bytes: dbKey ? await seal(dbKey, bytes) : bytes });
 }
 
 // Lightweight guard to ensure the DB is initialized before use
@@ -211,25 +607,27 @@ export function getDb(): Database {
 
 // -------- DB snapshot/restore (for undo) --------
 export async function exportDbBytes(): Promise<Uint8Array> {
+  // sql.js reopens the database to export it, which would end an open transaction
+  if (txDepth > 0) throw new Error('Cannot snapshot the database inside a transaction');
   const d = getDb();
-  const bytes = d.export();
+  const bytes = exportBytes(d);
   return bytes;
 }
 
-export async function restoreDbBytes(bytes: Uint8Array): Promise<void> {
+/** note: audit entry recorded for the restore (e.g. which import it undid) */
+export async function restoreDbBytes(bytes: Uint8Array, note?: { mapId: string; detail: string }): Promise<void> {
   const SQL = await loadSql();
-  // Replace in-memory DB
-  db = new SQL.Database(bytes);
-  // Persist to IndexedDB immediately
-  await idbSet(DB_KEY, bytes);
-  // Re-run migrations defensively (idempotent)
-  try { db.exec('ALTER TABLE annotations2 ADD COLUMN offset REAL'); } catch {}
-  try { db.exec('ALTER TABLE annotations2 ADD COLUMN edgeNote TEXT'); } catch {}
-  try { db.exec('ALTER TABLE lan_hosts ADD COLUMN kind TEXT'); } catch {}
-  try { db.exec('ALTER TABLE lan_switches ADD COLUMN managed INTEGER'); } catch {}
-  try { db.exec('ALTER TABLE lan_switches ADD COLUMN portCount INTEGER'); } catch {}
-  // Ensure persisted snapshot matches current in-memory schema
-  await persist();
+  const next: Database = new SQL.Database(bytes);
+  const from = schemaVersionOf(next);
+  if (from > SCHEMA_VERSION) { next.close(); throw new Error(tooNewMessage(from)); }
+  // Snapshots taken before an upgrade are brought up to the current schema
+  migrate(next, from);
+  installHistory(next);
+  if (db) carryAuditLog(db, next);
+  if (persistTimer) { clearTimeout(persistTimer); persistTimer = null; } // pending writes belong to the replaced DB
+  db = next;
+  if (note) audit(note.mapId, 'snapshot.restore', note.detail);
+  await writeNow();
 }
 
 export async function listMaps(): Promise<MapRow[]> {
@@ -245,8 +643,13 @@ export async function listMaps(): Promise<MapRow[]> {
   return out;
 }
 
+// XML is stored without its credentials (keys, passwords, communities, certificates); the map
+// only needs the addressing and policies
+const storedXml = (xmlText: string) => redactSecrets(xmlText).xml;
+
 export async function createMap(name: string, xmlName: string | undefined, xmlText: string): Promise<string> {
   const db = getDb();
+  xmlText = storedXml(xmlText);
   const id = uuid();
   const now = Date.now();
   let stmt = db.prepare('INSERT INTO maps (id, name, xmlName, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)');
@@ -257,9 +660,13 @@ export async function createMap(name: string, xmlName: string | undefined, xmlTe
   stmt.free();
   // also store as first device record for consistency
   const devId = uuid();
-  stmt = db.prepare('INSERT INTO map_devices (mapId, devId, name, xml) VALUES (?, ?, ?, ?)');
-  stmt.run([id, devId, xmlName || name, xmlText]);
+  const fw = firewareOf(xmlText);
+  stmt = db.prepare('INSERT INTO map_devices (mapId, devId, name, xml, model, version) VALUES (?, ?, ?, ?, ?, ?)');
+  stmt.run([id, devId, xmlName || name, xmlText, fw.model, fw.version]);
   stmt.free();
+  // The primary copy is the same XML, so history is kept on the device slot only
+  insertXmlRevision(id, devId, xmlName || name, xmlText, now);
+  audit(id, 'map.create', `Created map ${name}${xmlName ? ` from ${xmlName}` : ''}`);
   await persist();
   return id;
 }
@@ -273,6 +680,7 @@ export async function createEmptyMap(name: string): Promise<string> {
   stmt.run([id, name, null, now, now]);
   stmt.free();
   // No row in map_xml required; keep absent to signify manual map
+  audit(id, 'map.create', `Created empty map ${name}`);
   await persist();
   return id;
 }
@@ -311,45 +719,58 @@ export async function touchMap(id: string): Promise<void> {
 export async function updateMapName(id: string, name: string): Promise<void> {
   const db = getDb();
   const stmt = db.prepare('UPDATE maps SET name = ?, updatedAt = ? WHERE id = ?');
+  const before = rowOf('maps', 'id = ?', [id]);
   stmt.run([name, Date.now(), id]);
   stmt.free();
+  if (before && before.name !== name) audit(id, 'map.rename', `Renamed map: ${before.name} → ${name}`);
   await persist();
 }
 
 export async function saveMapXml(id: string, xmlText: string): Promise<void> {
   const db = getDb();
+  xmlText = storedXml(xmlText);
   const stmt = db.prepare('INSERT INTO map_xml (id, xml) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET xml = excluded.xml');
   stmt.run([id, xmlText]);
   stmt.free();
+  if (insertXmlRevision(id, PRIMARY_DEVICE, null, xmlText)) audit(id, 'xml.save', 'Saved a new primary XML');
   await touchMap(id);
 }
 
 export async function addMapDevice(mapId: string, name: string | undefined, xmlText: string): Promise<string> {
   const db = getDb();
+  xmlText = storedXml(xmlText);
   const devId = uuid();
-  const stmt = db.prepare('INSERT INTO map_devices (mapId, devId, name, xml) VALUES (?, ?, ?, ?)');
-  stmt.run([mapId, devId, name || null, xmlText]);
+  const fw = firewareOf(xmlText);
+  const stmt = db.prepare('INSERT INTO map_devices (mapId, devId, name, xml, model, version) VALUES (?, ?, ?, ?, ?, ?)');
+  stmt.run([mapId, devId, name || null, xmlText, fw.model, fw.version]);
   stmt.free();
+  insertXmlRevision(mapId, devId, name || null, xmlText);
+  audit(mapId, 'device.add', `Added device ${name || 'from XML'}`);
   await touchMap(mapId);
   return devId;
 }
 
-export async function listMapDevices(mapId: string): Promise<Array<{ devId: string; name?: string; xml: string }>> {
+export type MapDeviceRow = { devId: string; name?: string; xml: string; model?: string; version?: string };
+
+export async function listMapDevices(mapId: string): Promise<MapDeviceRow[]> {
   const db = getDb();
-  const out: Array<{ devId: string; name?: string; xml: string }> = [];
-  const stmt = db.prepare('SELECT devId, name, xml FROM map_devices WHERE mapId = ?');
+  const out: MapDeviceRow[] = [];
+  const stmt = db.prepare('SELECT devId, name, xml, model, version FROM map_devices WHERE mapId = ?');
   stmt.bind([mapId]);
   while (stmt.step()) {
     const row = stmt.get();
-    out.push({ devId: row[0] as string, name: row[1] as string | undefined, xml: row[2] as string });
+    out.push({
+      devId: row[0] as string, name: row[1] as string | undefined, xml: row[2] as string,
+      model: (row[3] as string | null) ?? undefined, version: (row[4] as string | null) ?? undefined,
+    });
   }
   stmt.free();
   return out;
 }
 
-export async function getMapAllXmlTexts(mapId: string): Promise<Array<{ name?: string; xmlText: string }>> {
+export async function getMapAllXmlTexts(mapId: string): Promise<Array<{ name?: string; xmlText: string; model?: string; version?: string }>> {
   const db = getDb();
-  const out: Array<{ name?: string; xmlText: string }> = [];
+  const out: Array<{ name?: string; xmlText: string; model?: string; version?: string }> = [];
   // primary
   try {
     const stmt1 = db.prepare('SELECT xml FROM map_xml WHERE id = ?');
@@ -361,10 +782,138 @@ export async function getMapAllXmlTexts(mapId: string): Promise<Array<{ name?: s
   } catch {}
   // devices
   const devs = await listMapDevices(mapId);
-  devs.forEach(d => out.push({ name: d.name, xmlText: d.xml }));
+  devs.forEach(d => out.push({ name: d.name, xmlText: d.xml, model: d.model, version: d.version }));
   return out;
 }
 
+// ---------------- XML revisions ----------------
+// History of every XML imported per device slot. The primary map_xml row uses PRIMARY_DEVICE when
+// it is not just a copy of a device's XML (as it is for maps created from an import).
+export const PRIMARY_DEVICE = 'primary';
+
+export type XmlRevisionRow = {
+  id: string;
+  mapId: string;
+  devId: string;
+  name?: string;
+  importedAt: number;
+  size: number;
+};
+
+// Records a revision unless it is identical to the latest one for that device; does not persist
+function insertXmlRevision(mapId: string, devId: string, name: string | null, xmlText: string, importedAt = Date.now()): string | null {
+  const db = getDb();
+  let stmt = db.prepare('SELECT xml FROM xml_revisions WHERE mapId = ? AND devId = ? ORDER BY importedAt DESC, rowid DESC LIMIT 1');
+  stmt.bind([mapId, devId]);
+  const same = stmt.step() && stmt.get()[0] === xmlText;
+  stmt.free();
+  if (same) return null;
+  const id = uuid();
+  stmt = db.prepare('INSERT INTO xml_revisions (id, mapId, devId, name, xml, importedAt) VALUES (?, ?, ?, ?, ?, ?)');
+  stmt.run([id, mapId, devId, name, xmlText, importedAt]);
+  stmt.free();
+  return id;
+}
+
+// Add a revision without changing the device's current XML (e.g. a config exported for comparison)
+export async function addXmlRevision(mapId: string, devId: string, name: string | undefined, xmlText: string): Promise<string | null> {
+  const id = insertXmlRevision(mapId, devId, name || null, storedXml(xmlText));
+  if (id) {
+    audit(mapId, 'xml.revision.add', `Stored XML revision${name ? ` ${name}` : ''}`);
+    await touchMap(mapId);
+  }
+  return id;
+}
+
+// Maps saved before revisions were kept get their current XML recorded as the first revision
+async function seedXmlRevisions(mapId: string): Promise<void> {
+  const db = getDb();
+  let createdAt = Date.now();
+  let stmt = db.prepare('SELECT createdAt FROM maps WHERE id = ?');
+  stmt.bind([mapId]);
+  if (stmt.step()) createdAt = stmt.get()[0] as number;
+  stmt.free();
+  const have = new Set<string>();
+  stmt = db.prepare('SELECT DISTINCT devId FROM xml_revisions WHERE mapId = ?');
+  stmt.bind([mapId]);
+  while (stmt.step()) have.add(stmt.get()[0] as string);
+  stmt.free();
+  let seeded = false;
+  const devices = await listMapDevices(mapId);
+  const primary = await getMapXmlText(mapId);
+  // A primary XML that is a copy of a device's is that device's history, not a slot of its own
+  if (primary?.xmlText && !have.has(PRIMARY_DEVICE) && !devices.some(d => d.xml === primary.xmlText)) {
+    insertXmlRevision(mapId, PRIMARY_DEVICE, primary.xmlName || primary.name, primary.xmlText, createdAt);
+    seeded = true;
+  }
+  for (const d of devices) {
+    if (have.has(d.devId)) continue;
+    insertXmlRevision(mapId, d.devId, d.name ?? null, d.xml, createdAt);
+    seeded = true;
+  }
+  if (seeded) await persist();
+}
+
+export async function listXmlRevisions(mapId: string): Promise<XmlRevisionRow[]> {
+  await seedXmlRevisions(mapId);
+  const db = getDb();
+  const out: XmlRevisionRow[] = [];
+  const stmt = db.prepare('SELECT id, devId, name, importedAt, length(xml) FROM xml_revisions WHERE mapId = ? ORDER BY importedAt DESC, rowid DESC');
+  stmt.bind([mapId]);
+  while (stmt.step()) {
+    const row = stmt.get();
+    out.push({ id: row[0] as string, mapId, devId: row[1] as string, name: (row[2] as string | null) ?? undefined, importedAt: row[3] as number, size: row[4] as number });
+  }
+  stmt.free();
+  return out;
+}
+
+export async function getXmlRevisionText(id: string): Promise<string | null> {
+  const db = getDb();
+  const stmt = db.prepare('SELECT xml FROM xml_revisions WHERE id = ?');
+  stmt.bind([id]);
+  const xml = stmt.step() ? (stmt.get()[0] as string) : null;
+  stmt.free();
+  return xml;
+}
+
+export async function deleteXmlRevision(mapId: string, id: string): Promise<void> {
+  const db = getDb();
+  const before = rowOf('xml_revisions', 'mapId = ? AND id = ?', [mapId, id]);
+  const stmt = db.prepare('DELETE FROM xml_revisions WHERE mapId = ? AND id = ?');
+  stmt.run([mapId, id]);
+  stmt.free();
+  if (before) audit(mapId, 'xml.revision.delete', `Deleted XML revision${before.name ? ` ${before.name}` : ''} of ${new Date(before.importedAt).toLocaleString()}`);
+  await touchMap(mapId);
+}
+
+// Replace a device's XML (re-import). The primary map_xml copy follows when it held the same XML.
+export async function updateMapDevice(mapId: string, devId: string, xmlText: string, name?: string): Promise<void> {
+  const db = getDb();
+  if (devId === PRIMARY_DEVICE) { await saveMapXml(mapId, xmlText); return; }
+  xmlText = storedXml(xmlText);
+  await withTransaction(async () => {
+    let stmt = db.prepare('SELECT d.xml, x.xml FROM map_devices d LEFT JOIN map_xml x ON x.id = d.mapId WHERE d.mapId = ? AND d.devId = ?');
+    stmt.bind([mapId, devId]);
+    if (!stmt.step()) { stmt.free(); throw new Error('Device not found'); }
+    const [oldXml, primaryXml] = stmt.get() as [string, string | null];
+    stmt.free();
+    const devName = rowOf('map_devices', 'mapId = ? AND devId = ?', [mapId, devId])?.name;
+    const fw = firewareOf(xmlText);
+    stmt = db.prepare('UPDATE map_devices SET xml = ?, name = COALESCE(?, name), model = ?, version = ? WHERE mapId = ? AND devId = ?');
+    stmt.run([xmlText, name || null, fw.model, fw.version, mapId, devId]);
+    stmt.free();
+    insertXmlRevision(mapId, devId, name || null, xmlText);
+    if (primaryXml !== null && primaryXml === oldXml) {
+      stmt = db.prepare('UPDATE map_xml SET xml = ? WHERE id = ?');
+      stmt.run([xmlText, mapId]);
+      stmt.free();
+    }
+    if (oldXml !== xmlText) audit(mapId, 'device.update', `Updated device ${name || devName || devId} from new XML`);
+    await touchMap(mapId);
+  });
+}
+
 export async function getAnnotationMapFor(mapId: string): Promise<Map<string, string>> {
   const db = getDb();
   const map = new Map<string, string>();
@@ -381,9 +930,12 @@ export async function getAnnotationMapFor(mapId: string): Promise<Map<string, st
 
 export async function setAnnotationFor(mapId: string, cidr: string, note: string, offset?: number): Promise<void> {
   const db = getDb();
+  const before = rowOf('annotations2', 'mapId = ? AND cidr = ?', [mapId, cidr]);
   const stmt = db.prepare('INSERT INTO annotations2 (mapId, cidr, note, updatedAt, offset) VALUES (?, ?, ?, ?, ?) ON CONFLICT(mapId, cidr) DO UPDATE SET note=excluded.note, updatedAt=excluded.updatedAt, offset=COALESCE(excluded.offset, annotations2.offset)');
   stmt.run([mapId, cidr, note, Date.now(), typeof offset === 'number' ? offset : null]);
   stmt.free();
+  const change = auditChange(before?.note, note);
+  if (change) audit(mapId, 'annotation.note', `Subnet note on ${cidr}: ${change}`, { subnet: cidr });
   await persist();
 }
 
@@ -407,6 +959,7 @@ export async function setAnnotationOffsetFor(mapId: string, cidr: string, offset
   const now = Date.now();
   stmt.run([mapId, cidr, mapId, cidr, now, offset]);
   stmt.free();
+  audit(mapId, 'annotation.move', `Moved the label of ${cidr}`, { subnet: cidr });
   await persist();
 }
 
@@ -426,13 +979,45 @@ export async function getEdgeNotesFor(mapId: string): Promise<Map<string, string
 
 export async function setEdgeNoteFor(mapId: string, cidr: string, edgeNote: string): Promise<void> {
   const db = getDb();
+  const before = rowOf('annotations2', 'mapId = ? AND cidr = ?', [mapId, cidr]);
   const stmt = db.prepare('INSERT INTO annotations2 (mapId, cidr, note, updatedAt, edgeNote) VALUES (?, ?, COALESCE((SELECT note FROM annotations2 WHERE mapId = ? AND cidr = ?), ""), ?, ?) ON CONFLICT(mapId, cidr) DO UPDATE SET edgeNote = excluded.edgeNote, updatedAt = excluded.updatedAt');
   const now = Date.now();
   stmt.run([mapId, cidr, mapId, cidr, now, edgeNote]);
   stmt.free();
+  const change = auditChange(before?.edgeNote, edgeNote);
+  if (change) audit(mapId, 'annotation.edge-note', `Link note to ${cidr}: ${change}`, { subnet: cidr });
   await persist();
 }
 
+// FQDN alias members have no address in the XML; the user can supply one per map
+export async function getFqdnResolutionsFor(mapId: string): Promise<Map<string, string[]>> {
+  const db = getDb();
+  const map = new Map<string, string[]>();
+  const stmt = db.prepare('SELECT fqdn, ips FROM fqdn_resolutions WHERE mapId = ?');
+  stmt.bind([mapId]);
+  while (stmt.step()) {
+    const [fqdn, ips] = stmt.get() as any[];
+    if (typeof fqdn === 'string') map.set(fqdn, String(ips ?? '').split(',').map(s => s.trim()).filter(Boolean));
+  }
+  stmt.free();
+  return map;
+}
+
+export async function setFqdnResolutionFor(mapId: string, fqdn: string, ips: string[]): Promise<void> {
+  const db = getDb();
+  if (ips.length === 0) {
+    const stmt = db.prepare('DELETE FROM fqdn_resolutions WHERE mapId = ? AND fqdn = ?');
+    stmt.run([mapId, fqdn]);
+    stmt.free();
+  } else {
+    const stmt = db.prepare('INSERT INTO fqdn_resolutions (mapId, fqdn, ips) VALUES (?, ?, ?) ON CONFLICT(mapId, fqdn) DO UPDATE SET ips = excluded.ips');
+    stmt.run([mapId, fqdn, ips.join(',')]);
+    stmt.free();
+  }
+  audit(mapId, ips.length ? 'fqdn.set' : 'fqdn.clear', ips.length ? `Resolved ${fqdn} to ${ips.join(', ')}` : `Cleared the addresses of ${fqdn}`);
+  await touchMap(mapId);
+}
+
 // Rename the first (primary) device row for a map
 export async function renameFirstDeviceForMap(mapId: string, name: string): Promise<void> {
   const db = getDb();
@@ -440,26 +1025,21 @@ export async function renameFirstDeviceForMap(mapId: string, name: string): Prom
   const stmt = db.prepare('UPDATE map_devices SET name = ? WHERE rowid = (SELECT rowid FROM map_devices WHERE mapId = ? ORDER BY rowid ASC LIMIT 1)');
   stmt.run([name, mapId]);
   stmt.free();
+  audit(mapId, 'device.rename', `Renamed the first device to ${name}`);
   await touchMap(mapId);
 }
 
 // Delete a saved map and all associated data
 export async function deleteMap(id: string): Promise<void> {
   const db = getDb();
-  try {
-    // Purge LAN data first
+  await withoutHistory(async () => {
+    // The audit log stays: it is append-only and still answers who deleted the map
+    const name = rowOf('maps', 'id = ?', [id])?.name;
+    audit(id, 'map.delete', `Deleted map ${name ?? id}`);
+    // Purge LAN data first; ports, port VLANs and bindings follow their switches, VLANs and hosts
     let stmt = db.prepare('DELETE FROM lan_notes WHERE mapId = ?');
     stmt.run([id]);
     stmt.free();
-    stmt = db.prepare('DELETE FROM lan_bindings WHERE hostId IN (SELECT id FROM lan_hosts WHERE mapId = ?)');
-    stmt.run([id]);
-    stmt.free();
-    stmt = db.prepare('DELETE FROM lan_port_vlans WHERE portId IN (SELECT id FROM lan_ports WHERE switchId IN (SELECT id FROM lan_switches WHERE mapId = ?))');
-    stmt.run([id]);
-    stmt.free();
-    stmt = db.prepare('DELETE FROM lan_ports WHERE switchId IN (SELECT id FROM lan_switches WHERE mapId = ?)');
-    stmt.run([id]);
-    stmt.free();
     stmt = db.prepare('DELETE FROM lan_switches WHERE mapId = ?');
     stmt.run([id]);
     stmt.free();
@@ -469,11 +1049,20 @@ export async function deleteMap(id: string): Promise<void> {
     stmt = db.prepare('DELETE FROM lan_hosts WHERE mapId = ?');
     stmt.run([id]);
     stmt.free();
+    stmt = db.prepare('DELETE FROM lan_locations WHERE mapId = ?');
+    stmt.run([id]);
+    stmt.free();
 
     // Then annotations and map records
     stmt = db.prepare('DELETE FROM annotations2 WHERE mapId = ?');
     stmt.run([id]);
     stmt.free();
+    stmt = db.prepare('DELETE FROM fqdn_resolutions WHERE mapId = ?');
+    stmt.run([id]);
+    stmt.free();
+    stmt = db.prepare('DELETE FROM xml_revisions WHERE mapId = ?');
+    stmt.run([id]);
+    stmt.free();
 
     stmt = db.prepare('DELETE FROM map_devices WHERE mapId = ?');
     stmt.run([id]);
@@ -493,9 +1082,78 @@ export async function deleteMap(id: string): Promise<void> {
     stmt.run([id]); stmt.free();
     stmt = db.prepare('DELETE FROM manual_devices WHERE mapId = ?');
     stmt.run([id]); stmt.free();
-  } finally {
-    await persist();
-  }
+    stmt = db.prepare('DELETE FROM history_log WHERE stepId IN (SELECT id FROM history_steps WHERE mapId = ?)');
+    stmt.run([id]); stmt.free();
+    stmt = db.prepare('DELETE FROM history_steps WHERE mapId = ?');
+    stmt.run([id]); stmt.free();
+  });
+  await persist();
+}
+
+// ---------------- Subnet migration ----------------
+// Annotations and LAN data are keyed by the network's CIDR string; when a re-imported config
+// renumbers a network they can be moved to the new CIDR.
+export type SubnetUsage = { annotations: number; switches: number; hosts: number; vlans: number };
+
+export async function getSubnetUsageFor(mapId: string): Promise<Map<string, SubnetUsage>> {
+  const db = getDb();
+  const out = new Map<string, SubnetUsage>();
+  const count = (sql: string, field: keyof SubnetUsage) => {
+    const stmt = db.prepare(sql);
+    stmt.bind([mapId]);
+    while (stmt.step()) {
+      const [cidr, n] = stmt.get() as [string, number];
+      const u = out.get(cidr) ?? { annotations: 0, switches: 0, hosts: 0, vlans: 0 };
+      u[field] = n;
+      out.set(cidr, u);
+    }
+    stmt.free();
+  };
+  count("SELECT cidr, COUNT(*) FROM annotations2 WHERE mapId = ? AND (note <> '' OR offset IS NOT NULL OR COALESCE(edgeNote, '') <> '') GROUP BY cidr", 'annotations');
+  count('SELECT subnet, COUNT(*) FROM lan_switches WHERE mapId = ? GROUP BY subnet', 'switches');
+  count('SELECT subnet, COUNT(*) FROM lan_hosts WHERE mapId = ? GROUP BY subnet', 'hosts');
+  count('SELECT subnet, COUNT(*) FROM lan_vlans WHERE mapId = ? GROUP BY subnet', 'vlans');
+  return out;
+}
+
+// Move everything keyed by one CIDR to another. A note already on the target is kept and the
+// moved note is appended, so nothing is lost when two networks merge.
+export async function migrateSubnetData(mapId: string, from: string, to: string): Promise<void> {
+  if (from === to) return;
+  await withTransaction(async () => {
+    const db = getDb();
+    let stmt = db.prepare('SELECT note, offset, edgeNote FROM annotations2 WHERE mapId = ? AND cidr = ?');
+    stmt.bind([mapId, from]);
+    const moved = stmt.step() ? (stmt.get() as [string, number | null, string | null]) : null;
+    stmt.free();
+    if (moved) {
+      stmt = db.prepare('SELECT note, offset, edgeNote FROM annotations2 WHERE mapId = ? AND cidr = ?');
+      stmt.bind([mapId, to]);
+      const target = stmt.step() ? (stmt.get() as [string, number | null, string | null]) : null;
+      stmt.free();
+      const join = (a?: string | null, b?: string | null) => [a, b].filter(x => x && x.trim()).filter((x, i, arr) => arr.indexOf(x) === i).join('\n');
+      const note = join(target?.[0], moved[0]);
+      const offset = target?.[1] ?? moved[1];
+      const edgeNote = join(target?.[2], moved[2]) || null;
+      stmt = db.prepare('INSERT INTO annotations2 (mapId, cidr, note, updatedAt, offset, edgeNote) VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT(mapId, cidr) DO UPDATE SET note=excluded.note, updatedAt=excluded.updatedAt, offset=excluded.offset, edgeNote=excluded.edgeNote');
+      stmt.run([mapId, to, note, Date.now(), offset, edgeNote]);
+      stmt.free();
+      stmt = db.prepare('DELETE FROM annotations2 WHERE mapId = ? AND cidr = ?');
+      stmt.run([mapId, from]);
+      stmt.free();
+    }
+    for (const table of ['lan_switches', 'lan_hosts', 'lan_vlans']) {
+      stmt = db.prepare(`UPDATE ${table} SET subnet = ? WHERE mapId = ? AND subnet = ?`);
+      stmt.run([to, mapId, from]);
+      stmt.free();
+    }
+    // LAN notes have one row per scope; a note already present on the target scope wins
+    stmt = db.prepare('UPDATE OR IGNORE lan_notes SET subnet = ? WHERE mapId = ? AND subnet = ?');
+    stmt.run([to, mapId, from]);
+    stmt.free();
+    audit(mapId, 'subnet.migrate', `Moved subnet data from ${from} to ${to}`, { subnet: to });
+    await touchMap(mapId);
+  });
 }
 
 // ---------------- LAN: switches ----------------
@@ -524,22 +1182,22 @@ export async function listAllMapSwitches(mapId: string): Promise<LanSwitch[]> {
 export async function upsertLanSwitch(partial: Partial<LanSwitch> & { mapId: string; subnet: string }): Promise<string> {
   const db = getDb();
   const id = partial.id || (uuid());
+  const before = partial.id ? rowOf('lan_switches', 'id = ?', [id]) : null;
   const stmt = db.prepare('INSERT INTO lan_switches (id, mapId, subnet, name, model, mgmtIp, location, meta, posX, posY, managed, portCount) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT(id) DO UPDATE SET name=excluded.name, model=excluded.model, mgmtIp=excluded.mgmtIp, location=excluded.location, meta=excluded.meta, posX=excluded.posX, posY=excluded.posY, managed=excluded.managed, portCount=excluded.portCount');
   stmt.run([id, partial.mapId, partial.subnet, partial.name || null, partial.model || null, partial.mgmtIp || null, partial.location || null, partial.meta || null, partial.posX ?? null, partial.posY ?? null, partial.managed ? 1 : 0, partial.portCount ?? null]);
   stmt.free();
+  if (!before) audit(partial.mapId, 'switch.add', `Added switch ${partial.name || 'switch'}`, { subnet: partial.subnet, switchId: id });
+  else auditUpdate(partial.mapId, 'switch', `switch ${before.name || 'switch'}`, before, { ...partial, managed: !!partial.managed }, ['name', 'model', 'mgmtIp', 'location', 'meta', 'managed', 'portCount'], { subnet: partial.subnet, switchId: id }, ['managed']);
   await touchMap(partial.mapId);
   return id;
 }
+// Ports go with the switch, and their VLAN memberships and host bindings with them (ON DELETE CASCADE)
 export async function deleteLanSwitch(mapId: string, switchId: string): Promise<void> {
   const db = getDb();
-  let stmt = db.prepare('DELETE FROM lan_port_vlans WHERE portId IN (SELECT id FROM lan_ports WHERE switchId = ?)');
-  stmt.run([switchId]); stmt.free();
-  stmt = db.prepare('DELETE FROM lan_bindings WHERE portId IN (SELECT id FROM lan_ports WHERE switchId = ?)');
-  stmt.run([switchId]); stmt.free();
-  stmt = db.prepare('DELETE FROM lan_ports WHERE switchId = ?');
-  stmt.run([switchId]); stmt.free();
-  stmt = db.prepare('DELETE FROM lan_switches WHERE id = ?');
+  const before = rowOf('lan_switches', 'id = ?', [switchId]);
+  const stmt = db.prepare('DELETE FROM lan_switches WHERE id = ?');
   stmt.run([switchId]); stmt.free();
+  if (before) audit(mapId, 'switch.delete', `Deleted switch ${before.name || 'switch'}`, { subnet: before.subnet, switchId });
   await touchMap(mapId);
 }
 
@@ -557,19 +1215,23 @@ export async function listLanPorts(switchId: string): Promise<LanPort[]> {
 export async function upsertLanPort(partial: Partial<LanPort> & { switchId: string }): Promise<string> {
   const db = getDb();
   const id = partial.id || (uuid());
+  const before = partial.id ? rowOf('lan_ports', 'id = ?', [id]) : null;
   const stmt = db.prepare('INSERT INTO lan_ports (id, switchId, name, idx, poe, speed, meta) VALUES (?, ?, ?, ?, ?, ?, ?) ON CONFLICT(id) DO UPDATE SET name=excluded.name, idx=excluded.idx, poe=excluded.poe, speed=excluded.speed, meta=excluded.meta');
   stmt.run([id, partial.switchId, partial.name || null, partial.idx ?? null, partial.poe ? 1 : 0, partial.speed || null, partial.meta || null]);
   stmt.free();
+  const port = portInfo(id);
+  if (port && !before) audit(port.mapId, 'port.add', `Added ${port.label}`, { subnet: port.subnet, switchId: port.switchId });
+  else if (port && before) auditUpdate(port.mapId, 'port', port.label, before, { ...partial, poe: !!partial.poe }, ['name', 'idx', 'poe', 'speed', 'meta'], { subnet: port.subnet, switchId: port.switchId }, ['poe']);
+  await persist();
   return id;
 }
 export async function deleteLanPort(portId: string): Promise<void> {
   const db = getDb();
-  let stmt = db.prepare('DELETE FROM lan_port_vlans WHERE portId = ?');
-  stmt.run([portId]); stmt.free();
-  stmt = db.prepare('DELETE FROM lan_bindings WHERE portId = ?');
-  stmt.run([portId]); stmt.free();
-  stmt = db.prepare('DELETE FROM lan_ports WHERE id = ?');
+  const port = portInfo(portId);
+  const stmt = db.prepare('DELETE FROM lan_ports WHERE id = ?');
   stmt.run([portId]); stmt.free();
+  if (port) audit(port.mapId, 'port.delete', `Deleted ${port.label}`, { subnet: port.subnet, switchId: port.switchId });
+  await persist();
 }
 
 // ---------------- LAN: VLANs ----------------
@@ -599,18 +1261,22 @@ export async function listAllLanVlans(mapId: string): Promise<LanVlan[]> {
 export async function upsertLanVlan(partial: Partial<LanVlan> & { mapId: string; subnet: string }): Promise<string> {
   const db = getDb();
   const id = partial.id || (uuid());
+  const before = partial.id ? rowOf('lan_vlans', 'id = ?', [id]) : null;
   const stmt = db.prepare('INSERT INTO lan_vlans (id, mapId, subnet, vid, name, meta) VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT(id) DO UPDATE SET vid=excluded.vid, name=excluded.name, meta=excluded.meta');
   stmt.run([id, partial.mapId, partial.subnet, partial.vid ?? null, partial.name || null, partial.meta || null]);
   stmt.free();
+  const label = `VLAN ${partial.vid ?? before?.vid ?? '?'}`;
+  if (!before) audit(partial.mapId, 'vlan.add', `Added ${label}${partial.name ? ` ${partial.name}` : ''}`, { subnet: partial.subnet });
+  else auditUpdate(partial.mapId, 'vlan', label, before, partial, ['vid', 'name', 'meta'], { subnet: partial.subnet });
   await touchMap(partial.mapId);
   return id;
 }
 export async function deleteLanVlan(mapId: string, vlanId: string): Promise<void> {
   const db = getDb();
-  let stmt = db.prepare('DELETE FROM lan_port_vlans WHERE vlanId = ?');
-  stmt.run([vlanId]); stmt.free();
-  stmt = db.prepare('DELETE FROM lan_vlans WHERE id = ?');
+  const before = rowOf('lan_vlans', 'id = ?', [vlanId]);
+  const stmt = db.prepare('DELETE FROM lan_vlans WHERE id = ?');
   stmt.run([vlanId]); stmt.free();
+  if (before) audit(mapId, 'vlan.delete', `Deleted VLAN ${before.vid ?? '?'}${before.name ? ` ${before.name}` : ''}`, { subnet: before.subnet });
   await touchMap(mapId);
 }
 export type LanPortVlan = { portId: string; vlanId: string; mode?: string; untagged?: boolean };
@@ -619,11 +1285,19 @@ export async function setPortVlanBinding(portId: string, vlanId: string, mode?:
   const stmt = db.prepare('INSERT INTO lan_port_vlans (portId, vlanId, mode, untagged) VALUES (?, ?, ?, ?) ON CONFLICT(portId, vlanId) DO UPDATE SET mode=excluded.mode, untagged=excluded.untagged');
   stmt.run([portId, vlanId, mode || null, untagged ? 1 : 0]);
   stmt.free();
+  const port = portInfo(portId);
+  const vlan = rowOf('lan_vlans', 'id = ?', [vlanId]);
+  if (port) audit(port.mapId, 'vlan.assign', `VLAN ${vlan?.vid ?? '?'} on ${port.label}${mode ? ` (${mode}${untagged ? ', untagged' : ''})` : ''}`, { subnet: port.subnet, switchId: port.switchId });
+  await persist();
 }
 export async function clearPortVlanBinding(portId: string, vlanId: string): Promise<void> {
   const db = getDb();
   const stmt = db.prepare('DELETE FROM lan_port_vlans WHERE portId = ? AND vlanId = ?');
   stmt.run([portId, vlanId]); stmt.free();
+  const port = portInfo(portId);
+  const vlan = rowOf('lan_vlans', 'id = ?', [vlanId]);
+  if (port && db.getRowsModified() > 0) audit(port.mapId, 'vlan.unassign', `Removed VLAN ${vlan?.vid ?? '?'} from ${port.label}`, { subnet: port.subnet, switchId: port.switchId });
+  await persist();
 }
 export async function getPortVlans(portId: string): Promise<LanPortVlan[]> {
   const db = getDb();
@@ -658,20 +1332,24 @@ export async function listAllLanHosts(mapId: string): Promise<LanHost[]> {
 export async function upsertLanHost(partial: Partial<LanHost> & { mapId: string; subnet: string }): Promise<string> {
   const db = getDb();
   const id = partial.id || (uuid());
+  const before = partial.id ? rowOf('lan_hosts', 'id = ?', [id]) : null;
   const stmt = db.prepare('INSERT INTO lan_hosts (id, mapId, subnet, ip, mac, name, note, source, kind, posX, posY) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT(id) DO UPDATE SET ip=excluded.ip, mac=excluded.mac, name=excluded.name, note=excluded.note, source=excluded.source, kind=excluded.kind, posX=excluded.posX, posY=excluded.posY');
   stmt.run([id, partial.mapId, partial.subnet, partial.ip || null, partial.mac || null, partial.name || null, partial.note || null, partial.source || 'manual', partial.kind || null, partial.posX ?? null, partial.posY ?? null]);
   stmt.free();
+  if (!before) audit(partial.mapId, 'host.add', `Added host ${hostLabel(partial)}`, { subnet: partial.subnet, hostId: id });
+  else auditUpdate(partial.mapId, 'host', `host ${hostLabel(before)}`, before, { ...partial, source: partial.source || 'manual' }, ['ip', 'mac', 'name', 'note', 'source', 'kind'], { subnet: partial.subnet, hostId: id });
   await touchMap(partial.mapId);
   return id;
 }
 export async function deleteLanHost(mapId: string, hostId: string): Promise<void> {
   const db = getDb();
-  let stmt = db.prepare('DELETE FROM lan_bindings WHERE hostId = ?');
-  stmt.run([hostId]); stmt.free();
-  stmt = db.prepare('DELETE FROM lan_notes WHERE scope = "host" AND scopeId = ?');
+  const before = rowOf('lan_hosts', 'id = ?', [hostId]);
+  // Notes are keyed by scope rather than a foreign key, so they are removed by hand
+  let stmt = db.prepare('DELETE FROM lan_notes WHERE scope = "host" AND scopeId = ?');
   stmt.run([hostId]); stmt.free();
   stmt = db.prepare('DELETE FROM lan_hosts WHERE id = ?');
   stmt.run([hostId]); stmt.free();
+  if (before) audit(mapId, 'host.delete', `Deleted host ${hostLabel(before)}`, { subnet: before.subnet, hostId });
   await touchMap(mapId);
 }
 export type LanBinding = { hostId: string; portId: string };
@@ -679,11 +1357,15 @@ export async function bindHostToPort(hostId: string, portId: string): Promise<vo
   const db = getDb();
   const stmt = db.prepare('INSERT OR IGNORE INTO lan_bindings (hostId, portId) VALUES (?, ?)');
   stmt.run([hostId, portId]); stmt.free();
+  if (db.getRowsModified() > 0) auditBinding('host.bind', hostId, portId);
+  await persist();
 }
 export async function unbindHostFromPort(hostId: string, portId: string): Promise<void> {
   const db = getDb();
   const stmt = db.prepare('DELETE FROM lan_bindings WHERE hostId = ? AND portId = ?');
   stmt.run([hostId, portId]); stmt.free();
+  if (db.getRowsModified() > 0) auditBinding('host.unbind', hostId, portId);
+  await persist();
 }
 
 // Return bindings with the switch id (via ports), scoped to a map
@@ -710,9 +1392,19 @@ export async function listBindingsForMap(mapId: string): Promise<LanBindingInfo[
 // ---------------- LAN: notes ----------------
 export async function setLanNote(mapId: string, subnet: string, scope: 'lan'|'switch'|'port'|'host', scopeId: string | null, text: string): Promise<void> {
   const db = getDb();
+  const before = rowOf('lan_notes', 'mapId = ? AND subnet = ? AND scope = ? AND scopeId IS ?', [mapId, subnet, scope, scopeId]);
   const stmt = db.prepare('INSERT INTO lan_notes (mapId, subnet, scope, scopeId, text) VALUES (?, ?, ?, ?, ?) ON CONFLICT(mapId, subnet, scope, scopeId) DO UPDATE SET text=excluded.text');
   stmt.run([mapId, subnet, scope, scopeId, text]);
   stmt.free();
+  const change = auditChange(before?.text, text);
+  if (change) {
+    const port = scope === 'port' && scopeId ? portInfo(scopeId) : null;
+    const target = scope === 'lan' ? `LAN ${subnet}`
+      : scope === 'host' ? `host ${hostLabel(rowOf('lan_hosts', 'id = ?', [scopeId]))}`
+      : scope === 'switch' ? `switch ${rowOf('lan_switches', 'id = ?', [scopeId])?.name || 'switch'}`
+      : port?.label ?? 'port';
+    audit(mapId, 'note.set', `Note on ${target}: ${change}`, { subnet, switchId: scope === 'switch' ? scopeId : port?.switchId, hostId: scope === 'host' ? scopeId : null });
+  }
   await touchMap(mapId);
 }
 export async function getLanNotes(mapId: string, subnet: string): Promise<Map<string, string>> {
@@ -736,20 +1428,17 @@ export async function listManualHostIps(mapId: string, subnet: string): Promise<
   return ips;
 }
 
-// Schema migrations (safe, idempotent)
-try { getDb(); } catch {}
-try { db && db.exec('ALTER TABLE lan_hosts ADD COLUMN kind TEXT'); } catch {}
-try { db && db.exec('ALTER TABLE lan_switches ADD COLUMN managed INTEGER'); } catch {}
-try { db && db.exec('ALTER TABLE lan_switches ADD COLUMN portCount INTEGER'); } catch {}
-
 // ---------------- Locations ----------------
 export type LanLocation = { id: string; mapId: string; name: string; address?: string; notes?: string };
 export async function upsertLanLocation(mapId: string, name: string, address?: string, notes?: string, id?: string): Promise<string> {
   const db = getDb();
   const locId = id || uuid();
+  const before = rowOf('lan_locations', 'mapId = ? AND name = ?', [mapId, name]);
   const stmt = db.prepare('INSERT INTO lan_locations (id, mapId, name, address, notes) VALUES (?, ?, ?, ?, ?) ON CONFLICT(mapId, name) DO UPDATE SET address=excluded.address, notes=excluded.notes');
   stmt.run([locId, mapId, name, address || null, notes || null]);
   stmt.free();
+  if (!before) audit(mapId, 'location.add', `Added location ${name}`);
+  else auditUpdate(mapId, 'location', `location ${name}`, before, { address, notes }, ['address', 'notes']);
   await touchMap(mapId);
   return locId;
 }
@@ -773,9 +1462,11 @@ export async function getLanLocationByName(mapId: string, name: string): Promise
 
 export async function setSwitchLocation(mapId: string, switchId: string, locationName: string | null): Promise<void> {
   const db = getDb();
+  const before = rowOf('lan_switches', 'id = ?', [switchId]);
   const stmt = db.prepare('UPDATE lan_switches SET location = ? WHERE id = ?');
   stmt.run([locationName || null, switchId]);
   stmt.free();
+  if (before) auditUpdate(mapId, 'switch', `switch ${before.name || 'switch'}`, before, { location: locationName }, ['location'], { subnet: before.subnet, switchId });
   await touchMap(mapId);
 }
 
@@ -793,18 +1484,23 @@ export async function listManualDevices(mapId: string): Promise<ManualDevice[]>
 export async function upsertManualDevice(partial: Partial<ManualDevice> & { mapId: string; type: ManualDevice['type']; name: string }): Promise<string> {
   const db = getDb();
   const id = partial.id || uuid();
+  const before = partial.id ? rowOf('manual_devices', 'id = ?', [id]) : null;
   const stmt = db.prepare('INSERT INTO manual_devices (id, mapId, type, name, mgmtIp, model, posX, posY, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT(id) DO UPDATE SET type=excluded.type, name=excluded.name, mgmtIp=excluded.mgmtIp, model=excluded.model, posX=excluded.posX, posY=excluded.posY, notes=excluded.notes');
   stmt.run([id, partial.mapId, partial.type, partial.name, partial.mgmtIp || null, partial.model || null, partial.posX ?? null, partial.posY ?? null, partial.notes || null]);
   stmt.free();
+  if (!before) audit(partial.mapId, 'manual.device.add', `Added ${partial.type} ${partial.name}`);
+  else auditUpdate(partial.mapId, 'manual.device', `${partial.type} ${before.name}`, before, partial, ['type', 'name', 'mgmtIp', 'model', 'notes']);
   await touchMap(partial.mapId);
   return id;
 }
 export async function deleteManualDevice(mapId: string, id: string): Promise<void> {
   const db = getDb();
+  const before = rowOf('manual_devices', 'id = ?', [id]);
   let stmt = db.prepare('DELETE FROM manual_links WHERE (srcType="device" AND srcId = ?) OR (dstType="device" AND dstId = ?)');
   stmt.run([id, id]); stmt.free();
   stmt = db.prepare('DELETE FROM manual_devices WHERE id = ?');
   stmt.run([id]); stmt.free();
+  if (before) audit(mapId, 'manual.device.delete', `Deleted ${before.type} ${before.name}`);
   await touchMap(mapId);
 }
 
@@ -821,18 +1517,23 @@ export async function listManualNetworks(mapId: string): Promise<ManualNetwork[]
 export async function upsertManualNetwork(partial: Partial<ManualNetwork> & { mapId: string; cidr: string }): Promise<string> {
   const db = getDb();
   const id = partial.id || uuid();
+  const before = partial.id ? rowOf('manual_networks', 'id = ?', [id]) : null;
   const stmt = db.prepare('INSERT INTO manual_networks (id, mapId, cidr, name, notes, posX, posY) VALUES (?, ?, ?, ?, ?, ?, ?) ON CONFLICT(id) DO UPDATE SET cidr=excluded.cidr, name=excluded.name, notes=excluded.notes, posX=excluded.posX, posY=excluded.posY');
   stmt.run([id, partial.mapId, partial.cidr, partial.name || null, partial.notes || null, partial.posX ?? null, partial.posY ?? null]);
   stmt.free();
+  if (!before) audit(partial.mapId, 'manual.network.add', `Added network ${partial.cidr}`, { subnet: partial.cidr });
+  else auditUpdate(partial.mapId, 'manual.network', `network ${before.cidr}`, before, partial, ['cidr', 'name', 'notes'], { subnet: partial.cidr });
   await touchMap(partial.mapId);
   return id;
 }
 export async function deleteManualNetwork(mapId: string, id: string): Promise<void> {
   const db = getDb();
+  const before = rowOf('manual_networks', 'id = ?', [id]);
   let stmt = db.prepare('DELETE FROM manual_links WHERE (srcType="network" AND srcId = ?) OR (dstType="network" AND dstId = ?)');
   stmt.run([id, id]); stmt.free();
   stmt = db.prepare('DELETE FROM manual_networks WHERE id = ?');
   stmt.run([id]); stmt.free();
+  if (before) audit(mapId, 'manual.network.delete', `Deleted network ${before.cidr}`, { subnet: before.cidr });
   await touchMap(mapId);
 }
 
@@ -849,15 +1550,526 @@ export async function listManualLinks(mapId: string): Promise<ManualLink[]> {
 export async function upsertManualLink(partial: Partial<ManualLink> & { mapId: string; srcType: ManualLink['srcType']; srcId: string; dstType: ManualLink['dstType']; dstId: string }): Promise<string> {
   const db = getDb();
   const id = partial.id || uuid();
+  const before = partial.id ? rowOf('manual_links', 'id = ?', [id]) : null;
   const stmt = db.prepare('INSERT INTO manual_links (id, mapId, srcType, srcId, dstType, dstId, label) VALUES (?, ?, ?, ?, ?, ?, ?) ON CONFLICT(id) DO UPDATE SET srcType=excluded.srcType, srcId=excluded.srcId, dstType=excluded.dstType, dstId=excluded.dstId, label=excluded.label');
   stmt.run([id, partial.mapId, partial.srcType, partial.srcId, partial.dstType, partial.dstId, partial.label || null]);
   stmt.free();
+  const label = `link ${manualName(partial.srcType, partial.srcId)} – ${manualName(partial.dstType, partial.dstId)}`;
+  if (!before) audit(partial.mapId, 'manual.link.add', `Added ${label}`);
+  else auditUpdate(partial.mapId, 'manual.link', label, before, partial, ['srcId', 'dstId', 'label']);
   await touchMap(partial.mapId);
   return id;
 }
 export async function deleteManualLink(mapId: string, id: string): Promise<void> {
   const db = getDb();
+  const before = rowOf('manual_links', 'id = ?', [id]);
   const stmt = db.prepare('DELETE FROM manual_links WHERE id = ?');
   stmt.run([id]); stmt.free();
+  if (before) audit(mapId, 'manual.link.delete', `Deleted link ${manualName(before.srcType, before.srcId)} – ${manualName(before.dstType, before.dstId)}`);
   await touchMap(mapId);
 }
+
+// ---------------- Map bundles ----------------
+// Raw rows of every table that belongs to one map, for portable export/import (see map_bundle.ts)
+export const MAP_TABLES = [
+  'maps', 'map_xml', 'map_devices', 'xml_revisions', 'annotations2', 'fqdn_resolutions',
+  'lan_switches', 'lan_ports', 'lan_vlans', 'lan_port_vlans', 'lan_hosts', 'lan_bindings', 'lan_notes', 'lan_locations',
+  'manual_devices', 'manual_networks', 'manual_links', 'audit_log',
+] as const;
+export type MapTable = typeof MAP_TABLES[number];
+export type MapTableRows = Partial<Record<MapTable, Array<Record<string, unknown>>>>;
+
+const MAP_TABLE_SCOPE: Record<MapTable, string> = {
+  maps: 'id = ?',
+  map_xml: 'id = ?',
+  lan_ports: 'switchId IN (SELECT id FROM lan_switches WHERE mapId = ?)',
+  lan_port_vlans: 'portId IN (SELECT id FROM lan_ports WHERE switchId IN (SELECT id FROM lan_switches WHERE mapId = ?))',
+  lan_bindings: 'hostId IN (SELECT id FROM lan_hosts WHERE mapId = ?)',
+  map_devices: 'mapId = ?', xml_revisions: 'mapId = ?', annotations2: 'mapId = ?', fqdn_resolutions: 'mapId = ?',
+  lan_switches: 'mapId = ?', lan_vlans: 'mapId = ?', lan_hosts: 'mapId = ?', lan_notes: 'mapId = ?', lan_locations: 'mapId = ?',
+  manual_devices: 'mapId = ?', manual_networks: 'mapId = ?', manual_links: 'mapId = ?', audit_log: 'mapId = ?',
+};
+
+export async function readMapRows(mapId: string): Promise<MapTableRows> {
+  const db = getDb();
+  const out: MapTableRows = {};
+  for (const table of MAP_TABLES) {
+    const rows: Array<Record<string, unknown>> = [];
+    const stmt = db.prepare(`SELECT * FROM ${table} WHERE ${MAP_TABLE_SCOPE[table]}`);
+    stmt.bind([mapId]);
+    while (stmt.step()) rows.push(stmt.getAsObject());
+    stmt.free();
+    out[table] = rows;
+  }
+  return out;
+}
+
+// Inserts rows as given (IDs must already be unique). Unknown tables and columns are ignored so
+// bundles written by other versions still load.
+export async function writeMapRows(rows: MapTableRows): Promise<void> {
+  const db = getDb();
+  await withoutHistory(async () => {
+    for (const table of MAP_TABLES) {
+      const list = rows[table];
+      if (!list?.length) continue;
+      const info = db.exec(`PRAGMA table_info(${table})`);
+      const known = new Set<string>((info?.[0]?.values ?? []).map((r: any[]) => r[1] as string));
+      for (let row of list) {
+        if (typeof row.xml === 'string') row = { ...row, xml: storedXml(row.xml) };
+        // Bundles from before schema v16 carry no model/version
+        if (table === 'map_devices' && row.model === undefined && row.version === undefined) row = { ...row, ...firewareOf(String(row.xml ?? '')) };
+        const cols = Object.keys(row).filter(c => known.has(c));
+        if (!cols.length) continue;
+        const stmt = db.prepare(`INSERT INTO ${table} (${cols.join(', ')}) VALUES (${cols.map(() => '?').join(', ')})`);
+        stmt.run(cols.map(c => (row[c] === undefined ? null : row[c])));
+        stmt.free();
+      }
+    }
+    const map = rows.maps?.[0];
+    if (map) audit(String(map.id), 'map.import', `Imported map ${map.name} from a bundle`);
+    await persist();
+  });
+}
+
+// ---------------- Database check ----------------
+// Rows that point at something that no longer exists. Most predate the foreign keys of schema
+// v11 (hand-written cascades that missed a table, or a host re-assigned without dropping its old
+// port); the constraints keep new ones from appearing. Checks cover the whole database, not one map.
+export type DbIssueKind =
+  | 'map-data-without-map'
+  | 'ports-without-switch'
+  | 'bindings-without-host'
+  | 'bindings-without-port'
+  | 'bindings-across-maps'
+  | 'stale-host-bindings'
+  | 'port-vlans-without-port'
+  | 'port-vlans-without-vlan'
+  | 'links-without-endpoint'
+  | 'notes-without-target';
+
+export type DbIssue = { kind: DbIssueKind; label: string; count: number };
+export type DbCheckResult = { integrity: string[]; issues: DbIssue[] };
+
+// Each check is a set of (table, WHERE) pairs: the count finds the rows, repair deletes them.
+// Listed in repair order; a row can match more than one check, so counts may overlap.
+const MAP_SCOPED_TABLES = [
+  'map_devices', 'xml_revisions', 'annotations2', 'fqdn_resolutions', 'lan_switches', 'lan_vlans', 'lan_hosts',
+  'lan_notes', 'lan_locations', 'manual_devices', 'manual_networks', 'manual_links',
+];
+const DB_CHECKS: Array<{ kind: DbIssueKind; label: string; targets: Array<[string, string]> }> = [
+  {
+    kind: 'map-data-without-map',
+    label: 'Rows of deleted maps',
+    targets: [
+      ['map_xml', 'id NOT IN (SELECT id FROM maps)'],
+      ...MAP_SCOPED_TABLES.map((t): [string, string] => [t, 'mapId NOT IN (SELECT id FROM maps)']),
+    ],
+  },
+  { kind: 'ports-without-switch', label: 'Ports of deleted switches', targets: [['lan_ports', 'switchId NOT IN (SELECT id FROM lan_switches)']] },
+  { kind: 'bindings-without-host', label: 'Port bindings of deleted hosts', targets: [['lan_bindings', 'hostId NOT IN (SELECT id FROM lan_hosts)']] },
+  { kind: 'bindings-without-port', label: 'Host bindings to deleted ports', targets: [['lan_bindings', 'portId NOT IN (SELECT id FROM lan_ports)']] },
+  {
+    kind: 'bindings-across-maps',
+    label: 'Hosts bound to a switch of another map',
+    targets: [['lan_bindings', `EXISTS (
+      SELECT 1 FROM lan_hosts h, lan_ports p, lan_switches s
+      WHERE h.id = lan_bindings.hostId AND p.id = lan_bindings.portId AND s.id = p.switchId AND s.mapId <> h.mapId
+    )`]],
+  },
+  {
+    // A host has one port in the LAN view; older bindings made it show on the wrong switch
+    kind: 'stale-host-bindings',
+    label: 'Older bindings of hosts bound to several ports (the latest is kept)',
+    targets: [['lan_bindings', 'rowid NOT IN (SELECT MAX(rowid) FROM lan_bindings GROUP BY hostId)']],
+  },
+  { kind: 'port-vlans-without-port', label: 'VLAN memberships of deleted ports', targets: [['lan_port_vlans', 'portId NOT IN (SELECT id FROM lan_ports)']] },
+  { kind: 'port-vlans-without-vlan', label: 'Port memberships of deleted VLANs', targets: [['lan_port_vlans', 'vlanId NOT IN (SELECT id FROM lan_vlans)']] },
+  {
+    kind: 'links-without-endpoint',
+    label: 'Manual links to deleted devices or networks',
+    targets: [['manual_links', `(srcType = 'device' AND srcId NOT IN (SELECT id FROM manual_devices))
+      OR (srcType = 'network' AND srcId NOT IN (SELECT id FROM manual_networks))
+      OR (dstType = 'device' AND dstId NOT IN (SELECT id FROM manual_devices))
+      OR (dstType = 'network' AND dstId NOT IN (SELECT id FROM manual_networks))`]],
+  },
+  {
+    kind: 'notes-without-target',
+    label: 'LAN notes of deleted switches, ports or hosts',
+    targets: [['lan_notes', `(scope = 'switch' AND scopeId NOT IN (SELECT id FROM lan_switches))
+      OR (scope = 'port' AND scopeId NOT IN (SELECT id FROM lan_ports))
+      OR (scope = 'host' AND scopeId NOT IN (SELECT id FROM lan_hosts))`]],
+  },
+];
+
+export async function checkDatabase(): Promise<DbCheckResult> {
+  const db = getDb();
+  const integrity = (db.exec('PRAGMA integrity_check')?.[0]?.values ?? []).map((r: any[]) => String(r[0])).filter((m: string) => m !== 'ok');
+  const issues = DB_CHECKS.map(c => {
+    let count = 0;
+    for (const [table, where] of c.targets) {
+      const res = db.exec(`SELECT COUNT(*) FROM ${table} WHERE ${where}`);
+      count += Number(res?.[0]?.values?.[0]?.[0] ?? 0);
+    }
+    return { kind: c.kind, label: c.label, count };
+  });
+  return { integrity, issues };
+}
+
+// Map a row belongs to, for the audit entry of a repair. Link rows go through whichever parent
+// is still there.
+const portMapOf = (portId: string) => `(SELECT s.mapId FROM lan_ports p JOIN lan_switches s ON s.id = p.switchId WHERE p.id = ${portId})`;
+const REPAIR_MAP_OF: Record<string, string> = {
+  map_xml: 'id',
+  lan_ports: '(SELECT mapId FROM lan_switches WHERE id = lan_ports.switchId)',
+  lan_bindings: `COALESCE((SELECT mapId FROM lan_hosts WHERE id = lan_bindings.hostId), ${portMapOf('lan_bindings.portId')})`,
+  lan_port_vlans: `COALESCE((SELECT mapId FROM lan_vlans WHERE id = lan_port_vlans.vlanId), ${portMapOf('lan_port_vlans.portId')})`,
+};
+
+/**
+ * Deletes the rows found by the given checks (all by default) in one transaction; returns how many.
+ * Each map that lost rows gets an audit entry (rows of deleted maps under the deleted map's id);
+ * rows whose parent is already gone cannot be traced to a map and are only counted.
+ */
+export async function repairDatabase(kinds?: DbIssueKind[]): Promise<number> {
+  const db = getDb();
+  let removed = 0;
+  const perMap = new Map<string, { count: number; labels: Set<string> }>();
+  await withoutHistory(async () => {
+    for (const c of DB_CHECKS) {
+      if (kinds && !kinds.includes(c.kind)) continue;
+      for (const [table, where] of c.targets) {
+        const res = db.exec(`SELECT ${REPAIR_MAP_OF[table] ?? 'mapId'}, COUNT(*) FROM ${table} WHERE ${where} GROUP BY 1`);
+        for (const [mapId, n] of (res?.[0]?.values ?? []) as Array<[string | null, number]>) {
+          if (!mapId) continue;
+          const e = perMap.get(mapId) ?? { count: 0, labels: new Set<string>() };
+          e.count += Number(n);
+          e.labels.add(c.label);
+          perMap.set(mapId, e);
+        }
+        db.exec(`DELETE FROM ${table} WHERE ${where}`);
+        removed += db.getRowsModified();
+      }
+    }
+    for (const [mapId, e] of perMap) {
+      audit(mapId, 'db.repair', `Database repair removed ${e.count} row${e.count === 1 ? '' : 's'}: ${[...e.labels].join('; ')}`);
+    }
+    await persist();
+  });
+  return removed;
+}
+
+// ---------------- Edit history ----------------
+// Undo/redo for every edit to map data. Triggers on the edited tables log, for each changed row,
+// the SQL that puts it back (history_log). persist() closes the rows logged since the last save
+// into one step, so a click that touches several rows is undone as a whole. Undoing a step runs
+// its SQL in reverse; the triggers log the SQL that re-applies it, which becomes the redo.
+// Rows are addressed by primary key (not rowid), so steps of different maps never collide.
+const HISTORY_TABLES = [
+  'annotations2', 'fqdn_resolutions', 'lan_switches', 'lan_ports', 'lan_vlans', 'lan_port_vlans', 'lan_hosts',
+  'lan_bindings', 'lan_notes', 'lan_locations', 'manual_devices', 'manual_networks', 'manual_links',
+];
+const HISTORY_LIMIT = 200; // steps kept per map
+
+// Link tables have no mapId; the map comes from the row they hang off
+const HISTORY_MAP_OF: Record<string, (r: string) => string> = {
+  lan_ports: r => `(SELECT mapId FROM lan_switches WHERE id = ${r}.switchId)`,
+  lan_port_vlans: r => `(SELECT mapId FROM lan_vlans WHERE id = ${r}.vlanId)`,
+  lan_bindings: r => `(SELECT mapId FROM lan_hosts WHERE id = ${r}.hostId)`,
+};
+const HISTORY_WHAT = ['name', 'ip', 'cidr', 'fqdn', 'vid'];
+const HISTORY_MOVE_COLUMNS = ['posX', 'posY', 'offset'];
+// In label order: what the user acted on before what followed from it (ports of a deleted switch)
+const HISTORY_NOUN: Record<string, [string, string]> = {
+  lan_switches: ['switch', 'switches'],
+  lan_hosts: ['host', 'hosts'],
+  lan_vlans: ['VLAN', 'VLANs'],
+  manual_devices: ['device', 'devices'],
+  manual_networks: ['network', 'networks'],
+  annotations2: ['subnet annotation', 'subnet annotations'],
+  fqdn_resolutions: ['FQDN resolution', 'FQDN resolutions'],
+  lan_locations: ['location', 'locations'],
+  lan_ports: ['port', 'ports'],
+  lan_bindings: ['host binding', 'host bindings'],
+  lan_port_vlans: ['port VLAN', 'port VLANs'],
+  manual_links: ['link', 'links'],
+  lan_notes: ['LAN note', 'LAN notes'],
+};
+const HISTORY_RANK = Object.keys(HISTORY_NOUN);
+const HISTORY_VERB: Record<string, string> = { insert: 'Added', update: 'Edited', move: 'Moved', delete: 'Deleted' };
+
+// Triggers are generated from the live columns, so they follow schema changes; they are rebuilt
+// whenever a database is opened. Rows logged by migrations are not edits and are dropped.
+function installHistory(db: Database): void {
+  for (const table of HISTORY_TABLES) {
+    const info: any[][] = db.exec(`PRAGMA table_info(${table})`)?.[0]?.values ?? [];
+    const cols = info.map(r => String(r[1]));
+    const pk = info.filter(r => Number(r[5]) > 0).sort((a, b) => Number(a[5]) - Number(b[5])).map(r => String(r[1]));
+    const q = (c: string) => `"${c}"`;
+    const key = (r: string) => pk.map(c => `'${q(c)} IS ' || quote(${r}.${q(c)})`).join(` || ' AND ' || `);
+    const mapOf = (r: string) => (HISTORY_MAP_OF[table] ?? (x => `${x}.mapId`))(r);
+    const whatCol = HISTORY_WHAT.find(c => cols.includes(c));
+    const what = (r: string) => (whatCol ? `${r}.${q(whatCol)}` : 'NULL');
+    const changed = (c: string) => `old.${q(c)} IS NOT new.${q(c)}`;
+    const moves = cols.filter(c => HISTORY_MOVE_COLUMNS.includes(c));
+    const edits = cols.filter(c => !HISTORY_MOVE_COLUMNS.includes(c) && c !== 'updatedAt');
+    const op = moves.length ? `CASE WHEN ${edits.map(changed).join(' OR ')} THEN 'update' ELSE 'move' END` : `'update'`;
+    const setOld = cols.map(c => `CASE WHEN old.${q(c)} IS new.${q(c)} THEN '' ELSE ', ${q(c)} = ' || quote(old.${q(c)}) END`).join(' || ');
+    db.exec(`
+      DROP TRIGGER IF EXISTS history_${table}_insert;
+      DROP TRIGGER IF EXISTS history_${table}_update;
+      DROP TRIGGER IF EXISTS history_${table}_delete;
+      CREATE TRIGGER history_${table}_insert AFTER INSERT ON ${table} BEGIN
+        INSERT INTO history_log (tbl, op, mapId, what, sql)
+        VALUES ('${table}', 'insert', ${mapOf('new')}, ${what('new')}, 'DELETE FROM ${table} WHERE ' || ${key('new')});
+      END;
+      CREATE TRIGGER history_${table}_update AFTER UPDATE ON ${table} WHEN ${cols.map(changed).join(' OR ')} BEGIN
+        INSERT INTO history_log (tbl, op, mapId, what, sql)
+        VALUES ('${table}', ${op}, ${mapOf('new')}, ${what('new')}, 'UPDATE ${table} SET ' || substr(${setOld}, 3) || ' WHERE ' || ${key('new')});
+      END;
+      CREATE TRIGGER history_${table}_delete AFTER DELETE ON ${table} BEGIN
+        INSERT INTO history_log (tbl, op, mapId, what, sql)
+        VALUES ('${table}', 'delete', ${mapOf('old')}, ${what('old')}, 'INSERT INTO ${table} (${cols.map(q).join(', ')}) VALUES (' || ${cols.map(c => `quote(old.${q(c)})`).join(` || ', ' || `)} || ')');
+      END;
+    `);
+  }
+  db.exec('DELETE FROM history_log WHERE stepId IS NULL');
+}
+
+function historyLabel(groups: any[][]): string {
+  // groups: [op, tbl, count, what] in the order the edit made them
+  const byOp = new Map<string, string[]>();
+  for (const op of groups.map(g => g[0])) if (!byOp.has(op)) byOp.set(op, []);
+  const ranked = [...groups].sort((a, b) => HISTORY_RANK.indexOf(a[1]) - HISTORY_RANK.indexOf(b[1]));
+  for (const [op, tbl, count, what] of ranked) {
+    const [one, many] = HISTORY_NOUN[tbl] ?? [tbl, tbl];
+    const part = Number(count) === 1 ? `${one}${what != null && what !== '' ? ` ${what}` : ''}` : `${count} ${many}`;
+    byOp.get(op)!.push(part);
+  }
+  return Array.from(byOp.entries()).map(([op, parts]) => `${HISTORY_VERB[op] ?? op} ${parts.join(', ')}`).join('; ');
+}
+
+// Turns the rows logged since the last step into a new step per map (rows whose map is unknown,
+// such as cascaded children, join the first). A new edit drops that map's redo steps.
+function closeHistoryStep(db: Database): void {
+  const maps: any[] = (db.exec('SELECT mapId FROM history_log WHERE stepId IS NULL GROUP BY mapId ORDER BY MIN(seq)')?.[0]?.values ?? []).map((r: any[]) => r[0]);
+  if (!maps.length) return;
+  const known = maps.filter(m => m != null);
+  (known.length ? known : [null]).forEach((mapId, i) => {
+    const mine = i === 0 ? '(mapId IS ? OR mapId IS NULL)' : 'mapId IS ?';
+    let stmt = db.prepare(`SELECT op, tbl, COUNT(*), MIN(what) FROM history_log WHERE stepId IS NULL AND ${mine} GROUP BY op, tbl ORDER BY MIN(seq)`);
+    stmt.bind([mapId]);
+    const groups: any[][] = [];
+    while (stmt.step()) groups.push(stmt.get());
+    stmt.free();
+    stmt = db.prepare('DELETE FROM history_log WHERE stepId IN (SELECT id FROM history_steps WHERE mapId IS ? AND undone = 1)');
+    stmt.run([mapId]); stmt.free();
+    stmt = db.prepare('DELETE FROM history_steps WHERE mapId IS ? AND undone = 1');
+    stmt.run([mapId]); stmt.free();
+    stmt = db.prepare('INSERT INTO history_steps (mapId, label, at, undone) VALUES (?, ?, ?, 0)');
+    stmt.run([mapId, historyLabel(groups), Date.now()]); stmt.free();
+    stmt = db.prepare(`UPDATE history_log SET stepId = last_insert_rowid() WHERE stepId IS NULL AND ${mine}`);
+    stmt.run([mapId]); stmt.free();
+    stmt = db.prepare(`DELETE FROM history_steps WHERE mapId IS ? AND id NOT IN (SELECT id FROM history_steps WHERE mapId IS ? ORDER BY id DESC LIMIT ${HISTORY_LIMIT})`);
+    stmt.run([mapId, mapId]); stmt.free();
+  });
+  db.exec('DELETE FROM history_log WHERE stepId IS NOT NULL AND stepId NOT IN (SELECT id FROM history_steps)');
+}
+
+export type HistoryStep = { id: number; label: string; at: number; undone: boolean };
+
+export async function listHistory(mapId: string): Promise<HistoryStep[]> {
+  const db = getDb();
+  if (txDepth === 0) closeHistoryStep(db);
+  const out: HistoryStep[] = [];
+  const stmt = db.prepare('SELECT id, label, at, undone FROM history_steps WHERE mapId = ? ORDER BY id DESC');
+  stmt.bind([mapId]);
+  while (stmt.step()) { const r = stmt.get(); out.push({ id: r[0] as number, label: r[1] as string, at: r[2] as number, undone: !!r[3] }); }
+  stmt.free();
+  return out;
+}
+
+async function replayHistory(mapId: string, redo: boolean): Promise<(HistoryStep & { tables: string[] }) | null> {
+  if (txDepth > 0) throw new Error('Cannot undo or redo inside a transaction');
+  const db = getDb();
+  closeHistoryStep(db);
+  let stmt = db.prepare(`SELECT id, label, at FROM history_steps WHERE mapId = ? AND undone = ? ORDER BY id ${redo ? 'ASC' : 'DESC'} LIMIT 1`);
+  stmt.bind([mapId, redo ? 1 : 0]);
+  const row = stmt.step() ? stmt.get() : null;
+  stmt.free();
+  if (!row) return null;
+  const step = { id: row[0] as number, label: row[1] as string, at: row[2] as number, undone: !redo };
+  const sql: string[] = [];
+  const tables = new Set<string>();
+  stmt = db.prepare('SELECT sql, tbl FROM history_log WHERE stepId = ? ORDER BY seq DESC');
+  stmt.bind([step.id]);
+  while (stmt.step()) { const r = stmt.get(); sql.push(r[0] as string); tables.add(r[1] as string); }
+  stmt.free();
+  try {
+    await withTransaction(async () => {
+      // Statements come in reverse order of the edit; parents and children may be restored either way round
+      db.exec('PRAGMA defer_foreign_keys = ON');
+      let st = db.prepare('DELETE FROM history_log WHERE stepId = ?');
+      st.run([step.id]); st.free();
+      for (const s of sql) db.exec(s);
+      st = db.prepare('UPDATE history_log SET stepId = ? WHERE stepId IS NULL');
+      st.run([step.id]); st.free();
+      st = db.prepare('UPDATE history_steps SET undone = ? WHERE id = ?');
+      st.run([redo ? 0 : 1, step.id]); st.free();
+      audit(mapId, redo ? 'history.redo' : 'history.undo', `${redo ? 'Redo' : 'Undo'}: ${step.label}`);
+      await touchMap(mapId);
+    });
+  } catch (e: any) {
+    // The data changed underneath the step (e.g. an import replaced it); it cannot be replayed
+    let st = db.prepare('DELETE FROM history_log WHERE stepId = ?');
+    st.run([step.id]); st.free();
+    st = db.prepare('DELETE FROM history_steps WHERE id = ?');
+    st.run([step.id]); st.free();
+    await persist();
+    throw new Error(`Could not ${redo ? 'redo' : 'undo'} "${step.label}" (${String(e?.message ?? e)}); it was removed from the history`);
+  }
+  return { ...step, tables: Array.from(tables) };
+}
+
+/** Reverts the map's latest edit; null when there is nothing to undo. tables: what it changed. */
+export async function undoHistory(mapId: string): Promise<(HistoryStep & { tables: string[] }) | null> {
+  return replayHistory(mapId, false);
+}
+
+export async function redoHistory(mapId: string): Promise<(HistoryStep & { tables: string[] }) | null> {
+  return replayHistory(mapId, true);
+}
+
+export async function clearHistory(mapId: string): Promise<void> {
+  const db = getDb();
+  if (txDepth === 0) closeHistoryStep(db);
+  let stmt = db.prepare('DELETE FROM history_log WHERE stepId IN (SELECT id FROM history_steps WHERE mapId = ?)');
+  stmt.run([mapId]); stmt.free();
+  stmt = db.prepare('DELETE FROM history_steps WHERE mapId = ?');
+  stmt.run([mapId]); stmt.free();
+  audit(mapId, 'history.clear', 'Cleared the undo history');
+  await persist();
+}
+
+/**
+ * Runs fn in a transaction whose changes are not undoable steps: whole-map operations (import,
+ * Save As, delete) and automatic fills. Snapshot-based Undo Import covers the ones that need it.
+ */
+export async function withoutHistory<T>(fn: () => Promise<T>): Promise<T> {
+  const db = getDb();
+  return withTransaction(async () => {
+    const before = Number(db.exec('SELECT COALESCE(MAX(seq), 0) FROM history_log')?.[0]?.values?.[0]?.[0] ?? 0);
+    const out = await fn();
+    const stmt = db.prepare('DELETE FROM history_log WHERE stepId IS NULL AND seq > ?');
+    stmt.run([before]); stmt.free();
+    return out;
+  });
+}
+
+// ---------------- Audit log ----------------
+// Who changed what and when, for every mutation made through this module. Append-only: the
+// table refuses updates and deletes, outlives deleted maps and travels in map bundles, so the
+// engineers sharing a bundle see each other's changes. The user name is set per browser.
+let auditUser = '';
+export function setAuditUser(name: string): void { auditUser = name.trim(); }
+export function getAuditUser(): string { return auditUser; }
+
+export type AuditEntry = { id: number; mapId: string; at: number; user?: string; action: string; subnet?: string; switchId?: string; hostId?: string; detail: string };
+type AuditScope = { subnet?: string | null; switchId?: string | null; hostId?: string | null };
+
+function audit(mapId: string | null | undefined, action: string, detail: string, scope: AuditScope = {}): void {
+  if (!mapId) return;
+  const stmt = getDb().prepare('INSERT INTO audit_log (mapId, at, user, action, subnet, switchId, hostId, detail) VALUES (?, ?, ?, ?, ?, ?, ?, ?)');
+  stmt.run([mapId, Date.now(), auditUser || null, action, scope.subnet ?? null, scope.switchId ?? null, scope.hostId ?? null, detail]);
+  stmt.free();
+}
+
+function rowOf(table: string, where: string, params: unknown[]): Record<string, any> | null {
+  const stmt = getDb().prepare(`SELECT * FROM ${table} WHERE ${where}`);
+  stmt.bind(params);
+  const row = stmt.step() ? stmt.getAsObject() : null;
+  stmt.free();
+  return row;
+}
+
+// Long notes are shortened to one line; empty values show as —
+function auditValue(v: unknown): string | null {
+  if (v === undefined || v === null || v === '') return null;
+  if (typeof v === 'boolean') return v ? 'yes' : 'no';
+  const text = String(v).replace(/\s+/g, ' ');
+  return text.length > 120 ? `${text.slice(0, 119)}…` : text;
+}
+
+// "before → after", or null when the value did not change
+function auditChange(before: unknown, after: unknown): string | null {
+  const a = auditValue(before), b = auditValue(after);
+  return a === b ? null : `${a ?? '—'} → ${b ?? '—'}`;
+}
+
+// "field: before → after" for the given fields that differ between a stored row and what was written
+function auditChanges(before: Record<string, any>, after: Record<string, any>, fields: string[], bools: string[] = []): string[] {
+  const out: string[] = [];
+  for (const f of fields) {
+    const c = bools.includes(f)
+      ? auditChange(before[f] == null ? before[f] : !!before[f], after[f] == null ? after[f] : !!after[f])
+      : auditChange(before[f], after[f]);
+    if (c) out.push(`${f}: ${c}`);
+  }
+  return out;
+}
+
+const hostLabel = (h: Record<string, any> | null | undefined) =>
+  (h?.name ? `${h.name}${h.ip ? ` (${h.ip})` : ''}` : h?.ip || 'host');
+
+// Port with its switch, for messages and scoping: "Core-1 port 7"
+function portInfo(portId: string): { label: string; switchId: string; mapId: string; subnet: string } | null {
+  const stmt = getDb().prepare('SELECT p.idx, p.name, s.id, s.name, s.mapId, s.subnet FROM lan_ports p JOIN lan_switches s ON s.id = p.switchId WHERE p.id = ?');
+  stmt.bind([portId]);
+  const r = stmt.step() ? stmt.get() : null;
+  stmt.free();
+  if (!r) return null;
+  return { label: `${r[3] || 'switch'} port ${r[0] ?? r[1] ?? '?'}`, switchId: r[2] as string, mapId: r[4] as string, subnet: r[5] as string };
+}
+
+// "<kind>.update" with the fields that changed, or "<kind>.move" when only the position did
+function auditUpdate(mapId: string, kind: string, label: string, before: Record<string, any>, after: Record<string, any>, fields: string[], scope: AuditScope = {}, bools: string[] = []): void {
+  const diff = auditChanges(before, after, fields, bools);
+  if (diff.length) audit(mapId, `${kind}.update`, `Changed ${label}: ${diff.join('; ')}`, scope);
+  else if ('posX' in after && auditChanges(before, after, ['posX', 'posY']).length) audit(mapId, `${kind}.move`, `Moved ${label}`, scope);
+}
+
+function auditBinding(action: 'host.bind' | 'host.unbind', hostId: string, portId: string): void {
+  const host = rowOf('lan_hosts', 'id = ?', [hostId]);
+  const port = portInfo(portId);
+  if (!host || !port) return;
+  const detail = action === 'host.bind' ? `Connected host ${hostLabel(host)} to ${port.label}` : `Disconnected host ${hostLabel(host)} from ${port.label}`;
+  audit(host.mapId, action, detail, { subnet: host.subnet, switchId: port.switchId, hostId });
+}
+
+function manualName(type: string, id: string): string {
+  const row = type === 'device' ? rowOf('manual_devices', 'id = ?', [id]) : rowOf('manual_networks', 'id = ?', [id]);
+  return (type === 'device' ? row?.name : row?.cidr) || type;
+}
+
+// Entries written after a snapshot was taken survive its restore
+function carryAuditLog(from: Database, to: Database): void {
+  const max = Number(to.exec('SELECT COALESCE(MAX(id), 0) FROM audit_log')?.[0]?.values?.[0]?.[0] ?? 0);
+  const read = from.prepare('SELECT id, mapId, at, user, action, subnet, switchId, hostId, detail FROM audit_log WHERE id > ? ORDER BY id');
+  const write = to.prepare('INSERT INTO audit_log (id, mapId, at, user, action, subnet, switchId, hostId, detail) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)');
+  read.bind([max]);
+  while (read.step()) write.run(read.get());
+  read.free();
+  write.free();
+}
+
+export async function listAuditLog(mapId: string): Promise<AuditEntry[]> {
+  const db = getDb();
+  const out: AuditEntry[] = [];
+  const stmt = db.prepare('SELECT id, mapId, at, user, action, subnet, switchId, hostId, detail FROM audit_log WHERE mapId = ? ORDER BY at DESC, id DESC');
+  stmt.bind([mapId]);
+  while (stmt.step()) {
+    const r = stmt.get();
+    out.push({ id: r[0] as number, mapId: r[1] as string, at: r[2] as number, user: (r[3] as string | null) ?? undefined, action: r[4] as string, subnet: (r[5] as string | null) ?? undefined, switchId: (r[6] as string | null) ?? undefined, hostId: (r[7] as string | null) ?? undefined, detail: r[8] as string });
+  }
+  stmt.free();
+  return out;
+}
@@ -0,0 +1,103 @@
+// src/fireware_profile.ts
+// Fireware OS version and device model from the export header, and the parsing profile used for
+// that version. A profile holds the element paths and numeric type codes the alias and
+// address-group parsers depend on; XTM-era v11 exports nest members differently from v12.
+
+import type { XmlDocument } from './xml_dom';
+
+export type ParsingProfileId = 'fireware-11' | 'fireware-12';
+
+export type ParsingProfile = {
+  id: ParsingProfileId;
+  label: string;
+  // Selectors relative to an <alias>
+  aliasMembers: string;
+  aliasExcludedMembers: string;
+  aliasAddressTags: string[]; // member text naming an address group (or Any)
+  aliasMemberType: { aliasRef: string; address: string; builtin: string };
+  // Selectors relative to an <address-group>
+  addrGroupMembers: string;
+  addrGroupExcludedMembers: string;
+  addrMemberType: { host: string; network: string };
+};
+
+export type FirewareInfo = {
+  version?: string; // as exported, e.g. 12.10.4
+  model?: string;   // base model, e.g. T40 or XTM_330
+  profile: ParsingProfileId;
+  warnings: string[]; // unknown or missing schema version, unrecognized structure
+};
+
+const FIREWARE_12: ParsingProfile = {
+  id: 'fireware-12',
+  label: 'Fireware 12',
+  aliasMembers: 'alias-member-list > alias-member',
+  aliasExcludedMembers: 'excluded-alias-member-list > alias-member',
+  aliasAddressTags: ['address'],
+  aliasMemberType: { aliasRef: '2', address: '1', builtin: '3' },
+  addrGroupMembers: 'addr-group-member > member',
+  addrGroupExcludedMembers: 'excluded-addr-group-member > member',
+  addrMemberType: { host: '1', network: '2' },
+};
+
+// v11 exports list members as <member> in *-member-list containers and name address groups in
+// <address-name>; the v12 paths are accepted too, since late v11 releases already use them.
+const FIREWARE_11: ParsingProfile = {
+  id: 'fireware-11',
+  label: 'Fireware 11',
+  aliasMembers: 'alias-member-list > alias-member, alias-member-list > member',
+  aliasExcludedMembers: 'excluded-alias-member-list > alias-member, excluded-alias-member-list > member',
+  aliasAddressTags: ['address', 'address-name'],
+  aliasMemberType: { aliasRef: '2', address: '1', builtin: '3' },
+  addrGroupMembers: 'addr-group-member > member, addr-group-member-list > member',
+  addrGroupExcludedMembers: 'excluded-addr-group-member > member, excluded-addr-group-member-list > member',
+  addrMemberType: { host: '1', network: '2' },
+};
+
+export const PROFILES: Record<ParsingProfileId, ParsingProfile> = {
+  'fireware-11': FIREWARE_11,
+  'fireware-12': FIREWARE_12,
+};
+
+const DEFAULT_PROFILE: ParsingProfileId = 'fireware-12';
+
+const VERSION_TAGS = ['for-version', 'fireware-version', 'os-version', 'sw-version'];
+const MODEL_TAGS = ['base-model', 'device-model', 'product-model', 'model-name'];
+// Policy Manager writes the version into a header comment in some exports
+const HEADER_VERSION = /Fireware(?:\s+(?:XTM|OS))?\s+v?(\d+\.\d+(?:\.\d+)*)/i;
+const TOP_LEVEL_LISTS = 'interface-list, alias-list, address-group-list, policy-list';
+
+function firstTag(doc: XmlDocument, tags: string[]): string | undefined {
+  for (const t of tags) {
+    const v = doc.querySelector(t)?.textContent?.trim();
+    if (v) return v;
+  }
+  return undefined;
+}
+
+function profileFor(version: string): ParsingProfileId | undefined {
+  const major = parseInt(version, 10);
+  if (major === 11) return 'fireware-11';
+  // Year-numbered releases (2025.1, ...) keep the v12 schema
+  if (major === 12 || (major >= 2025 && major < 2100)) return 'fireware-12';
+  return undefined;
+}
+
+export function detectFireware(xmlText: string, doc: XmlDocument): FirewareInfo {
+  const warnings: string[] = [];
+  const version = firstTag(doc, VERSION_TAGS)?.replace(/^v/i, '') ?? HEADER_VERSION.exec(xmlText.slice(0, 4096))?.[1];
+  const model = firstTag(doc, MODEL_TAGS);
+  let profile = version ? profileFor(version) : undefined;
+  if (!version) warnings.push(`No Fireware version in the export; parsed as ${PROFILES[DEFAULT_PROFILE].label}`);
+  else if (!profile) warnings.push(`Unknown Fireware schema version ${version}; parsed as ${PROFILES[DEFAULT_PROFILE].label}`);
+  profile ??= DEFAULT_PROFILE;
+  if (!doc.querySelector(TOP_LEVEL_LISTS)) warnings.push('Unrecognized export: no interface, alias, address-group or policy lists');
+  return { version, model, profile, warnings };
+}
+
+/** "T40 · Fireware 12.10.4", or undefined when neither is known */
+export function formatFireware(info: Pick<FirewareInfo, 'model' | 'version'> | undefined): string | undefined {
+  if (!info) return undefined;
+  const parts = [info.model, info.version && `Fireware ${info.version}`].filter(Boolean);
+  return parts.length ? parts.join(' · ') : undefined;
+}
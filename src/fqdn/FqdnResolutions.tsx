@@ -0,0 +1,87 @@
+import React from 'react';
+import { isIp, normalizeIp } from '../ip';
+import { ensureDbReady, setFqdnResolutionFor } from '../db';
+
+// FQDN alias members carry no address in the XML. This table lets the user pin one or more
+// IPs per name so policies that reference it land on the right subnets.
+export default function FqdnResolutions(props: { mapId: string; fqdns: string[]; table: Map<string, string[]>; onClose: ()=>void; onSaved?: ()=>void }) {
+  const { mapId, fqdns, table, onClose, onSaved } = props;
+  const names = React.useMemo(() => Array.from(new Set([...fqdns, ...table.keys()])).sort(), [fqdns, table]);
+  const [drafts, setDrafts] = React.useState<Record<string, string>>(() => Object.fromEntries(names.map(n => [n, (table.get(n) ?? []).join(', ')])));
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const splitIps = (s: string) => s.split(/[\s,;]+/).map(x => x.trim()).filter(Boolean);
+  const invalid = names.filter(n => splitIps(drafts[n] ?? '').some(ip => !isIp(ip)));
+
+  async function save() {
+    if (invalid.length) { setError(`Not an IP address: ${invalid.join(', ')}`); return; }
+    setBusy(true); setError(null);
+    try {
+      await ensureDbReady();
+      for (const n of names) {
+        const next = splitIps(drafts[n] ?? '').map(normalizeIp);
+        const prev = table.get(n) ?? [];
+        if (next.join(',') === prev.join(',')) continue;
+        await setFqdnResolutionFor(mapId, n, next);
+      }
+      onSaved?.();
+      onClose();
+    } catch (e: any) {
+      setError(String(e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const th: React.CSSProperties = { textAlign: 'left', padding: '4px 6px', borderBottom: '1px solid #1f2a44', fontWeight: 600 };
+  const td: React.CSSProperties = { padding: '4px 6px', borderBottom: '1px solid #1f2a44', verticalAlign: 'middle' };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1000, background: 'rgba(0,0,0,0.45)', display: 'grid', placeItems: 'center' }} onClick={onClose}>
+      <div style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 900, maxHeight: '80vh', overflow: 'auto' }} onClick={e=>e.stopPropagation()}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>FQDN resolution</div>
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: 6 }}>
+            <button type="button" onClick={save} disabled={busy || !names.length} style={{ background: '#1d4ed8', color: 'white', border: 'none', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>{busy ? 'Saving…' : 'Save'}</button>
+            <button type="button" onClick={onClose} style={{ background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Close</button>
+          </div>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 10 }}>
+          Enter the addresses each name resolves to (comma-separated). Leave blank to keep the name unresolved.
+        </div>
+        {error && <div style={{ color: '#fca5a5', fontSize: 12, marginBottom: 8 }}>{error}</div>}
+        {names.length === 0 ? (
+          <div style={{ opacity: 0.7 }}>No FQDN members in the loaded policies.</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={th}>FQDN</th>
+                <th style={th}>Addresses</th>
+              </tr>
+            </thead>
+            <tbody>
+              {names.map(n => (
+                <tr key={n}>
+                  <td style={{ ...td, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>
+                    {n}
+                    {!fqdns.includes(n) && <span style={{ marginLeft: 6, opacity: 0.6 }}>(not in policies)</span>}
+                  </td>
+                  <td style={td}>
+                    <input
+                      value={drafts[n] ?? ''}
+                      onChange={e=> setDrafts(prev => ({ ...prev, [n]: e.target.value }))}
+                      placeholder="e.g. 203.0.113.10, 2001:db8::10"
+                      style={{ width: '100%', background: '#0b1220', color: '#e6edf7', border: `1px solid ${invalid.includes(n) ? '#b91c1c' : '#2b3b5e'}`, borderRadius: 6, padding: '4px 6px' }}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
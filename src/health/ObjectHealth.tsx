@@ -0,0 +1,130 @@
+import React from 'react';
+import { objectHealth, healthToCsv, HEALTH_KIND_LABEL, type HealthFirewall, type HealthIssue, type HealthKind } from './object_health';
+import type { FqdnTable } from '../parse_watchguard';
+import { policiesFromXmlText, type UnifiedPolicy } from '../xml_to_upolicy';
+
+const KINDS: HealthKind[] = ['broken-ref', 'cycle', 'empty', 'unused-alias', 'unused-group', 'duplicate'];
+
+export default function ObjectHealth(props: {
+  firewalls: Array<{ id: string; name: string; xmlText?: string }>;
+  fqdnTable?: FqdnTable;
+  onClose: ()=>void;
+  onShowPolicies?: (label: string, policies: UnifiedPolicy[])=>void;
+}) {
+  const { firewalls, fqdnTable, onClose, onShowPolicies } = props;
+  const [fws, setFws] = React.useState<HealthFirewall[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [kinds, setKinds] = React.useState<Set<HealthKind>>(new Set(KINDS));
+  const [fwFilter, setFwFilter] = React.useState<string>('');
+
+  React.useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const out: HealthFirewall[] = [];
+        for (const f of firewalls) {
+          if (!f.xmlText || !f.xmlText.trim()) continue;
+          out.push({ id: f.id, name: f.name, ...(await policiesFromXmlText(f.xmlText, fqdnTable)) });
+        }
+        if (!cancelled) setFws(out);
+      } catch (e: any) {
+        if (!cancelled) setError(String(e?.message ?? e));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [firewalls, fqdnTable]);
+
+  const all = React.useMemo(() => (fws ? objectHealth(fws) : []), [fws]);
+  const rows = React.useMemo(() => all.filter(r => kinds.has(r.kind) && (!fwFilter || r.fwId === fwFilter)), [all, kinds, fwFilter]);
+  const counts = React.useMemo(() => {
+    const m = new Map<HealthKind, number>();
+    for (const r of all) if (!fwFilter || r.fwId === fwFilter) m.set(r.kind, (m.get(r.kind) ?? 0) + 1);
+    return m;
+  }, [all, fwFilter]);
+
+  function showPolicies(r: HealthIssue) {
+    const fw = fws?.find(f => f.id === r.fwId);
+    if (!fw || !onShowPolicies) return;
+    const wanted = new Set(r.policies.map(p => `${p.id}|${p.name}`));
+    onShowPolicies(`${HEALTH_KIND_LABEL[r.kind]}: ${r.object}`, fw.policies.filter(p => wanted.has(`${p.id}|${p.name}`)));
+  }
+
+  function downloadCsv() {
+    const blob = new Blob([healthToCsv(rows)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = 'object-health.csv'; a.click();
+    setTimeout(()=> URL.revokeObjectURL(url), 5000);
+  }
+
+  const th: React.CSSProperties = { textAlign: 'left', padding: '4px 6px', borderBottom: '1px solid #1f2a44', fontWeight: 600, position: 'sticky', top: 0, background: '#0f1a2b' };
+  const td: React.CSSProperties = { padding: '4px 6px', borderBottom: '1px solid #1f2a44', verticalAlign: 'top' };
+  const kindColor: Record<HealthKind, string> = {
+    'broken-ref': '#7f1d1d', 'cycle': '#7f1d1d', 'empty': '#78350f', 'unused-alias': '#374151', 'unused-group': '#374151', 'duplicate': '#1e3a8a',
+  };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1000, background: 'rgba(0,0,0,0.45)', display: 'grid', placeItems: 'center' }} onClick={onClose}>
+      <div style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 1000, maxHeight: '80vh', overflow: 'auto' }} onClick={e=>e.stopPropagation()}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>Object health</div>
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: 6 }}>
+            <button type="button" onClick={downloadCsv} disabled={!rows.length} style={{ background: '#1d4ed8', color: 'white', border: 'none', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Export CSV</button>
+            <button type="button" onClick={onClose} style={{ background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Close</button>
+          </div>
+        </div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, alignItems: 'center', marginBottom: 10, fontSize: 12 }}>
+          {KINDS.map(k => (
+            <label key={k} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+              <input type="checkbox" checked={kinds.has(k)} onChange={e=> setKinds(prev => { const n = new Set(prev); if (e.target.checked) n.add(k); else n.delete(k); return n; })} />
+              {HEALTH_KIND_LABEL[k]} ({counts.get(k) ?? 0})
+            </label>
+          ))}
+          {firewalls.length > 1 && (
+            <select value={fwFilter} onChange={e=> setFwFilter(e.target.value)} style={{ background: '#0b1220', color: '#e6edf7', border: '1px solid #2b3b5e', borderRadius: 6, padding: '2px 6px' }}>
+              <option value="">All firewalls</option>
+              {firewalls.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+            </select>
+          )}
+          <div style={{ marginLeft: 'auto', opacity: 0.7 }}>{rows.length} of {all.length} findings</div>
+        </div>
+        {error ? (
+          <div style={{ color: '#fca5a5' }}>{error}</div>
+        ) : !fws ? (
+          <div style={{ opacity: 0.7 }}>Analyzing…</div>
+        ) : rows.length === 0 ? (
+          <div style={{ opacity: 0.7 }}>No findings.</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={th}>Finding</th>
+                <th style={th}>Object</th>
+                <th style={th}>Detail</th>
+                {firewalls.length > 1 && <th style={th}>Firewall</th>}
+                <th style={th}>Policies</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r, i) => (
+                <tr key={`${r.fwId}-${r.kind}-${r.object}-${i}`}>
+                  <td style={td}><span style={{ background: kindColor[r.kind], padding: '0 6px', borderRadius: 999, whiteSpace: 'nowrap' }}>{HEALTH_KIND_LABEL[r.kind]}</span></td>
+                  <td style={{ ...td, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>{r.object}<div style={{ opacity: 0.6 }}>{r.objectType}</div></td>
+                  <td style={td}>{r.detail}</td>
+                  {firewalls.length > 1 && <td style={td}>{r.fwName}</td>}
+                  <td style={td}>
+                    {r.policies.length ? (
+                      <button type="button" title={r.policies.map(p => p.name).join('\n')} onClick={()=> showPolicies(r)} style={{ background: 'transparent', color: '#93c5fd', border: 'none', padding: 0, cursor: 'pointer', fontSize: 12 }}>
+                        {r.policies.length} polic{r.policies.length === 1 ? 'y' : 'ies'}
+                      </button>
+                    ) : <span style={{ opacity: 0.5 }}>—</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
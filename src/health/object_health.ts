@@ -0,0 +1,230 @@
+// src/health/object_health.ts
+// Object health: broken alias references, alias cycles, empty groups, unused objects and
+// duplicate-content aliases across every loaded firewall. Works on the raw alias graph
+// (not on ResolvedAlias.notes) so each finding names the object that owns the problem.
+
+import { networkOf } from '../ip';
+import { makeAliasUniverse, type RawConfig, type Domain, type AddressGroupMember, type AliasMember } from '../parse_watchguard';
+import type { UnifiedPolicy } from '../xml_to_upolicy';
+import { csvCell } from '../csv';
+
+export type HealthFirewall = { id: string; name: string; raw: RawConfig; domain: Domain; policies: UnifiedPolicy[] };
+
+export type HealthKind = 'broken-ref' | 'cycle' | 'empty' | 'unused-alias' | 'unused-group' | 'duplicate';
+
+export type HealthPolicyRef = { fwId: string; id: string; name: string };
+
+export type HealthIssue = {
+  kind: HealthKind;
+  fwId: string;
+  fwName: string;
+  object: string; // alias / address-group name (for cycles: the first alias on the loop)
+  objectType: 'alias' | 'address-group' | 'policy';
+  detail: string;
+  related?: Array<{ fwId: string; fwName: string; object: string }>; // other copies, for duplicates
+  policies: HealthPolicyRef[];
+};
+
+export const HEALTH_KIND_LABEL: Record<HealthKind, string> = {
+  'broken-ref': 'Broken reference',
+  'cycle': 'Cycle',
+  'empty': 'Empty object',
+  'unused-alias': 'Unused alias',
+  'unused-group': 'Unused address group',
+  'duplicate': 'Duplicate content',
+};
+
+// Fireware names the per-policy aliases "<policy>.<n>.from" / "<policy>.<n>.to". They are
+// owned by their policy, so they are never "unused" on their own and are skipped when
+// looking for duplicates (every "Any-Trusted" source would otherwise match every other).
+function isPolicyAlias(name: string): boolean {
+  return /\.\d+\.(from|to)$/.test(name);
+}
+
+function memberToken(m: AddressGroupMember): string {
+  const neg = m.exclude ? '!' : '';
+  if (m.kind === 'host') return `${neg}host:${m.ip}`;
+  if (m.kind === 'network') {
+    try { return `${neg}net:${networkOf(m.ip, m.mask)}`; } catch { return `${neg}net:${m.ip}/${m.mask}`; }
+  }
+  if (m.kind === 'range') return `${neg}range:${m.from}-${m.to}`;
+  return `${neg}fqdn:${m.domain}`;
+}
+
+type Scan = {
+  fw: HealthFirewall;
+  isBuiltin: (name: string) => boolean;
+  closures: Map<UnifiedPolicy, Set<string>>; // every alias/group name a policy depends on
+};
+
+export function objectHealth(fws: HealthFirewall[]): HealthIssue[] {
+  const issues: HealthIssue[] = [];
+  const scans: Scan[] = [];
+
+  for (const fw of fws) {
+    const { aliasesByName, addrGroupsByName, snatActions } = fw.raw;
+    const { isBuiltin } = makeAliasUniverse(fw.raw, fw.domain);
+    const base = { fwId: fw.id, fwName: fw.name };
+
+    // Edges of the alias graph; name lookup mirrors makeAliasUniverse (alias first, then address group)
+    const childrenOf = (m: AliasMember): Array<{ name: string; group: boolean }> => {
+      if (m.kind === 'alias-ref') return [{ name: m.aliasName, group: !aliasesByName.has(m.aliasName) && !isBuiltin(m.aliasName) }];
+      if (m.kind === 'address-ref') return [{ name: m.addressName, group: true }];
+      return [];
+    };
+    const exists = (name: string, group: boolean) =>
+      group ? addrGroupsByName.has(name) : isBuiltin(name) || aliasesByName.has(name) || addrGroupsByName.has(name);
+
+    // Closure of names a policy depends on
+    const closures = new Map<UnifiedPolicy, Set<string>>();
+    const visit = (name: string, into: Set<string>) => {
+      if (into.has(name)) return;
+      into.add(name);
+      const node = aliasesByName.get(name);
+      if (!node || isBuiltin(name)) return;
+      for (const m of node.members) for (const c of childrenOf(m)) visit(c.name, into);
+    };
+    for (const p of fw.policies) {
+      const set = new Set<string>();
+      for (const n of [...p.fromAliases, ...p.toAliases]) if (n && !snatActions.has(n)) visit(n, set);
+      closures.set(p, set);
+    }
+    const policiesUsing = (names: string[]): HealthPolicyRef[] =>
+      fw.policies.filter(p => names.some(n => closures.get(p)?.has(n))).map(p => ({ fwId: fw.id, id: p.id, name: p.name }));
+
+    // Broken references: from policies and from alias members
+    for (const p of fw.policies) {
+      for (const n of [...p.fromAliases, ...p.toAliases]) {
+        if (!n || snatActions.has(n) || exists(n, false)) continue;
+        issues.push({ ...base, kind: 'broken-ref', object: n, objectType: 'policy', detail: `Policy '${p.name}' references missing alias '${n}'`, policies: [{ fwId: fw.id, id: p.id, name: p.name }] });
+      }
+    }
+    const aliasRefs = new Set<string>(); // group names referenced from any alias, used or not
+    for (const node of aliasesByName.values()) {
+      for (const m of node.members) {
+        for (const c of childrenOf(m)) {
+          if (c.group) aliasRefs.add(c.name);
+          if (exists(c.name, c.group)) continue;
+          issues.push({ ...base, kind: 'broken-ref', object: node.name, objectType: 'alias', detail: `${c.group ? 'Address group' : 'Alias'} '${c.name}' not found`, policies: policiesUsing([node.name]) });
+        }
+      }
+    }
+
+    // Cycles: DFS over alias → alias edges, one finding per loop
+    const state = new Map<string, 1 | 2>(); // 1 = on stack, 2 = done
+    const seenLoops = new Set<string>();
+    const stack: string[] = [];
+    const dfs = (name: string) => {
+      state.set(name, 1);
+      stack.push(name);
+      for (const m of aliasesByName.get(name)?.members ?? []) {
+        if (m.kind !== 'alias-ref' || !aliasesByName.has(m.aliasName) || isBuiltin(m.aliasName)) continue;
+        const next = m.aliasName;
+        if (state.get(next) === 1) {
+          const loop = stack.slice(stack.indexOf(next));
+          const key = [...loop].sort().join('|');
+          if (!seenLoops.has(key)) {
+            seenLoops.add(key);
+            issues.push({ ...base, kind: 'cycle', object: next, objectType: 'alias', detail: [...loop, next].join(' → '), policies: policiesUsing(loop) });
+          }
+        } else if (!state.has(next)) {
+          dfs(next);
+        }
+      }
+      stack.pop();
+      state.set(name, 2);
+    };
+    for (const name of aliasesByName.keys()) if (!state.has(name) && !isBuiltin(name)) dfs(name);
+
+    // Empty objects: nothing to match once exclusions are set aside
+    for (const ag of addrGroupsByName.values()) {
+      if (ag.members.some(m => !m.exclude)) continue;
+      issues.push({ ...base, kind: 'empty', object: ag.name, objectType: 'address-group', detail: ag.members.length ? 'Only excluded members' : 'No members', policies: policiesUsing([ag.name]) });
+    }
+    for (const node of aliasesByName.values()) {
+      if (isBuiltin(node.name) || node.members.some(m => !m.exclude)) continue;
+      issues.push({ ...base, kind: 'empty', object: node.name, objectType: 'alias', detail: node.members.length ? 'Only excluded members' : 'No members', policies: policiesUsing([node.name]) });
+    }
+
+    // Unused: aliases no policy reaches; groups nothing references at all
+    const used = new Set<string>();
+    closures.forEach(set => set.forEach(n => used.add(n)));
+    for (const name of aliasesByName.keys()) {
+      if (used.has(name) || isBuiltin(name) || isPolicyAlias(name)) continue;
+      issues.push({ ...base, kind: 'unused-alias', object: name, objectType: 'alias', detail: 'Not referenced by any policy', policies: [] });
+    }
+    for (const name of addrGroupsByName.keys()) {
+      if (used.has(name) || aliasRefs.has(name)) continue;
+      issues.push({ ...base, kind: 'unused-group', object: name, objectType: 'address-group', detail: 'Not referenced by any alias or policy', policies: [] });
+    }
+
+    scans.push({ fw, isBuiltin, closures });
+  }
+
+  issues.push(...duplicates(scans));
+  return issues;
+}
+
+// Content signature of an alias: its leaves (addresses, builtins, interface scopes) with nested references expanded
+function aliasSignature(raw: RawConfig, isBuiltin: (n: string) => boolean, name: string): string {
+  const tokens = new Set<string>();
+  const walk = (n: string, neg: boolean, seen: Set<string>) => {
+    if (seen.has(n)) return;
+    seen.add(n);
+    const prefix = neg ? '!' : '';
+    if (isBuiltin(n)) { tokens.add(`${prefix}builtin:${n}`); return; }
+    const node = raw.aliasesByName.get(n);
+    if (!node) {
+      const ag = raw.addrGroupsByName.get(n);
+      ag?.members.forEach(m => tokens.add(`${prefix}${memberToken({ ...m, exclude: neg !== !!m.exclude })}`));
+      return;
+    }
+    for (const m of node.members) {
+      const mneg = neg !== !!m.exclude;
+      if (m.kind === 'alias-ref') walk(m.aliasName, mneg, seen);
+      else if (m.kind === 'address-ref') walk(m.addressName, mneg, seen);
+      else if (m.kind === 'builtin') tokens.add(`${mneg ? '!' : ''}builtin:${m.name}`);
+      else tokens.add(`${mneg ? '!' : ''}any@${m.interface ?? m.zone ?? ''}`);
+    }
+  };
+  walk(name, false, new Set());
+  return Array.from(tokens).sort().join('|');
+}
+
+function duplicates(scans: Scan[]): HealthIssue[] {
+  const bySig = new Map<string, Array<{ scan: Scan; object: string }>>();
+  for (const scan of scans) {
+    for (const name of scan.fw.raw.aliasesByName.keys()) {
+      if (scan.isBuiltin(name) || isPolicyAlias(name)) continue;
+      const sig = aliasSignature(scan.fw.raw, scan.isBuiltin, name);
+      if (!sig) continue;
+      if (!bySig.has(sig)) bySig.set(sig, []);
+      bySig.get(sig)!.push({ scan, object: name });
+    }
+  }
+  const out: HealthIssue[] = [];
+  for (const group of bySig.values()) {
+    // The same alias under the same name on several firewalls is consistency, not duplication
+    if (new Set(group.map(g => g.object)).size < 2) continue;
+    for (const g of group) {
+      const fw = g.scan.fw;
+      out.push({
+        kind: 'duplicate',
+        fwId: fw.id,
+        fwName: fw.name,
+        object: g.object,
+        objectType: 'alias',
+        detail: `Same content as ${group.filter(o => o !== g).map(o => `${o.object} (${o.scan.fw.name})`).join(', ')}`,
+        related: group.filter(o => o !== g).map(o => ({ fwId: o.scan.fw.id, fwName: o.scan.fw.name, object: o.object })),
+        policies: fw.policies.filter(p => g.scan.closures.get(p)?.has(g.object)).map(p => ({ fwId: fw.id, id: p.id, name: p.name })),
+      });
+    }
+  }
+  return out;
+}
+
+export function healthToCsv(rows: HealthIssue[]): string {
+  const header = ['firewall', 'kind', 'object_type', 'object', 'detail', 'policies'];
+  const lines = rows.map(r => [r.fwName, HEALTH_KIND_LABEL[r.kind], r.objectType, r.object, r.detail, r.policies.map(p => p.name).join(' ')].map(csvCell).join(','));
+  return [header.join(','), ...lines].join('\n');
+}
@@ -0,0 +1,139 @@
+import React from 'react';
+import { auditKind, auditLogToCsv, filterAuditLog, type AuditFilter } from './audit_log';
+import { getAuditUser, listAllLanHosts, listAllMapSwitches, listAuditLog, type AuditEntry } from '../db';
+
+// Who changed what in the map, newest first. subnet / switchId / hostId preselect the scope
+// (LAN view, switch or host context menu); every filter can be widened again in the panel.
+export default function AuditLog(props: {
+  mapId: string;
+  subnet?: string;
+  switchId?: string;
+  hostId?: string;
+  onClose: ()=>void;
+}) {
+  const { mapId, onClose } = props;
+  const [entries, setEntries] = React.useState<AuditEntry[] | null>(null);
+  const [names, setNames] = React.useState<Map<string, string>>(new Map());
+  const [filter, setFilter] = React.useState<AuditFilter>({ subnet: props.subnet, switchId: props.switchId, hostId: props.hostId });
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    (async () => {
+      const [log, switches, hosts] = await Promise.all([listAuditLog(mapId), listAllMapSwitches(mapId), listAllLanHosts(mapId)]);
+      const n = new Map<string, string>();
+      switches.forEach(s => n.set(s.id, s.name || 'switch'));
+      hosts.forEach(h => n.set(h.id, h.name ? `${h.name}${h.ip ? ` (${h.ip})` : ''}` : h.ip || 'host'));
+      setNames(n);
+      setEntries(log);
+    })().catch(e => setError(String(e?.message ?? e)));
+  }, [mapId]);
+
+  const rows = React.useMemo(() => filterAuditLog(entries ?? [], filter), [entries, filter]);
+  const distinct = (pick: (e: AuditEntry) => string | undefined) =>
+    Array.from(new Set((entries ?? []).map(pick).filter((v): v is string => v !== undefined))).sort();
+  const subnets = distinct(e => e.subnet);
+  const switchIds = distinct(e => e.switchId);
+  const hostIds = distinct(e => e.hostId);
+  const users = distinct(e => e.user ?? '');
+  const kinds = distinct(e => auditKind(e.action));
+  const nameOf = (id: string) => names.get(id) ?? '(deleted)';
+  const me = getAuditUser();
+
+  // '*' stands for "no filter" in the selects
+  const pick = (key: keyof AuditFilter) => (e: React.ChangeEvent<HTMLSelectElement>) =>
+    setFilter(prev => ({ ...prev, [key]: e.target.value === '*' ? undefined : e.target.value }));
+
+  function downloadCsv() {
+    const blob = new Blob([auditLogToCsv(rows, names)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = 'map-history.csv'; a.click();
+    setTimeout(()=> URL.revokeObjectURL(url), 5000);
+  }
+
+  const btn: React.CSSProperties = { background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' };
+  const th: React.CSSProperties = { textAlign: 'left', padding: '4px 6px', borderBottom: '1px solid #1f2a44', fontWeight: 600, position: 'sticky', top: 0, background: '#0f1a2b' };
+  const td: React.CSSProperties = { padding: '4px 6px', borderBottom: '1px solid #1f2a44', verticalAlign: 'top' };
+  const select: React.CSSProperties = { background: '#0b1220', color: '#e6edf7', border: '1px solid #2b3b5e', borderRadius: 6, padding: '2px 6px', maxWidth: 180 };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1000, background: 'rgba(0,0,0,0.45)', display: 'grid', placeItems: 'center' }} onClick={onClose}>
+      <div style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 900, maxHeight: '80vh', overflow: 'auto' }} onClick={e=>e.stopPropagation()}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>History</div>
+          <div style={{ fontSize: 12, opacity: 0.75 }}>{entries ? `${rows.length} of ${entries.length} changes` : ''}</div>
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: 6 }}>
+            <button type="button" disabled={!rows.length} onClick={downloadCsv} style={{ ...btn, opacity: rows.length ? 1 : 0.5 }}>Download CSV</button>
+            <button type="button" onClick={onClose} style={btn}>Close</button>
+          </div>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 10 }}>
+          Every change saved to this map, with the user name of the browser that made it{me ? ` (yours: ${me})` : ' (yours is not set: Help → User name…)'}. Imported map bundles bring their history along.
+        </div>
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', marginBottom: 10, fontSize: 12 }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>Subnet
+            <select value={filter.subnet ?? '*'} onChange={pick('subnet')} style={select}>
+              <option value="*">All</option>
+              {subnets.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>Switch
+            <select value={filter.switchId ?? '*'} onChange={pick('switchId')} style={select}>
+              <option value="*">All</option>
+              {switchIds.map(id => <option key={id} value={id}>{nameOf(id)}</option>)}
+            </select>
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>Host
+            <select value={filter.hostId ?? '*'} onChange={pick('hostId')} style={select}>
+              <option value="*">All</option>
+              {hostIds.map(id => <option key={id} value={id}>{nameOf(id)}</option>)}
+            </select>
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>User
+            <select value={filter.user ?? '*'} onChange={pick('user')} style={select}>
+              <option value="*">All</option>
+              {users.map(u => <option key={u} value={u}>{u || '(not set)'}</option>)}
+            </select>
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>Kind
+            <select value={filter.kind ?? '*'} onChange={pick('kind')} style={select}>
+              <option value="*">All</option>
+              {kinds.map(k => <option key={k} value={k}>{k}</option>)}
+            </select>
+          </label>
+          <input value={filter.text ?? ''} onChange={e=> setFilter(prev => ({ ...prev, text: e.target.value }))} placeholder="Search details" style={{ ...select, maxWidth: 'none', width: 160 }} />
+        </div>
+        {error && <div style={{ color: '#fca5a5', fontSize: 12, marginBottom: 8 }}>{error}</div>}
+        {!entries ? (
+          <div style={{ opacity: 0.7 }}>Loading…</div>
+        ) : !rows.length ? (
+          <div style={{ opacity: 0.7 }}>{entries.length ? 'No changes match the filters.' : 'No changes recorded for this map yet.'}</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={{ ...th, width: 150 }}>When</th>
+                <th style={{ ...th, width: 110 }}>Who</th>
+                <th style={{ ...th, width: 130 }}>Action</th>
+                <th style={th}>What</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(e => (
+                <tr key={e.id}>
+                  <td style={{ ...td, whiteSpace: 'nowrap' }}>{new Date(e.at).toLocaleString()}</td>
+                  <td style={td}>{e.user ?? <span style={{ opacity: 0.5 }}>not set</span>}</td>
+                  <td style={{ ...td, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>{e.action}</td>
+                  <td style={td}>
+                    {e.detail}
+                    {e.subnet && filter.subnet === undefined && <span style={{ opacity: 0.6 }}> · {e.subnet}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import React from 'react';
+import { clearHistory, listHistory, type HistoryStep } from '../db';
+
+// The map's undo history, newest first. Undo/redo go through the parent (onStep) so the map
+// reloads the same way as for Ctrl+Z / Ctrl+Y; reloadKey changes whenever that happened.
+export default function EditHistory(props: {
+  mapId: string;
+  reloadKey?: number;
+  onStep: (redo: boolean)=>Promise<void>;
+  onClose: ()=>void;
+}) {
+  const { mapId, reloadKey, onStep, onClose } = props;
+  const [steps, setSteps] = React.useState<HistoryStep[] | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    listHistory(mapId).then(setSteps).catch(e => setError(String(e?.message ?? e)));
+  }, [mapId, reloadKey]);
+
+  const done = (steps ?? []).filter(s => !s.undone); // newest first
+  const undone = (steps ?? []).filter(s => s.undone).reverse(); // next redo first
+
+  async function stepTo(redo: boolean, count: number) {
+    setBusy(true); setError(null);
+    try {
+      for (let i = 0; i < count; i++) await onStep(redo);
+    } catch (e: any) {
+      setError(String(e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onClear() {
+    if (!window.confirm('Clear the undo history of this map? The map itself is not changed.')) return;
+    await clearHistory(mapId);
+    setSteps(await listHistory(mapId));
+  }
+
+  const btn: React.CSSProperties = { background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' };
+  const td: React.CSSProperties = { padding: '4px 6px', borderBottom: '1px solid #1f2a44', verticalAlign: 'middle' };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1000, background: 'rgba(0,0,0,0.45)', display: 'grid', placeItems: 'center' }} onClick={onClose}>
+      <div style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 900, maxHeight: '80vh', overflow: 'auto' }} onClick={e=>e.stopPropagation()}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>Undo history</div>
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: 6 }}>
+            <button type="button" disabled={busy || !done.length} onClick={()=> stepTo(false, 1)} title="Ctrl+Z" style={{ ...btn, opacity: done.length ? 1 : 0.5 }}>Undo</button>
+            <button type="button" disabled={busy || !undone.length} onClick={()=> stepTo(true, 1)} title="Ctrl+Y" style={{ ...btn, opacity: undone.length ? 1 : 0.5 }}>Redo</button>
+            <button type="button" disabled={busy || !steps?.length} onClick={onClear} style={{ ...btn, color: '#fca5a5' }}>Clear</button>
+            <button type="button" onClick={onClose} style={btn}>Close</button>
+          </div>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 10 }}>
+          Edits to notes, labels, LAN switches, ports, VLANs, hosts and manual objects; an Excel apply is one step. Device updates are undone with Undo Import instead.
+        </div>
+        {error && <div style={{ color: '#fca5a5', fontSize: 12, marginBottom: 8 }}>{error}</div>}
+        {!steps ? (
+          <div style={{ opacity: 0.7 }}>Loading…</div>
+        ) : !steps.length ? (
+          <div style={{ opacity: 0.7 }}>No edits recorded for this map yet.</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <tbody>
+              {steps.map(s => {
+                const undoCount = done.indexOf(s) + 1;
+                const redoCount = undone.indexOf(s) + 1;
+                return (
+                  <tr key={s.id} style={{ opacity: s.undone ? 0.5 : 1 }}>
+                    <td style={{ ...td, width: 160, whiteSpace: 'nowrap' }}>{new Date(s.at).toLocaleString()}</td>
+                    <td style={{ ...td, textDecoration: s.undone ? 'line-through' : 'none' }}>{s.label}</td>
+                    <td style={{ ...td, width: 110, textAlign: 'right' }}>
+                      {s.undone ? (
+                        <button type="button" disabled={busy} onClick={()=> stepTo(true, redoCount)} style={{ ...btn, padding: '0 8px' }}>Redo to here</button>
+                      ) : (
+                        <button type="button" disabled={busy} onClick={()=> stepTo(false, undoCount)} style={{ ...btn, padding: '0 8px' }}>Undo to here</button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import React from 'react';
+import { diffConfigs, configDiffToCsv, DIFF_SECTION_LABEL, type DiffEntry, type DiffKind, type DiffSection } from './config_diff';
+import { parseWatchGuardXmlText, type FqdnTable } from '../parse_watchguard';
+import { policiesFromXmlText } from '../xml_to_upolicy';
+import { addXmlRevision, deleteXmlRevision, getXmlRevisionText, listXmlRevisions, PRIMARY_DEVICE, type XmlRevisionRow } from '../db';
+
+const SECTIONS: DiffSection[] = ['interface', 'alias', 'address-group', 'policy', 'nat'];
+const KIND_COLOR: Record<DiffKind, string> = { added: '#14532d', removed: '#7f1d1d', changed: '#78350f' };
+
+export default function RevisionHistory(props: {
+  mapId: string;
+  fqdnTable?: FqdnTable;
+  onClose: ()=>void;
+}) {
+  const { mapId, fqdnTable, onClose } = props;
+  const [revs, setRevs] = React.useState<XmlRevisionRow[] | null>(null);
+  const [devId, setDevId] = React.useState('');
+  const [aId, setAId] = React.useState('');
+  const [bId, setBId] = React.useState('');
+  const [diff, setDiff] = React.useState<DiffEntry[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
+
+  const reload = React.useCallback(async (keepDev?: string) => {
+    const rows = await listXmlRevisions(mapId);
+    setRevs(rows);
+    const dev = keepDev && rows.some(r => r.devId === keepDev) ? keepDev : (rows.find(r => r.devId !== PRIMARY_DEVICE) ?? rows[0])?.devId ?? '';
+    setDevId(dev);
+    const mine = rows.filter(r => r.devId === dev);
+    setBId(mine[0]?.id ?? '');
+    setAId(mine[1]?.id ?? mine[0]?.id ?? '');
+  }, [mapId]);
+
+  React.useEffect(() => { reload().catch(e => setError(String(e?.message ?? e))); }, [reload]);
+
+  const devices = React.useMemo(() => {
+    const m = new Map<string, string>();
+    // rows are newest first, so the first name seen is the device's current one
+    for (const r of revs ?? []) if (!m.has(r.devId)) m.set(r.devId, `${r.name || 'Device'}${r.devId === PRIMARY_DEVICE ? ' (primary)' : ''}`);
+    return Array.from(m.entries());
+  }, [revs]);
+  const mine = React.useMemo(() => (revs ?? []).filter(r => r.devId === devId), [revs, devId]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setDiff(null); setError(null);
+    if (!aId || !bId) return;
+    (async () => {
+      try {
+        const [ta, tb] = await Promise.all([getXmlRevisionText(aId), getXmlRevisionText(bId)]);
+        if (ta == null || tb == null) throw new Error('Revision not found');
+        const [a, b] = [await policiesFromXmlText(ta, fqdnTable), await policiesFromXmlText(tb, fqdnTable)];
+        if (!cancelled) setDiff(diffConfigs(a, b));
+      } catch (e: any) {
+        if (!cancelled) setError(String(e?.message ?? e));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [aId, bId, fqdnTable]);
+
+  function pickDevice(id: string) {
+    setDevId(id);
+    const rows = (revs ?? []).filter(r => r.devId === id);
+    setBId(rows[0]?.id ?? '');
+    setAId(rows[1]?.id ?? rows[0]?.id ?? '');
+  }
+
+  async function onAddFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file || !devId) return;
+    try {
+      const text = await file.text();
+      await parseWatchGuardXmlText(text); // reject files that are not a config before storing them
+      const id = await addXmlRevision(mapId, devId, file.name, text);
+      await reload(devId);
+      if (id) setBId(id);
+      else setError('That file is identical to the latest revision.');
+    } catch (err: any) {
+      setError(`Add revision failed: ${String(err?.message ?? err)}`);
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  }
+
+  async function onDelete(r: XmlRevisionRow) {
+    if (mine.length <= 1) return;
+    if (!window.confirm(`Delete the revision imported ${new Date(r.importedAt).toLocaleString()}?`)) return;
+    await deleteXmlRevision(mapId, r.id);
+    await reload(devId);
+  }
+
+  function downloadCsv() {
+    if (!diff) return;
+    const blob = new Blob([configDiffToCsv(diff)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = 'config-diff.csv'; a.click();
+    setTimeout(()=> URL.revokeObjectURL(url), 5000);
+  }
+
+  const th: React.CSSProperties = { textAlign: 'left', padding: '4px 6px', borderBottom: '1px solid #1f2a44', fontWeight: 600, position: 'sticky', top: 0, background: '#0f1a2b' };
+  const td: React.CSSProperties = { padding: '4px 6px', borderBottom: '1px solid #1f2a44', verticalAlign: 'top' };
+  const select: React.CSSProperties = { background: '#0b1220', color: '#e6edf7', border: '1px solid #2b3b5e', borderRadius: 6, padding: '2px 6px' };
+  const revLabel = (r: XmlRevisionRow) => `${new Date(r.importedAt).toLocaleString()} — ${r.name || 'XML'}`;
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1000, background: 'rgba(0,0,0,0.45)', display: 'grid', placeItems: 'center' }} onClick={onClose}>
+      <div style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 1000, maxHeight: '80vh', overflow: 'auto' }} onClick={e=>e.stopPropagation()}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>Revision history</div>
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: 6 }}>
+            <button type="button" onClick={()=> fileRef.current?.click()} disabled={!devId} title="Store an exported XML as a new revision of this device without loading it" style={{ background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Add revision from XML…</button>
+            <input ref={fileRef} type="file" accept=".xml" style={{ display: 'none' }} onChange={onAddFile} />
+            <button type="button" onClick={downloadCsv} disabled={!diff?.length} style={{ background: '#1d4ed8', color: 'white', border: 'none', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Export CSV</button>
+            <button type="button" onClick={onClose} style={{ background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Close</button>
+          </div>
+        </div>
+        {!revs ? (
+          <div style={{ opacity: 0.7 }}>Loading revisions…</div>
+        ) : !revs.length ? (
+          <div style={{ opacity: 0.7 }}>This map has no stored XML.</div>
+        ) : (
+          <>
+            <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 10, fontSize: 12, flexWrap: 'wrap' }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>Device
+                <select value={devId} onChange={e=> pickDevice(e.target.value)} style={select}>
+                  {devices.map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                </select>
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>From
+                <select value={aId} onChange={e=> setAId(e.target.value)} style={select}>
+                  {mine.map(r => <option key={r.id} value={r.id}>{revLabel(r)}</option>)}
+                </select>
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>To
+                <select value={bId} onChange={e=> setBId(e.target.value)} style={select}>
+                  {mine.map(r => <option key={r.id} value={r.id}>{revLabel(r)}</option>)}
+                </select>
+              </label>
+            </div>
+            <details style={{ marginBottom: 10, fontSize: 12 }}>
+              <summary style={{ cursor: 'pointer', opacity: 0.8 }}>{mine.length} revision{mine.length === 1 ? '' : 's'} of this device</summary>
+              <ul style={{ listStyle: 'none', padding: 0, margin: '6px 0 0', display: 'grid', gap: 4 }}>
+                {mine.map((r, i) => (
+                  <li key={r.id} style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                    <span>{revLabel(r)}</span>
+                    <span style={{ opacity: 0.6 }}>{Math.round(r.size / 1024)} KB{i === 0 ? ' · latest' : ''}</span>
+                    <button type="button" onClick={()=> onDelete(r)} disabled={mine.length <= 1} style={{ marginLeft: 'auto', background: 'transparent', color: '#fca5a5', border: '1px solid #2b3b5e', padding: '0 8px', borderRadius: 6, cursor: 'pointer', fontSize: 12 }}>Delete</button>
+                  </li>
+                ))}
+              </ul>
+            </details>
+            {error ? (
+              <div style={{ color: '#fca5a5' }}>{error}</div>
+            ) : aId === bId ? (
+              <div style={{ opacity: 0.7 }}>{mine.length > 1 ? 'Pick two different revisions to compare.' : 'Only one revision so far. Import an updated XML or add one from a file to compare.'}</div>
+            ) : !diff ? (
+              <div style={{ opacity: 0.7 }}>Comparing…</div>
+            ) : diff.length === 0 ? (
+              <div style={{ opacity: 0.7 }}>No differences in interfaces, aliases, address groups, policies or NAT.</div>
+            ) : (
+              SECTIONS.filter(s => diff.some(d => d.section === s)).map(s => {
+                const rows = diff.filter(d => d.section === s);
+                return (
+                  <div key={s} style={{ marginBottom: 12 }}>
+                    <div style={{ fontWeight: 600, marginBottom: 4 }}>{DIFF_SECTION_LABEL[s]} ({rows.length})</div>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                      <thead>
+                        <tr>
+                          <th style={{ ...th, width: 80 }}>Change</th>
+                          <th style={{ ...th, width: 260 }}>Object</th>
+                          <th style={th}>Details</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rows.map((d, i) => (
+                          <tr key={`${d.key}-${i}`}>
+                            <td style={td}><span style={{ background: KIND_COLOR[d.kind], padding: '0 6px', borderRadius: 999 }}>{d.kind}</span></td>
+                            <td style={{ ...td, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>{d.key}</td>
+                            <td style={td}>{d.details.map((x, j) => <div key={j}>{x}</div>)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
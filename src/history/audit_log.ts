@@ -0,0 +1,40 @@
+// src/history/audit_log.ts
+// Filtering and export for the per-map audit log (who changed what and when, see db.ts).
+// Entries can be narrowed to a subnet, a switch or a host, and by user, kind and text.
+
+import type { AuditEntry } from '../db';
+import { csvCell } from '../csv';
+
+export type AuditFilter = {
+  subnet?: string;
+  switchId?: string;
+  hostId?: string;
+  user?: string; // '' matches entries without a user name
+  kind?: string;
+  text?: string;
+};
+
+// "host.bind" → "host"; "manual.device.add" → "manual.device"
+export function auditKind(action: string): string {
+  const i = action.lastIndexOf('.');
+  return i > 0 ? action.slice(0, i) : action;
+}
+
+export function filterAuditLog(entries: AuditEntry[], f: AuditFilter): AuditEntry[] {
+  const text = f.text?.trim().toLowerCase();
+  return entries.filter(e =>
+    (f.subnet === undefined || e.subnet === f.subnet) &&
+    (f.switchId === undefined || e.switchId === f.switchId) &&
+    (f.hostId === undefined || e.hostId === f.hostId) &&
+    (f.user === undefined || (e.user ?? '') === f.user) &&
+    (f.kind === undefined || auditKind(e.action) === f.kind) &&
+    (!text || e.detail.toLowerCase().includes(text) || e.action.includes(text)));
+}
+
+/** names: switch and host ids → display names (ids of deleted objects are exported as-is) */
+export function auditLogToCsv(entries: AuditEntry[], names: Map<string, string> = new Map()): string {
+  const name = (id?: string) => (id ? names.get(id) ?? id : '');
+  const header = ['Time', 'User', 'Action', 'Subnet', 'Switch', 'Host', 'Details'];
+  const lines = entries.map(e => [new Date(e.at).toISOString(), e.user, e.action, e.subnet, name(e.switchId), name(e.hostId), e.detail].map(csvCell).join(','));
+  return [header.join(','), ...lines].join('\n');
+}
@@ -0,0 +1,181 @@
+// src/history/config_diff.ts
+// What changed between two revisions of a firewall config: interfaces, aliases, address-group
+// members, policies (with their resolved addresses) and NAT. Objects are matched by name;
+// list-valued fields report the members that were added and removed.
+
+import { formatNat, formatServiceEntry, type AddressGroupMember, type AliasMember, type Domain, type RawConfig } from '../parse_watchguard';
+import type { UnifiedPolicy } from '../xml_to_upolicy';
+import { csvCell } from '../csv';
+
+export type ConfigSide = { raw: RawConfig; domain: Domain; policies: UnifiedPolicy[] };
+
+export type DiffSection = 'interface' | 'alias' | 'address-group' | 'policy' | 'nat';
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export type DiffEntry = {
+  section: DiffSection;
+  kind: DiffKind;
+  key: string;
+  details: string[]; // "field: before → after" or "field: +added −removed"
+};
+
+export const DIFF_SECTION_LABEL: Record<DiffSection, string> = {
+  'interface': 'Interfaces',
+  'alias': 'Aliases',
+  'address-group': 'Address groups',
+  'policy': 'Policies',
+  'nat': 'NAT',
+};
+
+type Fields = Record<string, string | string[] | undefined>;
+
+// Per-policy aliases ("HTTPS-proxy.1.from") belong to their policy and are diffed there
+function isPolicyAlias(name: string): boolean {
+  return /\.\d+\.(from|to)$/.test(name);
+}
+
+function aliasMemberToken(m: AliasMember): string {
+  const neg = m.exclude ? 'except ' : '';
+  if (m.kind === 'alias-ref') return `${neg}${m.aliasName}`;
+  if (m.kind === 'address-ref') return `${neg}${m.addressName}`;
+  if (m.kind === 'interface-any') return `${neg}Any@${m.interface ?? m.zone ?? '?'}`;
+  return `${neg}${m.name}`;
+}
+
+function groupMemberToken(m: AddressGroupMember): string {
+  const neg = m.exclude ? 'except ' : '';
+  if (m.kind === 'host') return `${neg}${m.ip}`;
+  if (m.kind === 'network') return `${neg}${m.ip}/${m.mask}`;
+  if (m.kind === 'range') return `${neg}${m.from}-${m.to}`;
+  return `${neg}${m.domain}`;
+}
+
+// A policy's from/to list, with its own per-policy aliases opened up to what they contain
+function sideTokens(raw: RawConfig, names: string[]): string[] {
+  return names.flatMap(n => {
+    const a = isPolicyAlias(n) ? raw.aliasesByName.get(n) : undefined;
+    return a ? a.members.map(aliasMemberToken) : [n];
+  });
+}
+
+function describe(f: Fields): string[] {
+  const out: string[] = [];
+  for (const [k, v] of Object.entries(f)) {
+    if (v === undefined || v === '' || (Array.isArray(v) && !v.length)) continue;
+    out.push(`${k}: ${Array.isArray(v) ? v.join(', ') : v}`);
+  }
+  return out;
+}
+
+function compare(a: Fields, b: Fields): string[] {
+  const out: string[] = [];
+  for (const k of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const va = a[k], vb = b[k];
+    if (Array.isArray(va) || Array.isArray(vb)) {
+      const sa = new Set(va ?? []), sb = new Set(vb ?? []);
+      const added = [...sb].filter(x => !sa.has(x));
+      const removed = [...sa].filter(x => !sb.has(x));
+      if (!added.length && !removed.length) continue;
+      out.push(`${k}: ${[...added.map(x => `+${x}`), ...removed.map(x => `−${x}`)].join(', ')}`);
+    } else if ((va ?? '') !== (vb ?? '')) {
+      out.push(`${k}: ${va || '—'} → ${vb || '—'}`);
+    }
+  }
+  return out;
+}
+
+function diffByKey(section: DiffSection, a: Map<string, Fields>, b: Map<string, Fields>): DiffEntry[] {
+  const out: DiffEntry[] = [];
+  for (const [key, fa] of a) {
+    const fb = b.get(key);
+    if (!fb) { out.push({ section, kind: 'removed', key, details: describe(fa) }); continue; }
+    const details = compare(fa, fb);
+    if (details.length) out.push({ section, kind: 'changed', key, details });
+  }
+  for (const [key, fb] of b) if (!a.has(key)) out.push({ section, kind: 'added', key, details: describe(fb) });
+  return out;
+}
+
+function interfaceFields(d: Domain): Map<string, Fields> {
+  const m = new Map<string, Fields>();
+  for (const i of d.interfaces) {
+    m.set(i.name, { zone: i.zone, cidrs: i.cidrs, vlan: i.vlanId, ip: i.primaryIp, gateway: i.defaultGateway });
+  }
+  return m;
+}
+
+function aliasFields(raw: RawConfig): Map<string, Fields> {
+  const m = new Map<string, Fields>();
+  for (const a of raw.aliasesByName.values()) {
+    if (isPolicyAlias(a.name)) continue;
+    m.set(a.name, { members: a.members.map(aliasMemberToken) });
+  }
+  return m;
+}
+
+function groupFields(raw: RawConfig): Map<string, Fields> {
+  const m = new Map<string, Fields>();
+  for (const g of raw.addrGroupsByName.values()) m.set(g.name, { members: g.members.map(groupMemberToken) });
+  return m;
+}
+
+// Hosts are usually also present as /32 (or /128) cidrs; list each address once
+function addresses(cidrs: string[], hosts: string[], fqdns: string[] = []): string[] {
+  const have = new Set(cidrs.map(c => c.replace(/\/(32|128)$/, '')));
+  return [...cidrs, ...hosts.filter(h => !have.has(h)), ...fqdns];
+}
+
+function policyFields(side: ConfigSide): Map<string, Fields> {
+  const m = new Map<string, Fields>();
+  const seen = new Map<string, number>();
+  for (const p of side.policies) {
+    // Same-named policies (rare) are told apart by their position among namesakes
+    const n = (seen.get(p.name) ?? 0) + 1;
+    seen.set(p.name, n);
+    const nat = p.nat;
+    m.set(n > 1 ? `${p.name} (${n})` : p.name, {
+      action: p.action ?? 'allow',
+      enabled: p.enabled === false ? 'no' : 'yes',
+      service: p.service,
+      ports: p.serviceEntries?.map(formatServiceEntry),
+      from: sideTokens(side.raw, p.fromAliases),
+      to: sideTokens(side.raw, p.toAliases),
+      'source addresses': addresses(p.srcCidrs, p.srcHosts, p.srcFqdns),
+      'destination addresses': addresses(p.dstCidrs, p.dstHosts, p.dstFqdns),
+      nat: [
+        ...(nat?.dnat ? ['dynamic NAT'] : []),
+        ...(nat?.oneToOne ? ['1-to-1 NAT'] : []),
+        ...(nat?.snat ?? []).map(s => `SNAT ${s}`),
+      ],
+      translations: nat?.translations?.map(formatNat),
+    });
+  }
+  return m;
+}
+
+function natFields(raw: RawConfig): Map<string, Fields> {
+  const m = new Map<string, Fields>();
+  for (const s of raw.snatActions.values()) {
+    m.set(`SNAT ${s.name}`, { members: s.members.map(x => formatNat({ kind: 'static', rule: s.name, ...x })) });
+  }
+  // 1-to-1 and dynamic NAT rules have no names; each rule is its own key
+  for (const r of raw.oneToOneNat) m.set(formatNat({ kind: 'one-to-one', ...r }), { interface: r.iface });
+  for (const r of raw.dynamicNat) m.set(formatNat({ kind: 'dynamic', ...r }), {});
+  return m;
+}
+
+export function diffConfigs(a: ConfigSide, b: ConfigSide): DiffEntry[] {
+  return [
+    ...diffByKey('interface', interfaceFields(a.domain), interfaceFields(b.domain)),
+    ...diffByKey('alias', aliasFields(a.raw), aliasFields(b.raw)),
+    ...diffByKey('address-group', groupFields(a.raw), groupFields(b.raw)),
+    ...diffByKey('policy', policyFields(a), policyFields(b)),
+    ...diffByKey('nat', natFields(a.raw), natFields(b.raw)),
+  ];
+}
+
+export function configDiffToCsv(entries: DiffEntry[]): string {
+  const header = ['Section', 'Change', 'Object', 'Details'];
+  const lines = entries.map(e => [DIFF_SECTION_LABEL[e.section], e.kind, e.key, e.details.join('; ')].map(csvCell).join(','));
+  return [header.join(','), ...lines].join('\n');
+}
@@ -0,0 +1,191 @@
+import React from 'react';
+import { deviceNetworks, planSubnetChanges, usageTotal, type SubnetChange } from './device_update';
+import { parseWatchGuardXmlText, toDomain, type Domain } from '../parse_watchguard';
+import { exportDbBytes, getMapXmlText, getSubnetUsageFor, listMapDevices, migrateSubnetData, updateMapDevice, withoutHistory, PRIMARY_DEVICE, type SubnetUsage } from '../db';
+
+type Slot = { devId: string; name: string; xml: string };
+type Plan = { fileName: string; xmlText: string; changes: SubnetChange[]; added: string[]; removed: string[]; targets: string[] };
+
+function usageText(u: SubnetUsage): string {
+  return [
+    u.annotations ? 'note' : '',
+    u.switches ? `${u.switches} switch${u.switches === 1 ? '' : 'es'}` : '',
+    u.hosts ? `${u.hosts} host${u.hosts === 1 ? '' : 's'}` : '',
+    u.vlans ? `${u.vlans} VLAN${u.vlans === 1 ? '' : 's'}` : '',
+  ].filter(Boolean).join(', ');
+}
+
+export default function DeviceUpdate(props: {
+  mapId: string;
+  onClose: ()=>void;
+  onApplied?: (payload: { bytes: Uint8Array; summary: string })=>void;
+}) {
+  const { mapId, onClose, onApplied } = props;
+  const [slots, setSlots] = React.useState<Slot[] | null>(null);
+  const [devId, setDevId] = React.useState('');
+  const [plan, setPlan] = React.useState<Plan | null>(null);
+  const [moveTo, setMoveTo] = React.useState<Map<string, string>>(new Map());
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
+
+  React.useEffect(() => {
+    (async () => {
+      const devs = await listMapDevices(mapId);
+      const out: Slot[] = devs.map((d, i) => ({ devId: d.devId, name: d.name || `Device ${i + 1}`, xml: d.xml }));
+      // Older maps may only have the primary XML
+      if (!out.length) {
+        const primary = await getMapXmlText(mapId);
+        if (primary?.xmlText) out.push({ devId: PRIMARY_DEVICE, name: primary.xmlName || primary.name, xml: primary.xmlText });
+      }
+      setSlots(out);
+      setDevId(out[0]?.devId ?? '');
+    })().catch(e => setError(String(e?.message ?? e)));
+  }, [mapId]);
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    const slot = slots?.find(s => s.devId === devId);
+    if (!file || !slot || !slots) return;
+    setError(null); setPlan(null);
+    try {
+      const xmlText = await file.text();
+      const newD = toDomain(await parseWatchGuardXmlText(xmlText));
+      const oldD = toDomain(await parseWatchGuardXmlText(slot.xml));
+      // Networks other devices still draw keep their data; skip copies of this device's XML
+      const stillDrawn = new Set<string>();
+      const primary = await getMapXmlText(mapId);
+      const others = [...slots.filter(s => s.devId !== devId).map(s => s.xml), primary?.xmlText ?? ''].filter(x => x && x !== slot.xml);
+      for (const x of others) {
+        const d: Domain = toDomain(await parseWatchGuardXmlText(x));
+        deviceNetworks(d).forEach(n => stillDrawn.add(n.cidr));
+      }
+      const usage = await getSubnetUsageFor(mapId);
+      const changes = planSubnetChanges(oldD, newD, usage, stillDrawn);
+      const before = new Set(deviceNetworks(oldD).map(n => n.cidr));
+      const after = deviceNetworks(newD).map(n => n.cidr);
+      setPlan({
+        fileName: file.name,
+        xmlText,
+        changes,
+        added: after.filter(c => !before.has(c)),
+        removed: Array.from(before).filter(c => !after.includes(c)),
+        targets: after,
+      });
+      setMoveTo(new Map(changes.filter(c => c.suggested).map(c => [c.cidr, c.suggested!])));
+    } catch (err: any) {
+      setError(`Could not read ${file.name}: ${String(err?.message ?? err)}`);
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  }
+
+  async function apply() {
+    if (!plan) return;
+    setBusy(true); setError(null);
+    try {
+      const snap = await exportDbBytes();
+      let moved = 0;
+      // Undone as a whole through the snapshot (onApplied), not step by step
+      await withoutHistory(async () => {
+        await updateMapDevice(mapId, devId, plan.xmlText);
+        for (const [from, to] of moveTo) {
+          if (!to) continue;
+          await migrateSubnetData(mapId, from, to);
+          moved++;
+        }
+      });
+      const name = slots?.find(s => s.devId === devId)?.name ?? 'device';
+      const summary = `Updated ${name} from ${plan.fileName}: +${plan.added.length} / −${plan.removed.length} networks, ${moved} subnet${moved === 1 ? '' : 's'} migrated`;
+      onApplied?.({ bytes: snap, summary });
+    } catch (err: any) {
+      setError(`Update failed: ${String(err?.message ?? err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const th: React.CSSProperties = { textAlign: 'left', padding: '4px 6px', borderBottom: '1px solid #1f2a44', fontWeight: 600, background: '#0f1a2b' };
+  const td: React.CSSProperties = { padding: '4px 6px', borderBottom: '1px solid #1f2a44', verticalAlign: 'top' };
+  const select: React.CSSProperties = { background: '#0b1220', color: '#e6edf7', border: '1px solid #2b3b5e', borderRadius: 6, padding: '2px 6px' };
+  const mono: React.CSSProperties = { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1000, background: 'rgba(0,0,0,0.45)', display: 'grid', placeItems: 'center' }} onClick={onClose}>
+      <div style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 900, maxHeight: '80vh', overflow: 'auto' }} onClick={e=>e.stopPropagation()}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>Update device from XML</div>
+          <button type="button" onClick={onClose} style={{ marginLeft: 'auto', background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Close</button>
+        </div>
+        {!slots ? (
+          <div style={{ opacity: 0.7 }}>Loading devices…</div>
+        ) : !slots.length ? (
+          <div style={{ opacity: 0.7 }}>This map has no firewall XML to update.</div>
+        ) : (
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 10, fontSize: 12 }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>Device
+              <select value={devId} onChange={e=> { setDevId(e.target.value); setPlan(null); }} style={select}>
+                {slots.map(s => <option key={s.devId} value={s.devId}>{s.name}</option>)}
+              </select>
+            </label>
+            <button type="button" onClick={()=> fileRef.current?.click()} style={{ background: '#1d4ed8', color: 'white', border: 'none', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Choose new XML…</button>
+            <input ref={fileRef} type="file" accept=".xml" style={{ display: 'none' }} onChange={onFile} />
+            {plan && <span style={{ opacity: 0.8 }}>{plan.fileName}</span>}
+          </div>
+        )}
+        {error && <div style={{ color: '#fca5a5', marginBottom: 8 }}>{error}</div>}
+        {plan && (
+          <div style={{ display: 'grid', gap: 10, fontSize: 12 }}>
+            <div>
+              Networks: <b>+{plan.added.length}</b> added, <b>−{plan.removed.length}</b> removed.
+              {plan.added.length > 0 && <div style={{ ...mono, opacity: 0.8 }}>+ {plan.added.join(', ')}</div>}
+              {plan.removed.length > 0 && <div style={{ ...mono, opacity: 0.8 }}>− {plan.removed.join(', ')}</div>}
+            </div>
+            {plan.changes.length === 0 ? (
+              <div style={{ opacity: 0.7 }}>No annotated subnet or LAN data is affected.</div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    <th style={th}>Subnet</th>
+                    <th style={th}>Interface</th>
+                    <th style={th}>Data</th>
+                    <th style={th}>Status</th>
+                    <th style={th}>Move data to</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.changes.map(c => (
+                    <tr key={c.cidr}>
+                      <td style={{ ...td, ...mono }}>{c.cidr}</td>
+                      <td style={td}>{c.iface ?? <span style={{ opacity: 0.5 }}>route</span>}</td>
+                      <td style={td}>{usageText(c.usage)}</td>
+                      <td style={td}>
+                        <span style={{ background: c.kind === 'renumbered' ? '#78350f' : '#7f1d1d', padding: '0 6px', borderRadius: 999 }}>{c.kind}</span>
+                      </td>
+                      <td style={td}>
+                        <select value={moveTo.get(c.cidr) ?? ''} onChange={e=> setMoveTo(prev => { const n = new Map(prev); if (e.target.value) n.set(c.cidr, e.target.value); else n.delete(c.cidr); return n; })} style={select}>
+                          <option value="">(leave on {c.cidr})</option>
+                          {plan.targets.filter(t => t.includes(':') === c.cidr.includes(':')).map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <div style={{ opacity: 0.7 }}>
+              {plan.changes.some(c => usageTotal(c.usage) > 0) && 'Data left on a vanished subnet stays in the map and reappears if the network comes back. '}
+              The previous XML stays in the revision history.
+            </div>
+            <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+              <button type="button" disabled={busy} onClick={apply} style={{ background: busy ? '#374151' : '#16a34a', color: 'white', border: 'none', padding: '6px 10px', borderRadius: 6, cursor: 'pointer' }}>
+                {busy ? 'Updating…' : `Update device${moveTo.size ? ` and migrate ${moveTo.size} subnet${moveTo.size === 1 ? '' : 's'}` : ''}`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
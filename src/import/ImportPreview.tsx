@@ -1,6 +1,7 @@
 import React from 'react';
 import { parseExcelToCandidates, dedupeCounts, type ParsedCandidates, normText } from './excel';
-import { ensureDbReady, listAllLanHosts, listAllLanVlans, listAllMapSwitches, upsertLanHost, upsertLanSwitch, upsertLanVlan, exportDbBytes, type LanHost, type LanVlan, type LanSwitch } from '../db';
+import { cidrContainsIp, prefixLen, bucketCidr, compareIp, isIp } from '../ip';
+import { ensureDbReady, listAllLanHosts, listAllLanVlans, listAllMapSwitches, upsertLanHost, upsertLanSwitch, upsertLanVlan, exportDbBytes, withTransaction, type LanHost, type LanVlan, type LanSwitch } from '../db';
 
 export default function ImportPreview(props: { mapId: string; onClose: ()=>void; allowedCidrs?: string[]; onApplied?: (payload: { bytes: Uint8Array; summary: string })=>void }) {
   const { mapId, onClose, allowedCidrs, onApplied } = props;
@@ -37,13 +38,6 @@ export default function ImportPreview(props: { mapId: string; onClose: ()=>void;
   }, [mapId]);
 
   type Counts = { total: number; unique: number; removed: number };
-  // Minimal IPv4 helpers for subnet matching
-  function ipToInt(ip: string): number { const [a,b,c,d] = ip.split('.').map(x=>parseInt(x,10)); return (((a<<24)>>>0) + (b<<16) + (c<<8) + d)>>>0; }
-  function maskBits(bits: number): number { return bits===0 ? 0 : (~0 << (32-bits))>>>0; }
-  function intToIp(n: number): string { return [(n>>>24)&255,(n>>>16)&255,(n>>>8)&255,n&255].join('.'); }
-  function prefixLen(cidr: string): number { const p = parseInt(cidr.split('/')[1]||'32',10); return Number.isFinite(p)?p:32; }
-  function contains(cidr: string, ip: string): boolean { const [n,ps] = cidr.split('/'); const m = maskBits(parseInt(ps||'32',10)); return (ipToInt(ip)&m) === (ipToInt(n)&m); }
-  function to24(ip: string): string { const base = ipToInt(ip) & maskBits(24); return `${intToIp(base)}/24`; }
 
   const isSheetIncluded = React.useCallback((name: string) => {
     if (!includedSheets) return true;
@@ -52,9 +46,9 @@ export default function ImportPreview(props: { mapId: string; onClose: ()=>void;
   }, [includedSheets]);
   const ipInAllowed = React.useCallback((ip?: string) => {
     if (!filterToMap) return true;
-    if (!ip || !/(^\d{1,3}(?:\.\d{1,3}){3}$)/.test(ip)) return false;
+    if (!ip || !isIp(ip)) return false;
     const arr = allowedCidrs || [];
-    for (const c of arr) { if (contains(c, ip)) return true; }
+    for (const c of arr) { if (cidrContainsIp(c, ip)) return true; }
     return false;
   }, [filterToMap, allowedCidrs]);
 
@@ -87,12 +81,12 @@ export default function ImportPreview(props: { mapId: string; onClose: ()=>void;
     const out = new Set<string>();
     for (const h of filtered.hosts) {
       const ip = (h as any).ip as string | undefined;
-      if (!ip || !/(^\d{1,3}(?:\.\d{1,3}){3}$)/.test(ip)) continue;
+      if (!ip || !isIp(ip)) continue;
       let inKnown = false;
-      for (const c of known) { if (contains(c, ip)) { inKnown = true; break; } }
-      if (!inKnown) out.add(to24(ip));
+      for (const c of known) { if (cidrContainsIp(c, ip)) { inKnown = true; break; } }
+      if (!inKnown) out.add(bucketCidr(ip));
     }
-    return Array.from(out).sort();
+    return Array.from(out).sort(compareIp);
   }, [filtered, allowedCidrs]);
 
   const hostCounts: Counts | null = React.useMemo(() => filtered ? dedupeCounts(filtered.hosts) : null, [filtered]);
@@ -173,22 +167,21 @@ export default function ImportPreview(props: { mapId: string; onClose: ()=>void;
     setTimeout(()=> URL.revokeObjectURL(url), 5000);
   }
 
-  function netAddr(cidr: string): number { const [n,ps] = cidr.split('/'); const m = maskBits(parseInt(ps||'32',10)); return (ipToInt(n) & m); }
   function bestSubnetForIp(ip?: string): { cidr: string; source: 'map'|'sheet'; prefix: number } | null {
-    if (!ip || !/^(\d{1,3}\.){3}\d{1,3}$/.test(ip)) return null;
+    if (!ip || !isIp(ip)) return null;
     const sheetNets = filtered?.subnets?.map(s=>s.cidr) || [];
     const mapNets = allowedCidrs || [];
     let best: { cidr: string; source: 'map'|'sheet'; prefix: number } | null = null;
     // Check sheet-provided subnets
     for (const c of sheetNets) {
-      if (contains(c, ip)) {
+      if (cidrContainsIp(c, ip)) {
         const p = prefixLen(c);
         if (!best || p > best.prefix) best = { cidr: c, source: 'sheet', prefix: p };
       }
     }
     // Also check map (firewall interfaces)
     for (const c of mapNets) {
-      if (contains(c, ip)) {
+      if (cidrContainsIp(c, ip)) {
         const p = prefixLen(c);
         if (!best || p > best.prefix) best = { cidr: c, source: 'map', prefix: p };
       }
@@ -229,44 +222,42 @@ export default function ImportPreview(props: { mapId: string; onClose: ()=>void;
         return null; // ambiguous
       }
       // 3) Decide what to insert (uniques with New classification)
+      // One transaction for the whole apply: a single persist, and nothing half-written on failure.
+      // Rows without a subnet are skipped; a failed write rolls back everything.
       let addHosts = 0, addSwitches = 0, addVlans = 0, skipHosts = 0, skipSwitches = 0, skipVlans = 0;
-      // Hosts
-      for (const [key, rows] of hostGroups) {
-        const badge = badgeForKey(key, dbHostIdx).label; if (badge !== 'New') continue;
-        // Prefer a row with an IP for placement
-        const rAny = (rows as any[]);
-        const withIp = rAny.find(x=> x.ip) || rAny[0];
-        const ip = withIp?.ip as string | undefined;
-        const tgt = bestSubnetForIp(ip);
-        if (!tgt) { skipHosts++; continue; }
-        try {
+      await withTransaction(async () => {
+        // Hosts
+        for (const [key, rows] of hostGroups) {
+          const badge = badgeForKey(key, dbHostIdx).label; if (badge !== 'New') continue;
+          // Prefer a row with an IP for placement
+          const rAny = (rows as any[]);
+          const withIp = rAny.find(x=> x.ip) || rAny[0];
+          const ip = withIp?.ip as string | undefined;
+          const tgt = bestSubnetForIp(ip);
+          if (!tgt) { skipHosts++; continue; }
           await upsertLanHost({ mapId, subnet: tgt.cidr, ip: ip, mac: withIp?.mac, name: withIp?.name, source: 'import' });
           addHosts++;
-        } catch (e) { console.error('Apply host failed', key, e); skipHosts++; }
-      }
-      // Switches
-      for (const [key, rows] of switchGroups) {
-        const badge = badgeForKey(key, dbSwitchIdx).label; if (badge !== 'New') continue;
-        const r0: any = rows[0] as any;
-        const ip = r0?.mgmt as string | undefined;
-        const tgt = bestSubnetForIp(ip);
-        if (!tgt) { skipSwitches++; continue; }
-        try {
+        }
+        // Switches
+        for (const [key, rows] of switchGroups) {
+          const badge = badgeForKey(key, dbSwitchIdx).label; if (badge !== 'New') continue;
+          const r0: any = rows[0] as any;
+          const ip = r0?.mgmt as string | undefined;
+          const tgt = bestSubnetForIp(ip);
+          if (!tgt) { skipSwitches++; continue; }
           await upsertLanSwitch({ mapId, subnet: tgt.cidr, name: r0?.name, model: r0?.model, mgmtIp: r0?.mgmt });
           addSwitches++;
-        } catch (e) { console.error('Apply switch failed', key, e); skipSwitches++; }
-      }
-      // VLANs (heuristic: single subnet detected on the same sheet)
-      for (const [key, rows] of vlanGroups) {
-        const badge = badgeForKey(key, dbVlanIdx).label; if (badge !== 'New') continue;
-        const r0: any = rows[0] as any;
-        const subnet = guessSubnetForSheet(r0?.sheet);
-        if (!subnet) { skipVlans++; continue; }
-        try {
+        }
+        // VLANs (heuristic: single subnet detected on the same sheet)
+        for (const [key, rows] of vlanGroups) {
+          const badge = badgeForKey(key, dbVlanIdx).label; if (badge !== 'New') continue;
+          const r0: any = rows[0] as any;
+          const subnet = guessSubnetForSheet(r0?.sheet);
+          if (!subnet) { skipVlans++; continue; }
           await upsertLanVlan({ mapId, subnet, vid: r0?.vid, name: r0?.name });
           addVlans++;
-        } catch (e) { console.error('Apply vlan failed', key, e); skipVlans++; }
-      }
+        }
+      });
       const summary = `added hosts=${addHosts}, switches=${addSwitches}, vlans=${addVlans}; skipped hosts=${skipHosts}, switches=${skipSwitches}, vlans=${skipVlans}`;
       console.debug('[ImportPreview] Apply summary:', summary);
       onApplied && onApplied({ bytes: snap, summary });
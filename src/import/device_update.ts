@@ -0,0 +1,70 @@
+// src/import/device_update.ts
+// Re-importing a device's XML: which networks that carry annotations or LAN data disappeared,
+// and where they most likely went. A network on the same interface (or overlapping one that is
+// new in this config) is suggested as the renumbered CIDR; otherwise the network vanished.
+
+import { isHostCidr, overlaps } from '../ip';
+import type { Domain } from '../parse_watchguard';
+import type { SubnetUsage } from '../db';
+
+export type DeviceNetwork = { cidr: string; iface?: string };
+
+export type SubnetChange = {
+  cidr: string;
+  kind: 'renumbered' | 'vanished';
+  iface?: string; // interface the network was on in the old config
+  suggested?: string; // new CIDR to move the data to
+  usage: SubnetUsage;
+};
+
+const family = (cidr: string) => (cidr.includes(':') ? 6 : 4);
+
+// Networks drawn for a device: interface networks and static-route destinations
+export function deviceNetworks(d: Domain): DeviceNetwork[] {
+  const out: DeviceNetwork[] = [];
+  const seen = new Set<string>();
+  for (const i of d.interfaces) {
+    for (const c of i.cidrs) {
+      if (isHostCidr(c) || seen.has(c)) continue;
+      seen.add(c);
+      out.push({ cidr: c, iface: i.name });
+    }
+  }
+  for (const r of d.routes) {
+    if (r.kind === 'default' || seen.has(r.dest)) continue;
+    seen.add(r.dest);
+    out.push({ cidr: r.dest });
+  }
+  return out;
+}
+
+export const usageTotal = (u: SubnetUsage) => u.annotations + u.switches + u.hosts + u.vlans;
+
+/**
+ * Networks of the old config that carry data and are gone from the new one.
+ * stillDrawn: CIDRs other devices of the map still provide (their data stays where it is).
+ */
+export function planSubnetChanges(oldD: Domain, newD: Domain, usage: Map<string, SubnetUsage>, stillDrawn: Set<string> = new Set()): SubnetChange[] {
+  const before = deviceNetworks(oldD);
+  const after = deviceNetworks(newD);
+  const afterSet = new Set(after.map(n => n.cidr));
+  const beforeSet = new Set(before.map(n => n.cidr));
+  const fresh = after.filter(n => !beforeSet.has(n.cidr));
+  const taken = new Set<string>();
+  const out: SubnetChange[] = [];
+
+  for (const n of before) {
+    const u = usage.get(n.cidr);
+    if (!u || !usageTotal(u) || afterSet.has(n.cidr) || stillDrawn.has(n.cidr)) continue;
+    const free = (c: DeviceNetwork) => family(c.cidr) === family(n.cidr) && !taken.has(c.cidr);
+    // Same interface first (keeping secondary addresses in order), then any new overlapping network
+    const oldOnIface = before.filter(b => b.iface && b.iface === n.iface && family(b.cidr) === family(n.cidr));
+    const newOnIface = fresh.filter(c => c.iface && c.iface === n.iface && free(c));
+    const byIface = newOnIface[Math.min(oldOnIface.findIndex(b => b.cidr === n.cidr), newOnIface.length - 1)];
+    const byOverlap = fresh.find(c => free(c) && overlaps(c.cidr, n.cidr));
+    const target = byIface ?? byOverlap;
+    if (target) taken.add(target.cidr);
+    out.push({ cidr: n.cidr, kind: target ? 'renumbered' : 'vanished', iface: n.iface, suggested: target?.cidr, usage: u });
+  }
+  return out;
+}
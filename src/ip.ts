@@ -1,92 +1,298 @@
 // src/ip.ts
+// IPv4 + IPv6 address math. Addresses are held as BigInt so both families share one code path;
+// helpers never match across families (a v4 CIDR does not contain a v6 host).
 
-/** Parse dotted IPv4 to 32-bit unsigned integer */
-function ipToInt(ip: string): number {
-  const parts = ip.trim().split(".");
-  if (parts.length !== 4) throw new Error(`Bad IPv4: ${ip}`);
-  let n = 0;
+export type IpFamily = 4 | 6;
+export type ParsedIp = { family: IpFamily; value: bigint };
+export type ParsedCidr = { family: IpFamily; prefix: number; network: bigint; last: bigint };
+
+const BITS: Record<IpFamily, number> = { 4: 32, 6: 128 };
+
+// ---------------- parsing ----------------
+
+function parseV4(ip: string): bigint | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  let n = 0n;
   for (const p of parts) {
+    if (!/^\d{1,3}$/.test(p)) return null;
     const v = Number(p);
-    if (!Number.isInteger(v) || v < 0 || v > 255) throw new Error(`Bad IPv4: ${ip}`);
-    n = (n << 8) | v;
+    if (v > 255) return null;
+    n = (n << 8n) | BigInt(v);
+  }
+  return n;
+}
+
+function parseV6(ip: string): bigint | null {
+  let s = ip.split('%')[0].toLowerCase(); // drop zone id (fe80::1%eth0)
+  if (s.startsWith('[') && s.endsWith(']')) s = s.slice(1, -1);
+  // Embedded IPv4 tail (::ffff:192.0.2.1) becomes two hex groups
+  if (s.includes('.')) {
+    const at = s.lastIndexOf(':');
+    const v4 = parseV4(s.slice(at + 1));
+    if (v4 === null) return null;
+    s = `${s.slice(0, at + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+  const halves = s.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  let n = 0n;
+  for (const g of groups) {
+    if (!/^[0-9a-f]{1,4}$/.test(g)) return null;
+    n = (n << 16n) | BigInt(parseInt(g, 16));
+  }
+  return n;
+}
+
+function tryParseIp(ip: string): ParsedIp | null {
+  const s = ip.trim();
+  if (s.includes(':')) { const v = parseV6(s); return v === null ? null : { family: 6, value: v }; }
+  const v = parseV4(s);
+  return v === null ? null : { family: 4, value: v };
+}
+
+/** Parse an IPv4 or IPv6 address; throws on bad input */
+export function parseIp(ip: string): ParsedIp {
+  const r = tryParseIp(ip);
+  if (!r) throw new Error(`Bad IP: ${ip}`);
+  return r;
+}
+
+/** 4, 6, or null when the string is not an address */
+export function ipFamily(ip: string): IpFamily | null {
+  return tryParseIp(ip)?.family ?? null;
+}
+
+export function isIp(ip: string): boolean {
+  return tryParseIp(ip) !== null;
+}
+
+/** Format an address value; IPv6 uses the RFC 5952 compressed form */
+export function formatIp(family: IpFamily, value: bigint): string {
+  if (family === 4) return [24n, 16n, 8n, 0n].map(s => String((value >> s) & 255n)).join('.');
+  const groups: number[] = [];
+  for (let i = 7; i >= 0; i--) groups.push(Number((value >> BigInt(i * 16)) & 0xffffn));
+  // Longest run of zero groups (length >= 2) collapses to ::
+  let bestAt = -1, bestLen = 0;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) { i++; continue; }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLen && j - i >= 2) { bestAt = i; bestLen = j - i; }
+    i = j;
   }
-  return n >>> 0;
+  const hex = groups.map(g => g.toString(16));
+  if (bestAt < 0) return hex.join(':');
+  return `${hex.slice(0, bestAt).join(':')}::${hex.slice(bestAt + bestLen).join(':')}`;
+}
+
+/** Canonical text for an address (IPv6 compressed, lowercase) */
+export function normalizeIp(ip: string): string {
+  const p = parseIp(ip);
+  return formatIp(p.family, p.value);
 }
 
-/** Convert dotted mask (e.g., 255.255.255.0) to prefix length; pass through if already "24" */
-function maskToPrefix(mask: string): number {
-  if (!mask.includes(".")) {
-    const pref = Number(mask);
-    if (Number.isFinite(pref)) return pref;
+/** Convert dotted mask (255.255.255.0) or prefix ("24", "/64") to prefix length */
+export function maskToPrefix(mask: string, family: IpFamily = 4): number {
+  const m = mask.trim().replace(/^\//, '');
+  if (/^\d{1,3}$/.test(m)) {
+    const pref = Number(m);
+    if (pref <= BITS[family]) return pref;
     throw new Error(`Bad mask: ${mask}`);
   }
-  const m = ipToInt(mask);
-  // count leading 1s
+  const v = parseV4(m);
+  if (family !== 4 || v === null) throw new Error(`Bad mask: ${mask}`);
   let bits = 0;
-  for (let i = 31; i >= 0; i--) {
-    if ((m & (1 << i)) !== 0) bits++;
+  for (let i = 31n; i >= 0n; i--) {
+    if ((v >> i) & 1n) bits++;
     else break;
   }
   return bits;
 }
 
-/** Build a mask integer from prefix length */
-function prefixToMask(prefix: number): number {
-  if (prefix <= 0) return 0 >>> 0;
-  if (prefix >= 32) return 0xffffffff >>> 0;
-  const m = (0xffffffff << (32 - prefix)) >>> 0;
-  return m >>> 0;
+function maskOf(family: IpFamily, prefix: number): bigint {
+  const total = BigInt(BITS[family]);
+  const all = (1n << total) - 1n;
+  return prefix <= 0 ? 0n : (all << (total - BigInt(prefix))) & all;
 }
 
-/** Parse a CIDR "a.b.c.d/nn" to { ipInt, prefix, maskInt, networkInt } */
-function parseCIDR(cidr: string) {
-  const [ipStr, pStr] = cidr.trim().split("/");
-  if (!ipStr || pStr === undefined) throw new Error(`Bad CIDR: ${cidr}`);
-  const ipInt = ipToInt(ipStr);
-  const prefix = Number(pStr);
-  if (!Number.isInteger(prefix) || prefix < 0 || prefix > 32) throw new Error(`Bad CIDR prefix: ${cidr}`);
-  const maskInt = prefixToMask(prefix);
-  const networkInt = (ipInt & maskInt) >>> 0;
-  return { ipInt, prefix, maskInt, networkInt };
+/** Parse "addr/prefix" (a bare address is a host route) to network bounds */
+export function parseCidr(cidr: string): ParsedCidr {
+  const [ipStr, pStr] = cidr.trim().split('/');
+  const ip = parseIp(ipStr);
+  const prefix = pStr === undefined ? BITS[ip.family] : maskToPrefix(pStr, ip.family);
+  const mask = maskOf(ip.family, prefix);
+  const network = ip.value & mask;
+  const last = network | (((1n << BigInt(BITS[ip.family])) - 1n) ^ mask);
+  return { family: ip.family, prefix, network, last };
 }
 
-/** Return normalized network string "a.b.c.d/nn" from IP + dotted mask or prefix */
+// ---------------- CIDR helpers ----------------
+
+/** Return normalized network string "addr/nn" from IP + dotted mask or prefix */
 export function networkOf(ip: string, mask: string): string {
-  const ipInt = ipToInt(ip);
-  const prefix = maskToPrefix(mask);
-  const maskInt = prefixToMask(prefix);
-  const net = (ipInt & maskInt) >>> 0;
-  const a = (net >>> 24) & 255;
-  const b = (net >>> 16) & 255;
-  const c = (net >>> 8) & 255;
-  const d = net & 255;
-  return `${a}.${b}.${c}.${d}/${prefix}`;
+  const p = parseIp(ip);
+  const prefix = maskToPrefix(mask, p.family);
+  return `${formatIp(p.family, p.value & maskOf(p.family, prefix))}/${prefix}`;
+}
+
+/** "10.1.2.3/24" → "10.1.2.0/24"; bare addresses become host CIDRs */
+export function normalizeCidr(cidr: string): string {
+  const c = parseCidr(cidr);
+  return `${formatIp(c.family, c.network)}/${c.prefix}`;
+}
+
+/** Host CIDR for an address: /32 or /128 */
+export function hostCidr(ip: string): string {
+  const p = parseIp(ip);
+  return `${formatIp(p.family, p.value)}/${BITS[p.family]}`;
+}
+
+/** Prefix length of a CIDR; bare addresses (or unparsable input) count as hosts */
+export function prefixLen(cidr: string): number {
+  const [ip, p] = cidr.split('/');
+  const bits = ip.includes(':') ? 128 : 32;
+  if (p === undefined) return bits;
+  const n = parseInt(p, 10);
+  return Number.isFinite(n) ? n : bits;
+}
+
+export function isHostCidr(cidr: string): boolean {
+  return prefixLen(cidr) === (cidr.includes(':') ? 128 : 32);
+}
+
+/** Bucket an address into its display network: /24 for IPv4, /64 for IPv6 */
+export function bucketCidr(ipOrCidr: string): string {
+  const ip = ipOrCidr.split('/')[0];
+  return networkOf(ip, ip.includes(':') ? '64' : '24');
 }
 
 /** Do two CIDRs overlap at all? */
 export function overlaps(cidrA: string, cidrB: string): boolean {
   try {
-    const A = parseCIDR(cidrA);
-    const B = parseCIDR(cidrB);
-
-    // Use the shorter mask (smaller prefix) to compare network roots
-    const prefix = Math.min(A.prefix, B.prefix);
-    const mask = prefixToMask(prefix);
-    const aNet = (A.ipInt & mask) >>> 0;
-    const bNet = (B.ipInt & mask) >>> 0;
-    return aNet === bNet;
+    const A = parseCidr(cidrA);
+    const B = parseCidr(cidrB);
+    return A.family === B.family && A.network <= B.last && B.network <= A.last;
   } catch {
     return false;
   }
 }
 
-/** Is a single IPv4 inside a CIDR? */
+/** Is a single address inside a CIDR? */
 export function cidrContainsIp(cidr: string, ip: string): boolean {
   try {
-    const { maskInt, networkInt } = parseCIDR(cidr);
-    const ipInt = ipToInt(ip);
-    return ((ipInt & maskInt) >>> 0) === networkInt;
+    const c = parseCidr(cidr);
+    const p = parseIp(ip);
+    return c.family === p.family && p.value >= c.network && p.value <= c.last;
   } catch {
     return false;
   }
 }
+
+/** Is CIDR inner entirely inside CIDR outer? */
+export function cidrContains(outer: string, inner: string): boolean {
+  try {
+    const o = parseCidr(outer);
+    const i = parseCidr(inner);
+    return o.family === i.family && i.network >= o.network && i.last <= o.last;
+  } catch {
+    return false;
+  }
+}
+
+// ---------------- ranges and set difference ----------------
+
+// Largest aligned blocks first: the minimal CIDR cover of [start, end]
+function spanToCidrs(family: IpFamily, start: bigint, end: bigint): string[] {
+  const out: string[] = [];
+  const total = BITS[family];
+  let cur = start;
+  while (cur <= end) {
+    let hostBits = 0;
+    while (hostBits < total) {
+      const size = 1n << BigInt(hostBits + 1);
+      if ((cur & (size - 1n)) !== 0n || cur + size - 1n > end) break;
+      hostBits++;
+    }
+    out.push(`${formatIp(family, cur)}/${total - hostBits}`);
+    cur += 1n << BigInt(hostBits);
+  }
+  return out;
+}
+
+/** Minimal CIDR set covering an inclusive address range; throws on bad or mixed-family input */
+export function rangeToCidrs(from: string, to: string): string[] {
+  const a = parseIp(from), b = parseIp(to);
+  if (a.family !== b.family) throw new Error(`Mixed-family range: ${from}-${to}`);
+  return a.value <= b.value ? spanToCidrs(a.family, a.value, b.value) : spanToCidrs(a.family, b.value, a.value);
+}
+
+function spansOf(cidrs: string[], family: IpFamily): Array<[bigint, bigint]> {
+  const spans: Array<[bigint, bigint]> = [];
+  for (const c of cidrs) {
+    try { const p = parseCidr(c); if (p.family === family) spans.push([p.network, p.last]); } catch { /* skip unparsable */ }
+  }
+  spans.sort((x, y) => (x[0] < y[0] ? -1 : x[0] > y[0] ? 1 : 0));
+  const merged: Array<[bigint, bigint]> = [];
+  for (const [s, e] of spans) {
+    const last = merged[merged.length - 1];
+    if (last && s <= last[1] + 1n) { if (e > last[1]) last[1] = e; }
+    else merged.push([s, e]);
+  }
+  return merged;
+}
+
+/** Everything in `include` that is not in `exclude`, as a minimal CIDR set (IPv4 first, then IPv6) */
+export function subtractCidrs(include: string[], exclude: string[]): string[] {
+  const out: string[] = [];
+  for (const family of [4, 6] as IpFamily[]) {
+    let spans = spansOf(include, family);
+    for (const [xs, xe] of spansOf(exclude, family)) {
+      spans = spans.flatMap(([s, e]): Array<[bigint, bigint]> => {
+        if (xe < s || xs > e) return [[s, e]];
+        const parts: Array<[bigint, bigint]> = [];
+        if (xs > s) parts.push([s, xs - 1n]);
+        if (xe < e) parts.push([xe + 1n, e]);
+        return parts;
+      });
+    }
+    for (const [s, e] of spans) out.push(...spanToCidrs(family, s, e));
+  }
+  return out;
+}
+
+export type IpSpan = { family: IpFamily; first: bigint; last: bigint };
+
+/** CIDRs as merged, sorted address intervals (IPv4 first); unparsable entries are skipped */
+export function cidrSpans(cidrs: string[]): IpSpan[] {
+  const out: IpSpan[] = [];
+  for (const family of [4, 6] as IpFamily[]) {
+    for (const [first, last] of spansOf(cidrs, family)) out.push({ family, first, last });
+  }
+  return out;
+}
+
+/** Does the merged span set `outer` cover every address in `inner`? */
+export function spansCover(outer: IpSpan[], inner: IpSpan[]): boolean {
+  return inner.every(i => outer.some(o => o.family === i.family && o.first <= i.first && i.last <= o.last));
+}
+
+export function spansOverlap(a: IpSpan[], b: IpSpan[]): boolean {
+  return a.some(x => b.some(y => x.family === y.family && x.first <= y.last && y.first <= x.last));
+}
+
+/** Sort order for addresses/CIDRs: IPv4 before IPv6, then numerically, then by prefix */
+export function compareIp(a: string, b: string): number {
+  try {
+    const A = parseCidr(a), B = parseCidr(b);
+    if (A.family !== B.family) return A.family - B.family;
+    if (A.network !== B.network) return A.network < B.network ? -1 : 1;
+    return A.prefix - B.prefix;
+  } catch {
+    return a.localeCompare(b);
+  }
+}
@@ -9,10 +9,11 @@ import {
   getLanNotes, setLanNote,
   listLanLocations, upsertLanLocation, setSwitchLocation,
   bindHostToPort, unbindHostFromPort,
-  listBindingsForMap,
+  listBindingsForMap, withoutHistory,
   type LanSwitch, type LanHost, type LanPort, type LanVlan
 } from '../db';
 import cytoscape, { Core } from 'cytoscape';
+import AuditLog from '../history/AuditLog';
 
 function subnetColor(key: string): string {
   let h = 0;
@@ -34,10 +35,11 @@ const btnPrimary: React.CSSProperties = { ...btnBase, background: '#1d4ed8', bor
 const btnSecondary: React.CSSProperties = { ...btnBase, background: '#0b1424', border: '1px solid #1f2a44' };
 const menuBtn: React.CSSProperties = { ...btnBase, width: '100%', textAlign: 'left', marginBottom: 4 } as React.CSSProperties;
 
-type Props = { mapId: string; subnet: string; onClose: () => void; knownHostIps?: string[] };
+// reloadKey: bumped by the parent when the data changed underneath (undo/redo)
+type Props = { mapId: string; subnet: string; onClose: () => void; knownHostIps?: string[]; reloadKey?: number };
 
 // Simple scaffold for LAN Focus overlay. Separate Cytoscape instance will be wired later.
-export default function LanOverlay({ mapId, subnet, onClose, knownHostIps }: Props) {
+export default function LanOverlay({ mapId, subnet, onClose, knownHostIps, reloadKey }: Props) {
   const [switches, setSwitches] = React.useState<LanSwitch[]>([]);
   const [hosts, setHosts] = React.useState<LanHost[]>([]);
   const [allSwitches, setAllSwitches] = React.useState<LanSwitch[]>([]);
@@ -55,6 +57,7 @@ export default function LanOverlay({ mapId, subnet, onClose, knownHostIps }: Pro
   const overlayRef = React.useRef<HTMLDivElement | null>(null);
   const [ctx, setCtx] = React.useState<null | { x: number; y: number; kind: 'switch'|'host'; id: string; label: string }>(null);
   const [noteModal, setNoteModal] = React.useState<null | { scope: 'switch'|'host'; id: string; text: string }>(null);
+  const [historyFor, setHistoryFor] = React.useState<null | { switchId?: string; hostId?: string }>(null);
   const [selected, setSelected] = React.useState<null | { kind: 'switch'|'host'; id: string }>(null);
   const [locationModal, setLocationModal] = React.useState<null | { name: string; address?: string; applyToVisible: boolean }>(null);
   const [locations, setLocations] = React.useState<Array<{ name: string; address?: string }>>([]);
@@ -80,10 +83,10 @@ export default function LanOverlay({ mapId, subnet, onClose, knownHostIps }: Pro
     } catch (e) { console.error(e); }
   }, [mapId, subnet, selectedSwitchId]);
 
-  React.useEffect(() => { void load(); }, [load]);
-  React.useEffect(() => { (async()=>{ try { const rows = await listLanLocations(mapId); setLocations(rows.map(r=>({ name: r.name, address: r.address }))); } catch {} })(); }, [mapId]);
-  React.useEffect(() => { (async()=>{ try { const swAll = await listAllMapSwitches(mapId); setAllSwitches(swAll); const hsAll = await listAllLanHosts(mapId); setAllHosts(hsAll); } catch {} })(); }, [mapId]);
-  React.useEffect(() => { (async()=>{ try { const rows = await listBindingsForMap(mapId); const swMap = new Map<string, string>(); const hp = new Map<string, string>(); rows.forEach(r=> { swMap.set(r.hostId, r.switchId); hp.set(r.hostId, r.portId); }); setBindings(swMap); setHostPortMap(hp); } catch (e) { console.error(e); } })(); }, [mapId, ports.length, switches.length]);
+  React.useEffect(() => { void load(); }, [load, reloadKey]);
+  React.useEffect(() => { (async()=>{ try { const rows = await listLanLocations(mapId); setLocations(rows.map(r=>({ name: r.name, address: r.address }))); } catch {} })(); }, [mapId, reloadKey]);
+  React.useEffect(() => { (async()=>{ try { const swAll = await listAllMapSwitches(mapId); setAllSwitches(swAll); const hsAll = await listAllLanHosts(mapId); setAllHosts(hsAll); } catch {} })(); }, [mapId, reloadKey]);
+  React.useEffect(() => { (async()=>{ try { const rows = await listBindingsForMap(mapId); const swMap = new Map<string, string>(); const hp = new Map<string, string>(); rows.forEach(r=> { swMap.set(r.hostId, r.switchId); hp.set(r.hostId, r.portId); }); setBindings(swMap); setHostPortMap(hp); } catch (e) { console.error(e); } })(); }, [mapId, ports.length, switches.length, reloadKey]);
 
   // Auto-assign default ports (1-48 or switch.portCount) for unbound hosts so they render radially
   React.useEffect(() => {
@@ -102,9 +105,12 @@ export default function LanOverlay({ mapId, subnet, onClose, knownHostIps }: Pro
         const desiredCount = (sw.portCount && sw.portCount > 0) ? sw.portCount : 48;
         let existing = await listLanPorts(targetSwitchId);
         const haveIdx = new Set(existing.map(p => p.idx).filter((n): n is number => typeof n === 'number'));
-        for (let i = 1; i <= desiredCount; i++) {
-          if (!haveIdx.has(i)) { await upsertLanPort({ switchId: targetSwitchId, idx: i }); }
-        }
+        // Automatic fills are not edits of their own: they stay out of the undo history
+        await withoutHistory(async () => {
+          for (let i = 1; i <= desiredCount; i++) {
+            if (!haveIdx.has(i)) { await upsertLanPort({ switchId: targetSwitchId, idx: i }); }
+          }
+        });
         existing = await listLanPorts(targetSwitchId);
         const byIdx = new Map<number, LanPort>();
         existing.forEach(p => { if (typeof p.idx === 'number') byIdx.set(p.idx, p); });
@@ -115,23 +121,25 @@ export default function LanOverlay({ mapId, subnet, onClose, knownHostIps }: Pro
 
         // Assign each unbound host to next available port idx (wrap if needed)
         let cursor = 1;
-        for (const h of unbound) {
-          // find next free idx
-          let tries = 0; let chosen: LanPort | undefined;
-          while (tries < desiredCount) {
-            const port = byIdx.get(((cursor - 1) % desiredCount) + 1);
-            cursor++;
-            tries++;
-            if (!port) continue;
-            if (!usedPortIds.has(port.id)) { chosen = port; break; }
-          }
-          // If all are used, just pick by cursor anyway
-          if (!chosen) { chosen = byIdx.get(((cursor - 2 + desiredCount) % desiredCount) + 1); }
-          if (chosen) {
-            await bindHostToPort(h.id, chosen.id);
-            usedPortIds.add(chosen.id);
+        await withoutHistory(async () => {
+          for (const h of unbound) {
+            // find next free idx
+            let tries = 0; let chosen: LanPort | undefined;
+            while (tries < desiredCount) {
+              const port = byIdx.get(((cursor - 1) % desiredCount) + 1);
+              cursor++;
+              tries++;
+              if (!port) continue;
+              if (!usedPortIds.has(port.id)) { chosen = port; break; }
+            }
+            // If all are used, just pick by cursor anyway
+            if (!chosen) { chosen = byIdx.get(((cursor - 2 + desiredCount) % desiredCount) + 1); }
+            if (chosen) {
+              await bindHostToPort(h.id, chosen.id);
+              usedPortIds.add(chosen.id);
+            }
           }
-        }
+        });
         // Refresh bindings map after assignment
         const rows = await listBindingsForMap(mapId);
         const swMap = new Map<string, string>(); const hp = new Map<string, string>();
@@ -151,9 +159,11 @@ export default function LanOverlay({ mapId, subnet, onClose, knownHostIps }: Pro
         const existSet = new Set(existing.map(h => h.ip).filter(Boolean) as string[]);
         const missing = knownHostIps.filter(ip => !existSet.has(ip));
         if (missing.length === 0) return;
-        for (const ip of missing) {
-          await upsertLanHost({ mapId, subnet, ip, source: 'parsed' });
-        }
+        await withoutHistory(async () => {
+          for (const ip of missing) {
+            await upsertLanHost({ mapId, subnet, ip, source: 'parsed' });
+          }
+        });
         await load();
       } catch (e) { console.error(e); }
     })();
@@ -174,7 +184,7 @@ export default function LanOverlay({ mapId, subnet, onClose, knownHostIps }: Pro
         setPortVlans(map);
       } catch (e) { console.error(e); }
     })();
-  }, [selectedSwitchId]);
+  }, [selectedSwitchId, reloadKey]);
 
   // Helpers for location mode
   const graphSwitches = React.useMemo<LanSwitch[]>(() => {
@@ -553,6 +563,7 @@ export default function LanOverlay({ mapId, subnet, onClose, knownHostIps }: Pro
             })();
             setLocationModal({ name: lc, address: locations.find(x=>x.name===lc)?.address, applyToVisible: true });
           }} style={btnSecondary}>Location…</button>
+          <button type="button" onClick={()=> setHistoryFor({})} title="Changes made in this subnet" style={btnSecondary}>History…</button>
           <button type="button" onClick={onClose} style={{ background: '#1d4ed8', color: '#fff', border: 'none', padding: '6px 10px', borderRadius: 6, cursor: 'pointer' }}>Close</button>
           <button type="button" onClick={()=>{ const cy = cyRef.current; if (!cy) return; try { cy.fit(cy.elements(), 50); } catch {} }} style={{ background: '#0b1424', color: '#e6edf7', border: '1px solid #1f2a44', padding: '6px 10px', borderRadius: 6, cursor: 'pointer' }}>Fit</button>
         </div>
@@ -601,6 +612,10 @@ export default function LanOverlay({ mapId, subnet, onClose, knownHostIps }: Pro
                 setNoteModal({ scope: ctx.kind, id: ctx.id, text: existing });
               } finally { setCtx(null); }
             }}>Notes…</button>
+            <button type="button" style={menuBtn} onClick={() => {
+              setHistoryFor(ctx.kind === 'switch' ? { switchId: ctx.id } : { hostId: ctx.id });
+              setCtx(null);
+            }}>History…</button>
             <button type="button" style={{ ...menuBtn, color: '#fff', background: '#7f1d1d', border: 'none' }} onClick={async ()=>{
               if (ctx.kind === 'switch') await deleteLanSwitch(mapId, ctx.id); else await deleteLanHost(mapId, ctx.id);
               await load(); setCtx(null);
@@ -608,6 +623,10 @@ export default function LanOverlay({ mapId, subnet, onClose, knownHostIps }: Pro
           </div>
         )}
 
+        {historyFor && (
+          <AuditLog mapId={mapId} subnet={historyFor.switchId || historyFor.hostId ? undefined : subnet} switchId={historyFor.switchId} hostId={historyFor.hostId} onClose={()=> setHistoryFor(null)} />
+        )}
+
         {/* Notes modal */}
         {noteModal && (
           <div style={{ position: 'absolute', inset: 0, zIndex: 6, display: 'grid', placeItems: 'center', background: 'rgba(0,0,0,0.35)' }} onClick={()=>setNoteModal(null)}>
@@ -682,6 +701,9 @@ export default function LanOverlay({ mapId, subnet, onClose, knownHostIps }: Pro
                 <button type="button" onClick={async ()=>{
                   try {
                     if (!assignModal.switchId || !assignModal.portId) return;
+                    // A host sits on one port: drop the old binding so it does not linger on the previous switch
+                    const currentPortId = hostPortMap.get(assignModal.hostId);
+                    if (currentPortId && currentPortId !== assignModal.portId) { await unbindHostFromPort(assignModal.hostId, currentPortId); }
                     await bindHostToPort(assignModal.hostId, assignModal.portId);
                     if (assignModal.vlanId) { await setPortVlanBinding(assignModal.portId, assignModal.vlanId, 'access', true); }
                     await load();
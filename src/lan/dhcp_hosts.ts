@@ -0,0 +1,56 @@
+// src/lan/dhcp_hosts.ts
+// DHCP settings per subnet (pool ranges, relay targets, reservations) from the loaded firewalls,
+// and importing the reservations into a subnet's LAN hosts so LAN Focus starts with named devices.
+
+import { cidrContainsIp } from '../ip';
+import type { DhcpReservation, DhcpSettings, Domain } from '../parse_watchguard';
+import { listLanHosts, upsertLanHost, withTransaction } from '../db';
+import { normMac } from '../import/excel';
+
+export const DHCP_HOST_SOURCE = 'xml-dhcp';
+
+export type SubnetDhcp = { firewallName: string; interfaceName: string; dhcp: DhcpSettings };
+
+// Interfaces carrying this subnet (interface CIDRs are the subnet ids) with DHCP configured
+export function dhcpForSubnet(firewalls: Array<{ name: string; domain: Domain }>, cidr: string): SubnetDhcp[] {
+  const out: SubnetDhcp[] = [];
+  for (const fw of firewalls) {
+    for (const i of fw.domain.interfaces) {
+      if (i.dhcp && i.cidrs.includes(cidr)) out.push({ firewallName: fw.name, interfaceName: i.name, dhcp: i.dhcp });
+    }
+  }
+  return out;
+}
+
+/** Reservations inside the subnet, each address once */
+export function subnetReservations(entries: SubnetDhcp[], cidr: string): DhcpReservation[] {
+  const byIp = new Map<string, DhcpReservation>();
+  for (const e of entries) {
+    for (const r of e.dhcp.reservations) {
+      if (cidrContainsIp(cidr, r.ip) && !byIp.has(r.ip)) byIp.set(r.ip, r);
+    }
+  }
+  return [...byIp.values()];
+}
+
+/**
+ * Adds the reservations as LAN hosts of the subnet in one transaction. A reservation whose IP or
+ * MAC is already on a host of the subnet is skipped, so importing again adds only new ones.
+ */
+export async function importDhcpReservations(mapId: string, subnet: string, reservations: DhcpReservation[]): Promise<{ added: number; skipped: number }> {
+  const existing = await listLanHosts(mapId, subnet);
+  const ips = new Set(existing.map(h => h.ip).filter(Boolean));
+  const macs = new Set(existing.map(h => normMac(h.mac)).filter(Boolean));
+  let added = 0, skipped = 0;
+  await withTransaction(async () => {
+    for (const r of reservations) {
+      const mac = normMac(r.mac);
+      if (ips.has(r.ip) || (mac && macs.has(mac))) { skipped++; continue; }
+      await upsertLanHost({ mapId, subnet, ip: r.ip, mac, name: r.name, source: DHCP_HOST_SOURCE });
+      ips.add(r.ip);
+      if (mac) macs.add(mac);
+      added++;
+    }
+  });
+  return { added, skipped };
+}
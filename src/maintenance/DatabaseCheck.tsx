@@ -0,0 +1,108 @@
+import React from 'react';
+import { checkDatabase, exportDbBytes, repairDatabase, type DbCheckResult, type DbIssueKind } from '../db';
+
+// Finds rows that point at deleted switches, ports, hosts, VLANs, devices or maps and removes
+// the ones the user selects. The repair is offered as an undo snapshot like an import.
+export default function DatabaseCheck(props: {
+  onClose: ()=>void;
+  onRepaired?: (payload: { bytes: Uint8Array; summary: string })=>void;
+}) {
+  const { onClose, onRepaired } = props;
+  const [result, setResult] = React.useState<DbCheckResult | null>(null);
+  const [picked, setPicked] = React.useState<Set<DbIssueKind>>(new Set());
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [done, setDone] = React.useState<string | null>(null);
+
+  const run = React.useCallback(async () => {
+    const r = await checkDatabase();
+    setResult(r);
+    setPicked(new Set(r.issues.filter(i => i.count > 0).map(i => i.kind)));
+  }, []);
+
+  React.useEffect(() => { run().catch(e => setError(String(e?.message ?? e))); }, [run]);
+
+  const found = result?.issues.filter(i => i.count > 0) ?? [];
+
+  async function repair() {
+    if (!picked.size) return;
+    setBusy(true); setError(null); setDone(null);
+    try {
+      const snap = await exportDbBytes();
+      const removed = await repairDatabase(Array.from(picked));
+      const summary = `Database check removed ${removed} orphaned row${removed === 1 ? '' : 's'}`;
+      setDone(`${summary}.`);
+      onRepaired?.({ bytes: snap, summary });
+      await run();
+    } catch (e: any) {
+      setError(`Repair failed: ${String(e?.message ?? e)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const th: React.CSSProperties = { textAlign: 'left', padding: '4px 6px', borderBottom: '1px solid #1f2a44', fontWeight: 600 };
+  const td: React.CSSProperties = { padding: '4px 6px', borderBottom: '1px solid #1f2a44', verticalAlign: 'middle' };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1000, background: 'rgba(0,0,0,0.45)', display: 'grid', placeItems: 'center' }} onClick={onClose}>
+      <div style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 900, maxHeight: '80vh', overflow: 'auto' }} onClick={e=>e.stopPropagation()}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>Database check</div>
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: 6 }}>
+            <button type="button" onClick={()=> { setDone(null); run().catch(e => setError(String(e?.message ?? e))); }} disabled={busy} style={{ background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Check again</button>
+            <button type="button" onClick={onClose} style={{ background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Close</button>
+          </div>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 10 }}>
+          Looks for rows in every map that point at something that was deleted. They are invisible in most views but can place hosts on the wrong switch.
+        </div>
+        {error && <div style={{ color: '#fca5a5', fontSize: 12, marginBottom: 8 }}>{error}</div>}
+        {done && <div style={{ color: '#86efac', fontSize: 12, marginBottom: 8 }}>{done}</div>}
+        {!result ? (
+          <div style={{ opacity: 0.7 }}>Checking…</div>
+        ) : (
+          <div style={{ display: 'grid', gap: 10, fontSize: 12 }}>
+            {result.integrity.length > 0 && (
+              <div style={{ color: '#fca5a5' }}>
+                SQLite integrity check reported problems; download a backup before editing further.
+                {result.integrity.map((m, i) => <div key={i} style={{ fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>{m}</div>)}
+              </div>
+            )}
+            {found.length === 0 ? (
+              <div style={{ opacity: 0.7 }}>No orphaned rows found.</div>
+            ) : (
+              <>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr>
+                      <th style={{ ...th, width: 30 }}></th>
+                      <th style={th}>Problem</th>
+                      <th style={{ ...th, width: 80, textAlign: 'right' }}>Rows</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {found.map(i => (
+                      <tr key={i.kind}>
+                        <td style={td}>
+                          <input type="checkbox" checked={picked.has(i.kind)} onChange={e=> setPicked(prev => { const n = new Set(prev); if (e.target.checked) n.add(i.kind); else n.delete(i.kind); return n; })} />
+                        </td>
+                        <td style={td}>{i.label}</td>
+                        <td style={{ ...td, textAlign: 'right' }}>{i.count}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                  <button type="button" disabled={busy || !picked.size} onClick={repair} style={{ background: busy ? '#374151' : '#16a34a', color: 'white', border: 'none', padding: '6px 10px', borderRadius: 6, cursor: 'pointer' }}>
+                    {busy ? 'Repairing…' : 'Delete selected rows'}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
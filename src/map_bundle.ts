@@ -0,0 +1,117 @@
+// src/map_bundle.ts
+// Portable single-map bundles (.wgmap): one JSON file holding a map and everything keyed to it
+// (XML and its revisions, annotations, LAN inventory, manual objects, audit log), so a map can move between
+// browsers without sharing the whole database. Every imported row gets a fresh ID.
+
+import { deriveKey, seal, sealedFromJson, sealedToJson, unsealWith } from './security/encryption';
+import { deleteMap, readMapRows, uuid, withTransaction, writeMapRows, PRIMARY_DEVICE, SCHEMA_VERSION, type MapTable, type MapTableRows } from './db';
+
+export const BUNDLE_FORMAT = 'wgmap-bundle';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXT = '.wgmap';
+
+export type MapBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  schemaVersion?: number; // database schema the rows were read from
+  map: { id: string; name: string; xmlName?: string; createdAt: number; updatedAt: number };
+  tables: MapTableRows; // table name → rows (column name → value)
+};
+
+export async function exportMapBundle(mapId: string): Promise<MapBundle> {
+  const tables = await readMapRows(mapId);
+  const m = tables.maps?.[0];
+  if (!m) throw new Error('Map not found');
+  delete tables.maps;
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: SCHEMA_VERSION,
+    map: { id: String(m.id), name: String(m.name), xmlName: m.xmlName ? String(m.xmlName) : undefined, createdAt: Number(m.createdAt), updatedAt: Number(m.updatedAt) },
+    tables,
+  };
+}
+
+export function bundleFileName(name: string): string {
+  return `${name.trim().replace(/[^\w.-]+/g, '_') || 'map'}${BUNDLE_EXT}`;
+}
+
+export function parseMapBundle(text: string): MapBundle {
+  let b: any;
+  try { b = JSON.parse(text); } catch { throw new Error('Not a map bundle (invalid JSON)'); }
+  if (!b || b.format !== BUNDLE_FORMAT) throw new Error('Not a map bundle');
+  if (typeof b.version !== 'number' || b.version < 1) throw new Error('Map bundle has no valid version');
+  if (b.version > BUNDLE_VERSION) throw new Error(`Map bundle version ${b.version} was written by a newer version of this app (supported: ${BUNDLE_VERSION})`);
+  if (!b.map || typeof b.map.id !== 'string' || typeof b.map.name !== 'string') throw new Error('Map bundle has no map record');
+  if (!b.tables || typeof b.tables !== 'object') throw new Error('Map bundle has no tables');
+  for (const [t, rows] of Object.entries(b.tables)) {
+    if (!Array.isArray(rows)) throw new Error(`Map bundle table '${t}' is not a list`);
+  }
+  return b as MapBundle;
+}
+
+// A bundle can be sealed with a passphrase: the file then holds the encrypted bundle JSON
+export async function sealMapBundle(b: MapBundle, passphrase: string): Promise<string> {
+  return sealedToJson(await seal(await deriveKey(passphrase), new TextEncoder().encode(JSON.stringify(b))));
+}
+
+export function isSealedBundleText(text: string): boolean {
+  return sealedFromJson(text) !== null;
+}
+
+export async function openSealedBundle(text: string, passphrase: string): Promise<MapBundle> {
+  const sealed = sealedFromJson(text);
+  if (!sealed) throw new Error('Not an encrypted map bundle');
+  return parseMapBundle(new TextDecoder().decode(await unsealWith(passphrase, sealed)));
+}
+
+// Fresh IDs for the map and every row; references between tables follow their rows
+function remapRows(b: MapBundle, mapId: string, name: string): MapTableRows {
+  const ids = new Map<string, string>();
+  const fresh = (old: unknown) => {
+    const k = String(old);
+    if (!ids.has(k)) ids.set(k, uuid());
+    return ids.get(k)!;
+  };
+  // Dangling references (rows the bundle does not contain) keep their value, except where a
+  // foreign key requires the target: those rows are dropped (see the Database check)
+  const ref = (old: unknown) => (old == null ? old : ids.get(String(old)) ?? old);
+  const known = (...refs: unknown[]) => refs.every(r => ids.has(String(r)));
+  const rows = (t: MapTable) => (b.tables[t] ?? []).map(r => ({ ...r }));
+  const now = Date.now();
+
+  const out: MapTableRows = {
+    maps: [{ id: mapId, name, xmlName: b.map.xmlName ?? null, createdAt: b.map.createdAt || now, updatedAt: now }],
+    map_xml: rows('map_xml').map(r => ({ ...r, id: mapId })),
+    map_devices: rows('map_devices').map(r => ({ ...r, mapId, devId: fresh(r.devId) })),
+    annotations2: rows('annotations2').map(r => ({ ...r, mapId })),
+    fqdn_resolutions: rows('fqdn_resolutions').map(r => ({ ...r, mapId })),
+    lan_switches: rows('lan_switches').map(r => ({ ...r, mapId, id: fresh(r.id) })),
+    lan_vlans: rows('lan_vlans').map(r => ({ ...r, mapId, id: fresh(r.id) })),
+    lan_hosts: rows('lan_hosts').map(r => ({ ...r, mapId, id: fresh(r.id) })),
+    lan_locations: rows('lan_locations').map(r => ({ ...r, mapId, id: fresh(r.id) })),
+    manual_devices: rows('manual_devices').map(r => ({ ...r, mapId, id: fresh(r.id) })),
+    manual_networks: rows('manual_networks').map(r => ({ ...r, mapId, id: fresh(r.id) })),
+  };
+  out.lan_ports = rows('lan_ports').filter(r => known(r.switchId)).map(r => ({ ...r, id: fresh(r.id), switchId: ref(r.switchId) }));
+  out.lan_port_vlans = rows('lan_port_vlans').filter(r => known(r.portId, r.vlanId)).map(r => ({ ...r, portId: ref(r.portId), vlanId: ref(r.vlanId) }));
+  out.lan_bindings = rows('lan_bindings').filter(r => known(r.hostId, r.portId)).map(r => ({ ...r, hostId: ref(r.hostId), portId: ref(r.portId) }));
+  out.lan_notes = rows('lan_notes').map(r => ({ ...r, mapId, scopeId: ref(r.scopeId) }));
+  out.manual_links = rows('manual_links').map(r => ({ ...r, mapId, id: fresh(r.id), srcId: ref(r.srcId), dstId: ref(r.dstId) }));
+  out.xml_revisions = rows('xml_revisions').map(r => ({ ...r, mapId, id: fresh(r.id), devId: r.devId === PRIMARY_DEVICE ? r.devId : ref(r.devId) }));
+  // The audit log keeps who did what on the exporting side; its row ids are local to each database
+  out.audit_log = rows('audit_log').map(({ id: _id, ...r }) => ({ ...r, mapId, switchId: ref(r.switchId), hostId: ref(r.hostId) }));
+  return out;
+}
+
+/** Loads a bundle as a new map and returns its id. replaceId: existing map replaced in the same transaction. */
+export async function importMapBundle(b: MapBundle, opts: { name?: string; replaceId?: string } = {}): Promise<string> {
+  const mapId = uuid();
+  await withTransaction(async () => {
+    await writeMapRows(remapRows(b, mapId, opts.name?.trim() || b.map.name));
+    if (opts.replaceId) await deleteMap(opts.replaceId);
+  });
+  return mapId;
+}
@@ -31,13 +31,20 @@ function normalize(p: AnyPolicy): UnifiedPolicy {
   return {
     id: String(p.id ?? p.name ?? cryptoRandomId()),
     name: String(p.name ?? 'Unnamed'),
+    action: p.action,
+    enabled: p.enabled,
+    log: p.log,
+    order: p.order,
     service: p.service,
+    serviceEntries: p.serviceEntries,
     fromAliases: arr(fromAliases),
     toAliases: arr(toAliases),
     srcCidrs,
     dstCidrs,
     srcHosts,
     dstHosts,
+    srcFqdns: p.srcFqdns,
+    dstFqdns: p.dstFqdns,
     source: p.source ?? 'XML',
     tags: p.tags ?? [],
     nat: p.nat,
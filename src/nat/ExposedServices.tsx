@@ -0,0 +1,80 @@
+import React from 'react';
+import { exposedServices, exposedToCsv } from './exposed';
+import type { UnifiedPolicy } from '../xml_to_upolicy';
+
+export default function ExposedServices(props: { policies: UnifiedPolicy[]; onClose: ()=>void; onFocusHost?: (ip: string)=>void }) {
+  const { policies, onClose, onFocusHost } = props;
+  const [internetOnly, setInternetOnly] = React.useState(true);
+  const [hideDisabled, setHideDisabled] = React.useState(false);
+
+  const all = React.useMemo(() => exposedServices(policies), [policies]);
+  const rows = React.useMemo(() => all.filter(r => (!internetOnly || r.fromInternet) && (!hideDisabled || r.enabled)), [all, internetOnly, hideDisabled]);
+
+  function downloadCsv() {
+    const blob = new Blob([exposedToCsv(rows)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = 'exposed-services.csv'; a.click();
+    setTimeout(()=> URL.revokeObjectURL(url), 5000);
+  }
+
+  const th: React.CSSProperties = { textAlign: 'left', padding: '4px 6px', borderBottom: '1px solid #1f2a44', fontWeight: 600, position: 'sticky', top: 0, background: '#0f1a2b' };
+  const td: React.CSSProperties = { padding: '4px 6px', borderBottom: '1px solid #1f2a44', verticalAlign: 'top' };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1000, background: 'rgba(0,0,0,0.45)', display: 'grid', placeItems: 'center' }} onClick={onClose}>
+      <div style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 1000, maxHeight: '80vh', overflow: 'auto' }} onClick={e=>e.stopPropagation()}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>Exposed services</div>
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: 6 }}>
+            <button type="button" onClick={downloadCsv} disabled={!rows.length} style={{ background: '#1d4ed8', color: 'white', border: 'none', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Export CSV</button>
+            <button type="button" onClick={onClose} style={{ background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Close</button>
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 10, fontSize: 12 }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <input type="checkbox" checked={internetOnly} onChange={e=> setInternetOnly(e.target.checked)} />
+            Reachable from the internet only
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <input type="checkbox" checked={hideDisabled} onChange={e=> setHideDisabled(e.target.checked)} />
+            Hide disabled policies
+          </label>
+          <div style={{ marginLeft: 'auto', opacity: 0.7 }}>{rows.length} of {all.length} translations</div>
+        </div>
+        {rows.length === 0 ? (
+          <div style={{ opacity: 0.7 }}>No static NAT or 1-to-1 NAT translations on allow policies.</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>
+            <thead>
+              <tr>
+                <th style={th}>Public</th>
+                <th style={th}>→ Internal</th>
+                <th style={th}>NAT</th>
+                <th style={th}>Policy</th>
+                <th style={th}>From</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r, i) => (
+                <tr key={`${r.policyId}-${i}`} style={{ opacity: r.enabled ? 1 : 0.55 }}>
+                  <td style={td}>{r.publicAddr} <span style={{ opacity: 0.7 }}>{r.publicPorts}</span></td>
+                  <td style={td}>
+                    <button type="button" title="Show on map" onClick={()=> onFocusHost?.(r.internalAddr.split('/')[0])} style={{ background: 'transparent', color: '#93c5fd', border: 'none', padding: 0, cursor: 'pointer', fontFamily: 'inherit', fontSize: 12 }}>{r.internalAddr}</button>
+                    {' '}<span style={{ opacity: 0.7 }}>{r.internalPorts}</span>
+                  </td>
+                  <td style={td}>{r.kind === 'static' ? 'static' : '1-to-1'}{r.rule ? <div style={{ opacity: 0.7 }}>{r.rule}</div> : null}</td>
+                  <td style={td}>
+                    <span style={{ textDecoration: r.enabled ? 'none' : 'line-through' }}>{r.order != null ? `#${r.order} ` : ''}{r.policy}</span>
+                    {!r.enabled && <span style={{ marginLeft: 6, opacity: 0.7 }}>disabled</span>}
+                  </td>
+                  <td style={td}>{r.from.join(', ') || '—'}{r.fromInternet && <span style={{ marginLeft: 6, background: '#7f1d1d', color: '#fee2e2', padding: '0 6px', borderRadius: 999 }}>internet</span>}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
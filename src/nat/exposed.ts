@@ -0,0 +1,86 @@
+// src/nat/exposed.ts
+// Published services: public address/port → internal host, from static NAT and 1-to-1 NAT on allow policies.
+
+import { formatServiceEntry } from '../parse_watchguard';
+import { cidrContains, isIp } from '../ip';
+import type { UnifiedPolicy, PolicyAction } from '../xml_to_upolicy';
+import { csvCell } from '../csv';
+
+export type ExposedService = {
+  policyId: string;
+  policy: string;
+  order?: number;
+  enabled: boolean;
+  action?: PolicyAction;
+  kind: 'static' | 'one-to-one';
+  rule?: string; // SNAT action name or 1-to-1 interface
+  publicAddr: string;
+  publicPorts: string;
+  internalAddr: string;
+  internalPorts: string;
+  from: string[];
+  fromInternet: boolean;
+};
+
+const PRIVATE = [
+  '10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16',
+  'fc00::/7', 'fe80::/10', '::1/128',
+];
+const EXTERNAL_ALIASES = new Set(['Any', 'Any-External', 'External']);
+
+function isPublic(cidrOrIp: string): boolean {
+  return isIp(cidrOrIp.split('/')[0]) && !PRIVATE.some(r => cidrContains(r, cidrOrIp));
+}
+
+function fromInternet(p: UnifiedPolicy): boolean {
+  return p.fromAliases.some(a => EXTERNAL_ALIASES.has(a))
+    || p.srcCidrs.some(isPublic)
+    || p.srcHosts.some(isPublic);
+}
+
+export function exposedServices(policies: UnifiedPolicy[]): ExposedService[] {
+  const out: ExposedService[] = [];
+  for (const p of policies) {
+    if (p.action && p.action !== 'allow') continue;
+    const svcPorts = (p.serviceEntries ?? []).map(formatServiceEntry).join(', ') || p.service || 'any';
+    const base = {
+      policyId: p.id,
+      policy: p.name,
+      order: p.order,
+      enabled: p.enabled !== false,
+      action: p.action,
+      from: p.fromAliases,
+      fromInternet: fromInternet(p),
+    };
+    for (const t of p.nat?.translations ?? []) {
+      if (t.kind === 'static') {
+        out.push({
+          ...base,
+          kind: 'static',
+          rule: t.rule,
+          publicAddr: t.extAddr,
+          publicPorts: t.extPort ? String(t.extPort) : svcPorts,
+          internalAddr: t.intAddr,
+          internalPorts: t.intPort ? String(t.intPort) : t.extPort ? String(t.extPort) : svcPorts,
+        });
+      } else if (t.kind === 'one-to-one') {
+        out.push({
+          ...base,
+          kind: 'one-to-one',
+          rule: t.iface,
+          publicAddr: t.extAddr,
+          publicPorts: svcPorts,
+          internalAddr: t.intAddr,
+          internalPorts: svcPorts,
+        });
+      }
+    }
+  }
+  return out.sort((a, b) => a.publicAddr.localeCompare(b.publicAddr) || (a.order ?? Infinity) - (b.order ?? Infinity));
+}
+
+export function exposedToCsv(rows: ExposedService[]): string {
+  const header = ['public', 'public_ports', 'internal', 'internal_ports', 'nat', 'rule', 'policy', 'order', 'enabled', 'from', 'from_internet'];
+  const lines = rows.map(r => [r.publicAddr, r.publicPorts, r.internalAddr, r.internalPorts, r.kind, r.rule, r.policy, r.order, r.enabled, r.from.join(' '), r.fromInternet].map(csvCell).join(','));
+  return [header.join(','), ...lines].join('\n');
+}
@@ -4,7 +4,12 @@
 // Exports:
 //   parseWatchGuardXml(file: File): Promise<RawConfig>
 //   toDomain(raw: RawConfig): Domain
-//   makeAliasUniverse(raw: RawConfig, domain: Domain): AliasUniverse
+//   makeAliasUniverse(raw: RawConfig, domain: Domain, fqdnTable?: FqdnTable): AliasUniverse
+//   resolveService(raw: RawConfig, name: string): ResolvedService
+
+import { networkOf, maskToPrefix, hostCidr, isIp, ipFamily, isHostCidr, normalizeIp, prefixLen, rangeToCidrs, subtractCidrs, cidrContainsIp } from './ip';
+import { parseXml, type XmlDocument, type XmlElement } from './xml_dom';
+import { detectFireware, PROFILES, type FirewareInfo, type ParsingProfile } from './fireware_profile';
 
 export type Cidr = string;
 
@@ -14,34 +19,125 @@ export type InterfaceInfo = {
   cidrs: Cidr[];
   vlanId?: string; // <-- NEW: for vlan-interface nodes
   primaryIp?: string; // primary interface IP (gateway IP for that subnet)
+  primaryIp6?: string; // first global IPv6 address on the interface
   networkName?: string; // optional friendly network name (from VLAN/interface description or report)
+  defaultGateway?: string; // gateway configured on the interface (External interfaces)
+  defaultGateway6?: string;
+  dhcp?: DhcpSettings; // DHCP server or relay configured on the interface
+};
+
+// DHCP: a server hands out the pool ranges and fixed reservations; a relay forwards to other servers.
+export type DhcpReservation = { ip: string; mac?: string; name?: string };
+export type DhcpSettings = {
+  mode: 'server' | 'relay';
+  pools: Array<{ from: string; to: string }>;
+  reservations: DhcpReservation[];
+  relayServers: string[];
 };
 
-export type AddressGroupMember =
+// Static routes (network and host) plus one default route per interface gateway.
+export type RouteInfo = {
+  kind: 'network' | 'host' | 'default';
+  dest: Cidr;
+  nextHop?: string;
+  egressIf?: string;
+  metric?: number;
+};
+
+// Branch Office VPN: gateways carry the peer endpoints, tunnels the protected network pairs.
+export type VpnGateway = {
+  name: string;
+  ikeVersion?: number;
+  localAddrs: string[];  // our side (IP, or interface name until resolved in toDomain)
+  remoteAddrs: string[]; // peer IPs or hostnames
+};
+
+export type VpnTunnel = {
+  name: string;
+  gateway: string;
+  pairs: Array<{ local: string; remote: string }>;
+};
+
+// NAT: static NAT (SNAT actions referenced by policies), the 1-to-1 NAT table and dynamic NAT rules.
+export type SnatMember = { extAddr: string; extPort?: number; intAddr: string; intPort?: number };
+export type SnatAction = { name: string; members: SnatMember[] };
+export type OneToOneNat = { iface?: string; extAddr: Cidr; intAddr: Cidr };
+export type DynamicNat = { src: string; dst: string; sourceIp?: string };
+
+// A translation as applied to one policy
+export type NatTranslation =
+  | ({ kind: 'static'; rule: string } & SnatMember)
+  | ({ kind: 'one-to-one' } & OneToOneNat)
+  | ({ kind: 'dynamic' } & DynamicNat);
+
+// exclude = "except" member: its addresses are removed from whatever the other members match.
+export type AddressGroupMember = (
   | { kind: 'host'; ip: string }
-  | { kind: 'network'; ip: string; mask: string };
+  | { kind: 'network'; ip: string; mask: string }
+  | { kind: 'range'; from: string; to: string }
+  | { kind: 'fqdn'; domain: string } // may be a wildcard (*.example.com)
+) & { exclude?: boolean };
 
 export type AddressGroup = {
   name: string;
   members: AddressGroupMember[];
 };
 
-export type AliasMember =
+export type AliasMember = (
   | { kind: 'alias-ref'; aliasName: string }      // <alias-name>
   | { kind: 'address-ref'; addressName: string }  // <address> points to address-group name
   | { kind: 'interface-any'; interface?: string; zone?: string } // Any tied to interface
-  | { kind: 'builtin'; name: string };            // Any, Any-Trusted, Firebox, etc.
+  | { kind: 'builtin'; name: string }             // Any, Any-Trusted, Firebox, etc.
+) & { exclude?: boolean };
 
 export type AliasNode = {
   name: string;
   members: AliasMember[];
 };
 
+// Protocols are normalized to lowercase names; unknown IP protocol numbers become "ip-<n>".
+export type ServiceProto = 'tcp' | 'udp' | 'icmp' | 'any' | string;
+
+export type ServiceMember =
+  | { kind: 'port'; proto: ServiceProto; portFrom: number; portTo: number } // single port or range
+  | { kind: 'icmp'; icmpType?: number; icmpCode?: number }
+  | { kind: 'protocol'; proto: ServiceProto }                              // whole protocol (GRE, ESP, any TCP…)
+  | { kind: 'service-ref'; serviceName: string };                          // member service
+
+export type ServiceDef = {
+  name: string;
+  description?: string;
+  builtin: boolean; // predefined Fireware service (from XML or the fallback table below)
+  members: ServiceMember[];
+};
+
+// Concrete traffic permitted by a service. Port-less protocols span 0-65535.
+export type ServiceEntry = {
+  proto: ServiceProto;
+  portFrom: number;
+  portTo: number;
+  icmpType?: number;
+  icmpCode?: number;
+};
+
+export type ResolvedService = {
+  entries: ServiceEntry[];
+  notes: string[];
+};
+
 export type RawConfig = {
   xmlText: string;
+  fireware: FirewareInfo; // detected version/model and the parsing profile used
   aliasesByName: Map<string, AliasNode>;
   addrGroupsByName: Map<string, AddressGroup>;
   interfacesByName: Map<string, InterfaceInfo>;
+  servicesByName: Map<string, ServiceDef>;
+  routes: RouteInfo[]; // static routes only; default routes are derived from interfaces in toDomain
+  vpnGateways: Map<string, VpnGateway>;
+  vpnTunnels: VpnTunnel[];
+  snatActions: Map<string, SnatAction>;
+  oneToOneNat: OneToOneNat[];
+  dynamicNat: DynamicNat[];
 };
 
 export type Domain = {
@@ -49,14 +145,22 @@ export type Domain = {
   cidrsByInterface: Map<string, Cidr[]>;
   zoneByInterface: Map<string, InterfaceInfo['zone']>;
   zoneCidrs: Map<string, Cidr[]>;
+  routes: RouteInfo[];
+  vpnGateways: VpnGateway[];
+  vpnTunnels: VpnTunnel[];
+  fireware?: FirewareInfo;
 };
 
 export type ResolvedAlias = {
   cidrs: Set<Cidr>;
   hosts: Set<string>;
+  fqdns: Set<string>; // symbolic names; their addresses (when known) are also in cidrs/hosts
   notes: string[];
 };
 
+// Manual FQDN → address resolution (the XML only carries the names)
+export type FqdnTable = Map<string, string[]>;
+
 export type AliasUniverse = {
   resolveAlias: (name: string) => ResolvedAlias;
   isBuiltin: (name: string) => boolean;
@@ -64,77 +168,92 @@ export type AliasUniverse = {
 
 // ----------------------------- helpers -----------------------------
 
-function textContent(el: Element | null, tag: string): string | undefined {
+function textContent(el: XmlElement | null, tag: string): string | undefined {
   if (!el) return undefined;
   const child = el.querySelector(tag);
   return child ? (child.textContent || undefined) : undefined;
 }
-function els(el: Element | Document, selector: string): Element[] {
+function els(el: XmlElement | XmlDocument, selector: string): XmlElement[] {
   return Array.from(el.querySelectorAll(selector));
 }
-function maskToPrefix(mask: string): number {
-  const octets = mask.split('.').map(n => parseInt(n, 10));
-  let bits = 0;
-  for (const o of octets) bits += ((o >>> 0).toString(2).match(/1/g) || []).length;
-  return bits;
-}
 function toCidr(ip: string, mask: string): string {
-  const pfx = maskToPrefix(mask);
-  return `${ip}/${pfx}`;
+  try { return `${ip}/${maskToPrefix(mask, ip.includes(':') ? 6 : 4)}`; }
+  catch { return ip; }
+}
+// IPv6 addresses come as "addr/prefix" or with a separate prefix tag; link-local (fe80::/10) is skipped.
+// Like toCidr, the interface address is kept as the CIDR base.
+function ipv6Cidrs(el: XmlElement): string[] {
+  const out: string[] = [];
+  els(el, 'ipv6-addr, ip6-addr, ipv6-address').forEach(a => {
+    const [addr, p] = (a.textContent || '').trim().split('/');
+    if (ipFamily(addr) !== 6) return;
+    const ip = normalizeIp(addr);
+    if (/^fe[89ab]/.test(ip)) return;
+    const sibling = a.parentElement ? firstText(a.parentElement, ['ipv6-prefix-len', 'prefix-len', 'prefix-length', 'ipv6-prefix']) : undefined;
+    const prefix = parseInt(p ?? sibling ?? '64', 10);
+    out.push(`${ip}/${Number.isFinite(prefix) && prefix <= 128 ? prefix : 64}`);
+  });
+  return out;
 }
 
 // ----------------------------- parsing -----------------------------
 
-function parseFromDoc(xmlText: string, doc: Document): RawConfig {
-  const aliasesByName = parseAliases(doc);
-  const addrGroupsByName = parseAddressGroups(doc);
+function parseFromDoc(xmlText: string, doc: XmlDocument): RawConfig {
+  const fireware = detectFireware(xmlText, doc);
+  const profile = PROFILES[fireware.profile];
+  const aliasesByName = parseAliases(doc, profile);
+  const addrGroupsByName = parseAddressGroups(doc, profile);
   const interfacesByName = parseInterfaces(doc);
-  return { xmlText, aliasesByName, addrGroupsByName, interfacesByName };
+  const servicesByName = parseServices(doc);
+  const routes = parseRoutes(doc);
+  const vpnGateways = parseVpnGateways(doc);
+  const vpnTunnels = parseVpnTunnels(doc);
+  const { snatActions, oneToOneNat, dynamicNat } = parseNat(doc);
+  return { xmlText, fireware, aliasesByName, addrGroupsByName, interfacesByName, servicesByName, routes, vpnGateways, vpnTunnels, snatActions, oneToOneNat, dynamicNat };
 }
 
 export async function parseWatchGuardXml(file: File): Promise<RawConfig> {
   const xmlText = await file.text();
-  const doc = new DOMParser().parseFromString(xmlText, 'application/xml');
-  if (doc.querySelector('parsererror')) throw new Error('Invalid XML');
-  return parseFromDoc(xmlText, doc);
+  return parseFromDoc(xmlText, parseXml(xmlText));
 }
 
 export async function parseWatchGuardXmlText(xmlText: string): Promise<RawConfig> {
-  const doc = new DOMParser().parseFromString(xmlText, 'application/xml');
-  if (doc.querySelector('parsererror')) throw new Error('Invalid XML');
-  return parseFromDoc(xmlText, doc);
+  return parseFromDoc(xmlText, parseXml(xmlText));
 }
 
 const BUILTINS = new Set(['Any-Trusted', 'Any-Optional', 'Any-External', 'Firebox', 'Any']);
 
-function parseAliases(doc: Document): Map<string, AliasNode> {
-  // Your XML: alias-member-list > alias-member
+function parseAliases(doc: XmlDocument, profile: ParsingProfile): Map<string, AliasNode> {
+  const types = profile.aliasMemberType;
   const map = new Map<string, AliasNode>();
   els(doc, 'alias-list > alias').forEach(a => {
     const name = textContent(a, 'name') || '';
     const members: AliasMember[] = [];
 
-    els(a, 'alias-member-list > alias-member').forEach(m => {
+    const addMember = (m: XmlElement, excluded: boolean) => {
+      const exclude = excluded || isExcluded(m) || undefined;
       const t = textContent(m, 'type');
-      if (t === '2') {
+      if (t === types.aliasRef) {
         const aliasName = textContent(m, 'alias-name');
-        if (aliasName) members.push({ kind: 'alias-ref', aliasName });
-      } else if (t === '1') {
-        const addressName = textContent(m, 'address');
+        if (aliasName) members.push({ kind: 'alias-ref', aliasName, exclude });
+      } else if (t === types.address) {
+        const addressName = firstText(m, profile.aliasAddressTags);
         const iface = textContent(m, 'interface');
         if (addressName) {
           if (addressName.toLowerCase() === 'any') {
-            if (iface && iface.length) members.push({ kind: 'interface-any', interface: iface });
-            else members.push({ kind: 'builtin', name: 'Any' });
+            if (iface && iface.length) members.push({ kind: 'interface-any', interface: iface, exclude });
+            else members.push({ kind: 'builtin', name: 'Any', exclude });
           } else {
-            members.push({ kind: 'address-ref', addressName });
+            members.push({ kind: 'address-ref', addressName, exclude });
           }
         }
-      } else if (t === '3') {
+      } else if (t === types.builtin) {
         const n = textContent(m, 'alias-name') || textContent(m, 'name');
-        if (n) members.push({ kind: 'builtin', name: n });
+        if (n) members.push({ kind: 'builtin', name: n, exclude });
       }
-    });
+    };
+    els(a, profile.aliasMembers).forEach(m => addMember(m, false));
+    els(a, profile.aliasExcludedMembers).forEach(m => addMember(m, true));
 
     if (BUILTINS.has(name)) members.push({ kind: 'builtin', name });
     map.set(name, { name, members });
@@ -142,29 +261,53 @@ function parseAliases(doc: Document): Map<string, AliasNode> {
   return map;
 }
 
-function parseAddressGroups(doc: Document): Map<string, AddressGroup> {
-  // Your XML: <addr-group-member><member>...</member>
+// Member-level "except" flag
+function isExcluded(m: XmlElement): boolean {
+  return /^(1|true|yes)$/i.test(firstText(m, ['exclude', 'excluded', 'negate']) || '');
+}
+
+function parseAddressGroups(doc: XmlDocument, profile: ParsingProfile): Map<string, AddressGroup> {
+  const types = profile.addrMemberType;
   const map = new Map<string, AddressGroup>();
   els(doc, 'address-group-list > address-group').forEach(ag => {
     const name = textContent(ag, 'name') || '';
     const members: AddressGroupMember[] = [];
-    els(ag, 'addr-group-member > member').forEach(m => {
+    const addMember = (m: XmlElement, excluded: boolean) => {
+      const exclude = excluded || isExcluded(m) || undefined;
       const type = textContent(m, 'type');
-      if (type === '1') {
+      // IPv6, range and FQDN members use their own tags whatever the type code
+      const host6 = firstText(m, ['host-ipv6-addr', 'host-ip6-addr']);
+      const net6 = firstText(m, ['ipv6-network-addr', 'ip6-network-addr']);
+      const rangeFrom = firstText(m, ['start-ip-addr', 'range-start', 'start-ip']);
+      const rangeTo = firstText(m, ['end-ip-addr', 'range-end', 'end-ip']);
+      const domain = firstText(m, ['domain', 'fqdn', 'domain-name']);
+      if (host6 && ipFamily(host6) === 6) {
+        members.push({ kind: 'host', ip: normalizeIp(host6), exclude });
+      } else if (net6) {
+        const [ip, p] = net6.split('/');
+        const prefix = p ?? firstText(m, ['ipv6-prefix-len', 'prefix-len', 'ipv6-prefix']) ?? '64';
+        if (ipFamily(ip) === 6) members.push({ kind: 'network', ip: normalizeIp(ip), mask: prefix, exclude });
+      } else if (rangeFrom && rangeTo) {
+        members.push({ kind: 'range', from: rangeFrom, to: rangeTo, exclude });
+      } else if (domain) {
+        members.push({ kind: 'fqdn', domain: domain.toLowerCase(), exclude });
+      } else if (type === types.host) {
         const ip = textContent(m, 'host-ip-addr');
-        if (ip) members.push({ kind: 'host', ip });
-      } else if (type === '2') {
+        if (ip) members.push({ kind: 'host', ip, exclude });
+      } else if (type === types.network) {
         const ip = textContent(m, 'ip-network-addr');
         const mask = textContent(m, 'ip-mask');
-        if (ip && mask) members.push({ kind: 'network', ip, mask });
+        if (ip && mask) members.push({ kind: 'network', ip, mask, exclude });
       }
-    });
+    };
+    els(ag, profile.addrGroupMembers).forEach(m => addMember(m, false));
+    els(ag, profile.addrGroupExcludedMembers).forEach(m => addMember(m, true));
     map.set(name, { name, members });
   });
   return map;
 }
 
-function parseInterfaces(doc: Document): Map<string, InterfaceInfo> {
+function parseInterfaces(doc: XmlDocument): Map<string, InterfaceInfo> {
   const map = new Map<string, InterfaceInfo>();
 
   // Physical interfaces
@@ -180,7 +323,12 @@ function parseInterfaces(doc: Document): Map<string, InterfaceInfo> {
       const smask = textContent(s, 'ip-mask');
       if (sip && smask) cidrs.push(toCidr(sip, smask));
     });
-    if (name) map.set(name, { name, zone, cidrs, primaryIp: ip });
+    const v6 = ipv6Cidrs(intf);
+    cidrs.push(...v6);
+    const defaultGateway = textContent(intf, 'default-gateway') || textContent(intf, 'gateway-ip') || undefined;
+    const defaultGateway6 = firstText(intf, ['ipv6-default-gateway', 'default-gateway6', 'ipv6-gateway']);
+    const dhcp = parseDhcp(intf);
+    if (name) map.set(name, { name, zone, cidrs, primaryIp: ip, primaryIp6: v6[0]?.split('/')[0], defaultGateway, defaultGateway6, dhcp });
   });
 
   // VLAN interfaces
@@ -197,12 +345,321 @@ function parseInterfaces(doc: Document): Map<string, InterfaceInfo> {
       const smask = textContent(s, 'ip-mask');
       if (sip && smask) cidrs.push(toCidr(sip, smask));
     });
-    if (name) map.set(name, { name, zone, cidrs, vlanId, primaryIp: ip });
+    const v6 = ipv6Cidrs(v);
+    cidrs.push(...v6);
+    const dhcp = parseDhcp(v);
+    if (name) map.set(name, { name, zone, cidrs, vlanId, primaryIp: ip, primaryIp6: v6[0]?.split('/')[0], dhcp });
   });
 
   return map;
 }
 
+// DHCP settings nest under the interface; tag names vary between exports, as with routes.
+function parseDhcp(intf: XmlElement): DhcpSettings | undefined {
+  const pools: DhcpSettings['pools'] = [];
+  els(intf, 'address-pool-list > address-pool, dhcp-pool-list > pool, ip-pool-list > ip-pool').forEach(p => {
+    const from = firstText(p, ['start-ip', 'start-ip-addr', 'start-addr', 'start']);
+    const to = firstText(p, ['end-ip', 'end-ip-addr', 'end-addr', 'end']);
+    if (from && to && ipFamily(from) && ipFamily(to)) pools.push({ from: normalizeIp(from), to: normalizeIp(to) });
+  });
+  const reservations: DhcpReservation[] = [];
+  els(intf, 'reserved-address-list > reserved-address, reservation-list > reservation, static-binding-list > static-binding').forEach(r => {
+    const ip = firstText(r, ['ip-addr', 'ip', 'reserved-ip', 'ip-address']);
+    if (!ip || !ipFamily(ip)) return;
+    const mac = firstText(r, ['mac-addr', 'mac', 'mac-address'])?.trim();
+    const name = firstText(r, ['name', 'host-name', 'client-name'])?.trim();
+    reservations.push({ ip: normalizeIp(ip), mac: mac || undefined, name: name || undefined });
+  });
+  const relayServers = els(intf, 'dhcp-relay server-ip, relay-server-list > relay-server, relay-server-ip')
+    .map(e => (e.textContent || '').trim())
+    .filter(v => ipFamily(v));
+  if (relayServers.length) return { mode: 'relay', pools: [], reservations: [], relayServers: [...new Set(relayServers)] };
+  if (pools.length || reservations.length) return { mode: 'server', pools, reservations, relayServers: [] };
+  return undefined;
+}
+
+// Route lists differ between exports; accept the common container/entry pairs.
+const ROUTE_SELECTORS = [
+  'route-list > route',
+  'ipv6-route-list > ipv6-route',
+  'ipv6-route-list > route',
+  'route > route-entry',
+  'static-route-list > static-route',
+  'network-route-list > network-route',
+  'host-route-list > host-route',
+];
+
+function parseRoutes(doc: XmlDocument): RouteInfo[] {
+  const out: RouteInfo[] = [];
+  const seen = new Set<string>();
+  for (const sel of ROUTE_SELECTORS) {
+    els(doc, sel).forEach(r => {
+      const dest = textContent(r, 'dest-address') || textContent(r, 'dest-ip') || textContent(r, 'destination') || textContent(r, 'host-ip-addr') || textContent(r, 'ip-network-addr');
+      if (!dest) return;
+      const isHostList = r.tagName === 'host-route';
+      const type = textContent(r, 'type');
+      const hostMask = dest.includes(':') ? '128' : '255.255.255.255';
+      const mask = firstText(r, ['mask', 'ip-mask', 'dest-mask', 'prefix-len', 'prefix-length']) || ((isHostList || type === 'host') ? hostMask : undefined);
+      let cidr: Cidr;
+      try { cidr = dest.includes('/') ? networkOf(dest.split('/')[0], dest.split('/')[1]) : networkOf(dest, mask || hostMask); }
+      catch { return; }
+      const nextHop = textContent(r, 'gateway-ip') || textContent(r, 'gateway') || textContent(r, 'next-hop') || undefined;
+      const egressIf = textContent(r, 'interface') || textContent(r, 'if-name') || undefined;
+      const metric = intOrUndef(textContent(r, 'metric'));
+      const kind: RouteInfo['kind'] = prefixLen(cidr) === 0 ? 'default' : isHostCidr(cidr) ? 'host' : 'network';
+      const key = `${cidr}|${nextHop ?? ''}|${egressIf ?? ''}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      out.push({ kind, dest: cidr, nextHop, egressIf, metric });
+    });
+  }
+  return out;
+}
+
+// ---- Branch Office VPN ----
+function firstText(el: XmlElement, tags: string[]): string | undefined {
+  for (const t of tags) { const v = textContent(el, t); if (v) return v; }
+  return undefined;
+}
+
+// Addresses in VPN/NAT entries come as "ip", "ip/prefix", "ip/mask" or an alias/interface name; keep names as-is.
+function normAddr(v: string): string {
+  const [ip, m] = v.split('/');
+  const family = ipFamily(ip);
+  if (!family) return v;
+  try { return networkOf(ip, m ?? (family === 6 ? '128' : '32')); } catch { return v; }
+}
+
+function parseVpnGateways(doc: XmlDocument): Map<string, VpnGateway> {
+  const map = new Map<string, VpnGateway>();
+  const gws = [...els(doc, 'gateway-list > gateway'), ...els(doc, 'bovpn-gateway-list > bovpn-gateway')];
+  for (const g of gws) {
+    const name = textContent(g, 'name');
+    if (!name) continue;
+    const ikeVersion = intOrUndef(textContent(g, 'ike-version')?.replace(/\D/g, ''));
+    const localAddrs = new Set<string>();
+    const remoteAddrs = new Set<string>();
+    const endpoints = els(g, 'gateway-endpoint');
+    for (const ep of endpoints.length ? endpoints : [g]) {
+      const local = firstText(ep, ['local-ip', 'local-if-ip', 'local-address', 'local-interface', 'local-if']);
+      const remote = firstText(ep, ['remote-ip', 'remote-gateway-ip', 'remote-address', 'remote-host', 'peer-ip']);
+      if (local) localAddrs.add(local);
+      if (remote) remoteAddrs.add(remote);
+    }
+    map.set(name, { name, ikeVersion, localAddrs: [...localAddrs], remoteAddrs: [...remoteAddrs] });
+  }
+  return map;
+}
+
+function parseVpnTunnels(doc: XmlDocument): VpnTunnel[] {
+  const out: VpnTunnel[] = [];
+  const tunnels = [...els(doc, 'tunnel-list > tunnel'), ...els(doc, 'bovpn-tunnel-list > bovpn-tunnel')];
+  for (const t of tunnels) {
+    const name = textContent(t, 'name');
+    const gateway = firstText(t, ['gateway-name', 'gateway']);
+    if (!name || !gateway) continue;
+    const pairs: VpnTunnel['pairs'] = [];
+    els(t, 'tunnel-route, address-pair').forEach(r => {
+      const local = firstText(r, ['local-addr', 'local-address', 'local-network', 'local']);
+      const remote = firstText(r, ['remote-addr', 'remote-address', 'remote-network', 'remote']);
+      if (local && remote) pairs.push({ local: normAddr(local), remote: normAddr(remote) });
+    });
+    out.push({ name, gateway, pairs });
+  }
+  return out;
+}
+
+// ---- NAT ----
+function parseNat(doc: XmlDocument): Pick<RawConfig, 'snatActions' | 'oneToOneNat' | 'dynamicNat'> {
+  const snatActions = new Map<string, SnatAction>();
+  for (const n of [...els(doc, 'snat-list > snat'), ...els(doc, 'nat-list > nat')]) {
+    const name = textContent(n, 'name');
+    if (!name) continue;
+    const members: SnatMember[] = [];
+    els(n, 'snat-member, nat-item > member').forEach(m => {
+      const intAddr = firstText(m, ['int-addr', 'internal-ip', 'int-ip', 'internal-address', 'ip']);
+      if (!intAddr) return;
+      const extAddr = firstText(m, ['ext-addr', 'external-ip', 'ext-ip', 'external-address', 'interface']) || 'Any-External';
+      const extPort = intOrUndef(firstText(m, ['ext-port', 'external-port']));
+      const intPort = intOrUndef(firstText(m, ['int-port', 'internal-port', 'port']));
+      members.push({ extAddr, extPort: extPort || undefined, intAddr, intPort: intPort || undefined });
+    });
+    if (members.length) snatActions.set(name, { name, members });
+  }
+
+  const withMask = (addr: string, mask?: string) => (mask && !addr.includes('/') ? normAddr(`${addr}/${mask}`) : normAddr(addr));
+  const oneToOneNat: OneToOneNat[] = [];
+  for (const e of [...els(doc, 'one-to-one-nat-list > one-to-one-nat'), ...els(doc, 'one-to-one-nat-list > nat-entry')]) {
+    const ext = firstText(e, ['ext-addr', 'external-ip', 'external-base', 'nat-base']);
+    const int = firstText(e, ['int-addr', 'internal-ip', 'internal-base', 'real-base']);
+    if (!ext || !int) continue;
+    const mask = firstText(e, ['mask', 'ip-mask']);
+    oneToOneNat.push({ iface: textContent(e, 'interface'), extAddr: withMask(ext, mask), intAddr: withMask(int, mask) });
+  }
+
+  const dynamicNat: DynamicNat[] = [];
+  for (const e of [...els(doc, 'dynamic-nat-list > dynamic-nat'), ...els(doc, 'dnat-list > dnat-entry')]) {
+    const src = firstText(e, ['from', 'src', 'source']);
+    const dst = firstText(e, ['to', 'dst', 'destination']);
+    if (!src || !dst) continue;
+    dynamicNat.push({ src: normAddr(src), dst: normAddr(dst), sourceIp: firstText(e, ['source-ip', 'nat-ip', 'masquerade-ip']) });
+  }
+
+  return { snatActions, oneToOneNat, dynamicNat };
+}
+
+// Fireware member types: 1 = single port, 2 = port range. ICMP members carry icmp-type/icmp-code.
+function parseServices(doc: XmlDocument): Map<string, ServiceDef> {
+  const map = new Map<string, ServiceDef>();
+  els(doc, 'service-list > service').forEach(svc => {
+    const name = textContent(svc, 'name') || '';
+    if (!name) return;
+    const members: ServiceMember[] = [];
+    els(svc, 'service-item > member').forEach(m => {
+      const ref = textContent(m, 'service-name');
+      if (ref) { members.push({ kind: 'service-ref', serviceName: ref }); return; }
+      const proto = protoName(textContent(m, 'protocol'));
+      if (proto === 'icmp') {
+        members.push({ kind: 'icmp', icmpType: intOrUndef(textContent(m, 'icmp-type')), icmpCode: intOrUndef(textContent(m, 'icmp-code')) });
+        return;
+      }
+      const type = textContent(m, 'type');
+      const single = intOrUndef(textContent(m, 'server-port'));
+      const start = intOrUndef(textContent(m, 'start-server-port'));
+      const end = intOrUndef(textContent(m, 'end-server-port'));
+      if ((proto === 'tcp' || proto === 'udp') && type === '2' && start !== undefined) {
+        members.push({ kind: 'port', proto, portFrom: start, portTo: end ?? start });
+      } else if ((proto === 'tcp' || proto === 'udp') && single !== undefined && single > 0) {
+        members.push({ kind: 'port', proto, portFrom: single, portTo: single });
+      } else {
+        members.push({ kind: 'protocol', proto });
+      }
+    });
+    const description = textContent(svc, 'description');
+    const builtin = BUILTIN_SERVICES[name] !== undefined;
+    map.set(name, { name, description, builtin, members });
+  });
+  return map;
+}
+
+function intOrUndef(v?: string): number | undefined {
+  if (v === undefined || v.trim() === '') return undefined;
+  const n = parseInt(v, 10);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+const PROTO_NUMBERS: Record<string, ServiceProto> = { '0': 'any', '1': 'icmp', '6': 'tcp', '17': 'udp', '47': 'gre', '50': 'esp', '51': 'ah', '58': 'icmpv6' };
+
+function protoName(v?: string): ServiceProto {
+  const t = (v || '').trim().toLowerCase();
+  if (!t) return 'any';
+  if (PROTO_NUMBERS[t]) return PROTO_NUMBERS[t];
+  return /^\d+$/.test(t) ? `ip-${t}` : t;
+}
+
+// ------------------------------- Services --------------------------------
+
+const tcp = (from: number, to = from): ServiceMember => ({ kind: 'port', proto: 'tcp', portFrom: from, portTo: to });
+const udp = (from: number, to = from): ServiceMember => ({ kind: 'port', proto: 'udp', portFrom: from, portTo: to });
+
+// Predefined Fireware services, used when an export references one without defining it.
+const BUILTIN_SERVICES: Record<string, ServiceMember[]> = {
+  'Any': [{ kind: 'protocol', proto: 'any' }],
+  'TCP': [{ kind: 'protocol', proto: 'tcp' }],
+  'UDP': [{ kind: 'protocol', proto: 'udp' }],
+  'TCP-UDP': [{ kind: 'protocol', proto: 'tcp' }, { kind: 'protocol', proto: 'udp' }],
+  'HTTP': [tcp(80)],
+  'HTTP-proxy': [tcp(80)],
+  'HTTPS': [tcp(443)],
+  'HTTPS-proxy': [tcp(443)],
+  'DNS': [tcp(53), udp(53)],
+  'DNS-proxy': [tcp(53), udp(53)],
+  'FTP': [tcp(21)],
+  'FTP-proxy': [tcp(21)],
+  'SSH': [tcp(22)],
+  'Telnet': [tcp(23)],
+  'SMTP': [tcp(25)],
+  'SMTP-proxy': [tcp(25)],
+  'POP3': [tcp(110)],
+  'IMAP': [tcp(143)],
+  'NTP': [udp(123)],
+  'SNMP': [udp(161)],
+  'SNMP-Trap': [udp(162)],
+  'Syslog': [udp(514)],
+  'TFTP': [udp(69)],
+  'DHCP-Server': [udp(67, 68)],
+  'LDAP': [tcp(389), udp(389)],
+  'LDAP-SSL': [tcp(636)],
+  'Kerberos-V5': [tcp(88), udp(88)],
+  'NetBIOS-NS': [udp(137)],
+  'NetBIOS-DGM': [udp(138)],
+  'NetBIOS-SSN': [tcp(139)],
+  'SMB': [tcp(445)],
+  'MS-SQL-Server': [tcp(1433)],
+  'RDP': [tcp(3389)],
+  'Ping': [{ kind: 'icmp', icmpType: 8 }],
+  'PPTP': [tcp(1723), { kind: 'protocol', proto: 'gre' }],
+  'IPSec': [udp(500), udp(4500), { kind: 'protocol', proto: 'esp' }, { kind: 'protocol', proto: 'ah' }],
+  'WG-Firebox-Mgmt': [tcp(4105), tcp(4117, 4118)],
+  'WG-Fireware-XTM-WebUI': [tcp(8080)],
+  'WG-Logging': [tcp(4115)],
+};
+
+function memberToEntries(m: ServiceMember): ServiceEntry[] {
+  if (m.kind === 'port') return [{ proto: m.proto, portFrom: m.portFrom, portTo: m.portTo }];
+  if (m.kind === 'icmp') return [{ proto: 'icmp', portFrom: 0, portTo: 65535, icmpType: m.icmpType, icmpCode: m.icmpCode }];
+  if (m.kind === 'protocol') return [{ proto: m.proto, portFrom: 0, portTo: 65535 }];
+  return [];
+}
+
+// seen: services on the current path only, so a group reached twice (a diamond) is not a cycle
+function resolveServiceInternal(raw: RawConfig, name: string, seen: Set<string>): ResolvedService {
+  if (seen.has(name)) return { entries: [], notes: [`Service cycle detected at ${name}`] };
+  const members = raw.servicesByName.get(name)?.members ?? BUILTIN_SERVICES[name];
+  if (!members) return { entries: [], notes: [`Service not found: ${name}`] };
+
+  seen.add(name);
+  const entries: ServiceEntry[] = [];
+  const notes: string[] = [];
+  for (const m of members) {
+    if (m.kind === 'service-ref') {
+      const r = resolveServiceInternal(raw, m.serviceName, seen);
+      entries.push(...r.entries); notes.push(...r.notes);
+    } else {
+      entries.push(...memberToEntries(m));
+    }
+  }
+  seen.delete(name);
+  return { entries, notes };
+}
+
+export function resolveService(raw: RawConfig, name: string): ResolvedService {
+  const r = resolveServiceInternal(raw, name, new Set());
+  const seen = new Set<string>();
+  const entries = r.entries.filter(e => {
+    const k = `${e.proto}|${e.portFrom}|${e.portTo}|${e.icmpType ?? ''}|${e.icmpCode ?? ''}`;
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+  return { entries, notes: r.notes };
+}
+
+export function formatServiceEntry(e: ServiceEntry): string {
+  if (e.proto === 'icmp') {
+    if (e.icmpType === undefined) return 'icmp';
+    return e.icmpCode === undefined ? `icmp type ${e.icmpType}` : `icmp type ${e.icmpType} code ${e.icmpCode}`;
+  }
+  if (e.portFrom === 0 && e.portTo === 65535) return e.proto === 'any' ? 'any' : `${e.proto}/any`;
+  return e.portFrom === e.portTo ? `${e.proto}/${e.portFrom}` : `${e.proto}/${e.portFrom}-${e.portTo}`;
+}
+
+export function formatNat(t: NatTranslation): string {
+  if (t.kind === 'static') return `${t.extAddr}${t.extPort ? `:${t.extPort}` : ''} → ${t.intAddr}${t.intPort ? `:${t.intPort}` : ''}`;
+  if (t.kind === 'one-to-one') return `1:1 ${t.extAddr} ↔ ${t.intAddr}`;
+  return `dynamic ${t.src} → ${t.dst}${t.sourceIp ? ` as ${t.sourceIp}` : ''}`;
+}
+
 // ------------------------------- Domain --------------------------------
 
 export function toDomain(raw: RawConfig): Domain {
@@ -219,11 +676,30 @@ export function toDomain(raw: RawConfig): Domain {
     }
   }
 
+  const routes: RouteInfo[] = [...raw.routes];
+  for (const info of raw.interfacesByName.values()) {
+    const gateways: Array<[string | undefined, Cidr]> = [[info.defaultGateway, '0.0.0.0/0'], [info.defaultGateway6, '::/0']];
+    for (const [gw, dest] of gateways) {
+      if (!gw || routes.some(r => r.kind === 'default' && r.nextHop === gw)) continue;
+      routes.push({ kind: 'default', dest, nextHop: gw, egressIf: info.name });
+    }
+  }
+
+  // Gateways may name the local interface instead of its address
+  const vpnGateways = Array.from(raw.vpnGateways.values()).map(g => ({
+    ...g,
+    localAddrs: g.localAddrs.map(a => raw.interfacesByName.get(a)?.primaryIp ?? a),
+  }));
+
   return {
     interfaces: Array.from(raw.interfacesByName.values()),
     cidrsByInterface,
     zoneByInterface,
     zoneCidrs,
+    routes,
+    vpnGateways,
+    vpnTunnels: raw.vpnTunnels,
+    fireware: raw.fireware,
   };
 }
 
@@ -235,7 +711,7 @@ const BUILTIN_TO_ZONE: Record<string, InterfaceInfo['zone'] | undefined> = {
   'Any-External': 'External',
 };
 
-export function makeAliasUniverse(raw: RawConfig, domain: Domain) {
+export function makeAliasUniverse(raw: RawConfig, domain: Domain, fqdnTable: FqdnTable = new Map()) {
   const { aliasesByName, addrGroupsByName } = raw;
 
   function isBuiltin(name: string): boolean {
@@ -253,54 +729,88 @@ export function makeAliasUniverse(raw: RawConfig, domain: Domain) {
     if (zone) return domain.zoneCidrs.get(zone) || [];
     return domain.interfaces.flatMap(i => i.cidrs);
   }
+  function empty(notes: string[] = []): ResolvedAlias {
+    return { cidrs: new Set(), hosts: new Set(), fqdns: new Set(), notes };
+  }
+  function mergeInto(into: ResolvedAlias, r: ResolvedAlias) {
+    r.cidrs.forEach(c => into.cidrs.add(c)); r.hosts.forEach(h => into.hosts.add(h)); r.fqdns.forEach(f => into.fqdns.add(f));
+    into.notes.push(...r.notes);
+  }
+  // Remove excluded addresses; only rewrites the CIDR set when something is actually excluded
+  function applyExclusions(inc: ResolvedAlias, exc: ResolvedAlias): ResolvedAlias {
+    inc.notes.push(...exc.notes);
+    exc.fqdns.forEach(f => inc.fqdns.delete(f));
+    if (!exc.cidrs.size) return inc;
+    const removed = [...exc.cidrs];
+    return {
+      cidrs: new Set(subtractCidrs([...inc.cidrs], removed)),
+      hosts: new Set([...inc.hosts].filter(h => !removed.some(c => cidrContainsIp(c, h)))),
+      fqdns: inc.fqdns,
+      notes: inc.notes,
+    };
+  }
+  function expandMember(mem: AddressGroupMember, into: ResolvedAlias) {
+    if (mem.kind === 'host') {
+      if (!isIp(mem.ip)) { into.notes.push(`Bad host address: ${mem.ip}`); return; }
+      into.hosts.add(mem.ip); into.cidrs.add(hostCidr(mem.ip));
+    } else if (mem.kind === 'network') {
+      const cidr = toCidr(mem.ip, mem.mask);
+      if (!isIp(mem.ip) || !cidr.includes('/')) { into.notes.push(`Bad network address: ${mem.ip}/${mem.mask}`); return; }
+      into.cidrs.add(cidr);
+    }
+    else if (mem.kind === 'range') {
+      try { rangeToCidrs(mem.from, mem.to).forEach(c => into.cidrs.add(c)); }
+      catch { into.notes.push(`Bad address range: ${mem.from}-${mem.to}`); }
+    } else if (mem.kind === 'fqdn') {
+      into.fqdns.add(mem.domain);
+      const ips = (fqdnTable.get(mem.domain) ?? []).filter(isIp);
+      if (!ips.length) into.notes.push(`FQDN not resolved: ${mem.domain}`);
+      for (const ip of ips) { into.hosts.add(ip); into.cidrs.add(hostCidr(ip)); }
+    }
+  }
   function expandAddressGroup(name: string): ResolvedAlias {
     const ag = addrGroupsByName.get(name);
-    if (!ag) return { cidrs: new Set(), hosts: new Set(), notes: [`Address-group not found: ${name}`] };
-    const cidrs = new Set<Cidr>();
-    const hosts = new Set<string>();
-    for (const mem of ag.members) {
-      if (mem.kind === 'host') { hosts.add(mem.ip); cidrs.add(`${mem.ip}/32`); }
-      else if (mem.kind === 'network') { cidrs.add(toCidr(mem.ip, mem.mask)); }
-    }
-    return { cidrs, hosts, notes: [] };
+    if (!ag) return empty([`Address-group not found: ${name}`]);
+    const inc = empty(), exc = empty();
+    for (const mem of ag.members) expandMember(mem, mem.exclude ? exc : inc);
+    return applyExclusions(inc, exc);
   }
+  // seen: aliases on the current path only, so an alias reached twice (included and excluded,
+  // or through two parents) is not a cycle
   function resolveAliasInternal(name: string, seen: Set<string>): ResolvedAlias {
-    if (seen.has(name)) return { cidrs: new Set(), hosts: new Set(), notes: [`Cycle detected at ${name}`] };
-    seen.add(name);
+    if (seen.has(name)) return empty([`Cycle detected at ${name}`]);
 
     if (isBuiltin(name)) {
       const cidrs = builtinToCidrs(name);
       const notes = name === 'Firebox' ? ['Firebox (device) has no address space'] : [];
-      return { cidrs: new Set(cidrs), hosts: new Set(), notes };
+      return { ...empty(notes), cidrs: new Set(cidrs) };
     }
 
     const node = aliasesByName.get(name);
     if (!node) {
       const agResolved = expandAddressGroup(name);
-      if (agResolved.cidrs.size || agResolved.hosts.size) return agResolved;
-      return { cidrs: new Set(), hosts: new Set(), notes: [`Alias not found: ${name}`] };
+      if (agResolved.cidrs.size || agResolved.hosts.size || agResolved.fqdns.size) return agResolved;
+      return empty([`Alias not found: ${name}`]);
     }
 
-    const cidrs = new Set<Cidr>();
-    const hosts = new Set<string>();
-    const notes: string[] = [];
-
+    seen.add(name);
+    const inc = empty(), exc = empty();
     for (const m of node.members) {
+      const into = m.exclude ? exc : inc;
       if (m.kind === 'alias-ref') {
-        const r = resolveAliasInternal(m.aliasName, seen);
-        r.cidrs.forEach(c => cidrs.add(c)); r.hosts.forEach(h => hosts.add(h)); notes.push(...r.notes);
+        mergeInto(into, resolveAliasInternal(m.aliasName, seen));
       } else if (m.kind === 'address-ref') {
-        const r = expandAddressGroup(m.addressName);
-        r.cidrs.forEach(c => cidrs.add(c)); r.hosts.forEach(h => hosts.add(h)); notes.push(...r.notes);
+        mergeInto(into, expandAddressGroup(m.addressName));
       } else if (m.kind === 'interface-any') {
-        interfaceAnyToCidrs(m.interface, m.zone).forEach(c => cidrs.add(c));
+        interfaceAnyToCidrs(m.interface, m.zone).forEach(c => into.cidrs.add(c));
       } else if (m.kind === 'builtin') {
-        builtinToCidrs(m.name).forEach(c => cidrs.add(c));
-        if (m.name === 'Firebox') notes.push('Firebox (device) has no address space');
+        builtinToCidrs(m.name).forEach(c => into.cidrs.add(c));
+        if (m.name === 'Firebox') into.notes.push('Firebox (device) has no address space');
       }
     }
+    seen.delete(name);
 
-    return { cidrs, hosts, notes };
+    return applyExclusions(inc, exc);
   }
   function resolveAlias(name: string): ResolvedAlias {
     return resolveAliasInternal(name, new Set());
@@ -1,33 +1,10 @@
 // src/policy_match.ts
-// Helpers to attach policies to subnets/hosts for the UI panel filtering.
+// Helpers to attach policies to subnets/hosts for the UI panel filtering, and to find the
+// policy a firewall applies to a given flow.
 
 import type { UnifiedPolicy } from './xml_to_upolicy';
-
-// IPv4 helpers (mirror of your src/ip.ts, but only what's needed here)
-function ipToInt(ip: string): number {
-  return ip.split('.').reduce((a, o) => (a << 8) + (parseInt(o, 10) & 0xff), 0) >>> 0;
-}
-
-function cidrContainsIp(cidr: string, ip: string): boolean {
-  const [net, bitsStr] = cidr.split('/');
-  const bits = parseInt(bitsStr, 10);
-  const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
-  return (ipToInt(ip) & mask) === (ipToInt(net) & mask);
-}
-
-function overlaps(cidrA: string, cidrB: string): boolean {
-  const [aNet, aBitsStr] = cidrA.split('/');
-  const [bNet, bBitsStr] = cidrB.split('/');
-  const aBits = parseInt(aBitsStr, 10);
-  const bBits = parseInt(bBitsStr, 10);
-  const aMask = aBits === 0 ? 0 : (~0 << (32 - aBits)) >>> 0;
-  const bMask = bBits === 0 ? 0 : (~0 << (32 - bBits)) >>> 0;
-  const aBase = ipToInt(aNet) & aMask;
-  const bBase = ipToInt(bNet) & bMask;
-  const maxStart = Math.max(aBase, bBase) >>> 0;
-  const minEnd = Math.min(aBase | (~aMask >>> 0), bBase | (~bMask >>> 0)) >>> 0;
-  return maxStart <= minEnd;
-}
+import type { Domain } from './parse_watchguard';
+import { cidrContainsIp, overlaps, cidrSpans, spansCover, spansOverlap, hostCidr, isHostCidr, isIp, normalizeIp, type IpSpan } from './ip';
 
 export function policiesForSubnet(policies: UnifiedPolicy[], subnetCidr: string): UnifiedPolicy[] {
   return policies.filter(p =>
@@ -44,3 +21,62 @@ export function policiesForHost(policies: UnifiedPolicy[], ip: string): UnifiedP
     p.dstCidrs.some(c => cidrContainsIp(c, ip))
   );
 }
+
+// ---------------- exact match for a traffic query ----------------
+
+export type TrafficQuery = { src: string; dst: string; proto?: string; port?: number };
+
+export type PolicyMatch = { policy?: UnifiedPolicy; notes: string[] };
+
+// Any/Any-External resolve to the firewall's own interfaces during alias expansion; for a
+// concrete packet they mean "any address" and "any address not on an internal interface".
+function sideMatches(aliases: string[], cidrs: string[], hosts: string[], target: IpSpan[], internal: IpSpan[]): boolean {
+  if (aliases.includes('Any')) return true;
+  if (aliases.includes('Any-External') && !spansOverlap(internal, target)) return true;
+  const spans = cidrSpans([...cidrs, ...hosts.filter(isIp).map(hostCidr)]);
+  return spans.length > 0 && spansCover(spans, target);
+}
+
+const isWildcard = (aliases: string[]) => aliases.includes('Any') || aliases.includes('Any-External');
+
+// Policies touching an endpoint, by the panel matchers above: a host (or host CIDR) by address,
+// anything wider by overlap. The exact coverage check in firstMatchingPolicy narrows these down.
+function touching(policies: UnifiedPolicy[], endpoint: string): Set<UnifiedPolicy> {
+  const addr = endpoint.split('/')[0];
+  const host = isIp(addr) && (!endpoint.includes('/') || isHostCidr(endpoint));
+  return new Set(host ? policiesForHost(policies, normalizeIp(addr)) : policiesForSubnet(policies, endpoint));
+}
+
+/** true/false when the policy's service is known; undefined when it could not be resolved */
+export function serviceMatches(p: UnifiedPolicy, proto?: string, port?: number): boolean | undefined {
+  if (!proto) return true;
+  if (/^any$/i.test(p.service ?? '')) return true;
+  if (!p.serviceEntries?.length) return undefined;
+  const pr = proto.toLowerCase();
+  return p.serviceEntries.some(e =>
+    e.proto === 'any' ||
+    (e.proto === pr && (pr === 'icmp' || port === undefined || (port >= e.portFrom && port <= e.portTo))));
+}
+
+/** First enabled policy (in rule order) that matches the whole query on one firewall */
+export function firstMatchingPolicy(policies: UnifiedPolicy[], q: TrafficQuery, domain: Domain): PolicyMatch {
+  const src = cidrSpans([q.src]), dst = cidrSpans([q.dst]);
+  // Internal = networks on non-external interfaces plus anything routed through them
+  const inside = domain.interfaces.filter(i => i.zone !== 'External').flatMap(i => i.cidrs);
+  const routedInside = domain.routes.filter(r => r.kind !== 'default' && r.nextHop && inside.some(c => cidrContainsIp(c, r.nextHop!))).map(r => r.dest);
+  const internal = cidrSpans([...inside, ...routedInside]);
+  const notes: string[] = [];
+  const ordered = policies.filter(p => p.enabled !== false).sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity));
+  // A side on Any/Any-External only resolved to the firewall's own networks, so it skips the pre-filter
+  const nearSrc = touching(ordered, q.src), nearDst = touching(ordered, q.dst);
+  for (const p of ordered) {
+    if (!isWildcard(p.fromAliases) && !nearSrc.has(p)) continue;
+    if (!isWildcard(p.toAliases) && !nearDst.has(p)) continue;
+    if (!sideMatches(p.fromAliases, p.srcCidrs, p.srcHosts, src, internal)) continue;
+    if (!sideMatches(p.toAliases, p.dstCidrs, p.dstHosts, dst, internal)) continue;
+    const svc = serviceMatches(p, q.proto, q.port);
+    if (svc === undefined) { notes.push(`Skipped '${p.name}': service ${p.service ?? '?'} not resolved`); continue; }
+    if (svc) return { policy: p, notes };
+  }
+  return { notes };
+}
@@ -0,0 +1,117 @@
+import React from 'react';
+import { reach, normalizeEndpoint, type ReachFirewall, type ReachResult, type ReachHop } from './reachability';
+import { formatNat, formatServiceEntry, type Domain, type FqdnTable } from '../parse_watchguard';
+import { policiesFromXmlText } from '../xml_to_upolicy';
+import type { VpnLink, VpnPeer } from '../vpn_links';
+
+// Floating panel rather than a modal so the highlighted path stays visible on the graph
+export default function ReachQuery(props: {
+  firewalls: Array<{ id: string; name: string; domain: Domain; xmlText?: string }>;
+  fqdnTable?: FqdnTable;
+  vpn: { links: VpnLink[]; peers: VpnPeer[] };
+  onClose: ()=>void;
+  onResult?: (r: ReachResult | null, q: { src: string; dst: string })=>void;
+}) {
+  const { firewalls, fqdnTable, vpn, onClose, onResult } = props;
+  const [src, setSrc] = React.useState('');
+  const [dst, setDst] = React.useState('');
+  const [proto, setProto] = React.useState('');
+  const [port, setPort] = React.useState('');
+  const [fws, setFws] = React.useState<ReachFirewall[] | null>(null);
+  const [result, setResult] = React.useState<ReachResult | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const out: ReachFirewall[] = [];
+        for (const f of firewalls) {
+          const policies = f.xmlText && f.xmlText.trim() ? (await policiesFromXmlText(f.xmlText, fqdnTable)).policies : [];
+          out.push({ id: f.id, name: f.name, domain: f.domain, policies });
+        }
+        if (!cancelled) setFws(out);
+      } catch (e: any) {
+        if (!cancelled) setError(String(e?.message ?? e));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [firewalls, fqdnTable]);
+
+  function run() {
+    setError(null);
+    if (!fws) return;
+    let s: string, d: string;
+    try { s = normalizeEndpoint(src); d = normalizeEndpoint(dst); }
+    catch { setError('Source and destination must be an IP address or CIDR.'); return; }
+    const p = port.trim() ? parseInt(port, 10) : undefined;
+    if (port.trim() && (!Number.isFinite(p) || p! < 0 || p! > 65535)) { setError('Port must be 0-65535.'); return; }
+    const r = reach(fws, { src: s, dst: d, proto: proto || undefined, port: proto && proto !== 'icmp' ? p : undefined }, vpn);
+    setResult(r);
+    onResult?.(r, { src: s, dst: d });
+  }
+
+  function close() {
+    onResult?.(null, { src: '', dst: '' });
+    onClose();
+  }
+
+  const input: React.CSSProperties = { background: '#0b1220', color: '#e6edf7', border: '1px solid #2b3b5e', borderRadius: 6, padding: '4px 6px', fontSize: 12 };
+  const verdictColor = result?.verdict === 'allowed' ? '#14532d' : result?.verdict === 'denied' ? '#7f1d1d' : '#78350f';
+
+  return (
+    <div style={{ position: 'fixed', right: 16, bottom: 16, zIndex: 1000, background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 480, maxHeight: '70vh', overflow: 'auto', boxShadow: '0 8px 24px rgba(0,0,0,0.45)' }}>
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+        <div style={{ fontWeight: 700, fontSize: 16 }}>Can A reach B?</div>
+        <button type="button" onClick={close} style={{ marginLeft: 'auto', background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Close</button>
+      </div>
+      <form onSubmit={e => { e.preventDefault(); run(); }} style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 6, fontSize: 12 }}>
+        <label style={{ display: 'grid', gap: 2 }}>Source IP/CIDR<input value={src} onChange={e=> setSrc(e.target.value)} placeholder="10.0.1.25" style={input} /></label>
+        <label style={{ display: 'grid', gap: 2 }}>Destination IP/CIDR<input value={dst} onChange={e=> setDst(e.target.value)} placeholder="192.168.10.5" style={input} /></label>
+        <label style={{ display: 'grid', gap: 2 }}>Protocol
+          <select value={proto} onChange={e=> setProto(e.target.value)} style={input}>
+            <option value="">any service</option>
+            <option value="tcp">tcp</option>
+            <option value="udp">udp</option>
+            <option value="icmp">icmp</option>
+          </select>
+        </label>
+        <label style={{ display: 'grid', gap: 2 }}>Port<input value={port} onChange={e=> setPort(e.target.value)} disabled={!proto || proto === 'icmp'} placeholder="443" style={input} /></label>
+        <button type="submit" disabled={!fws} style={{ gridColumn: '1 / span 2', background: '#1d4ed8', color: 'white', border: 'none', padding: '6px 10px', borderRadius: 6, cursor: 'pointer' }}>{fws ? 'Check' : 'Loading policies…'}</button>
+      </form>
+      {error && <div style={{ color: '#fca5a5', fontSize: 12, marginTop: 8 }}>{error}</div>}
+      {result && (
+        <div style={{ marginTop: 10, fontSize: 12 }}>
+          <div style={{ background: verdictColor, padding: '6px 8px', borderRadius: 6, fontWeight: 600 }}>{result.summary}</div>
+          {!proto && <div style={{ opacity: 0.7, marginTop: 4 }}>No protocol given: the first policy matching by address is shown, whatever its service.</div>}
+          <ol style={{ margin: '8px 0 0', paddingLeft: 18, display: 'grid', gap: 6 }}>
+            {result.hops.map((h, i) => <HopView key={`${h.fwId}-${i}`} hop={h} />)}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function HopView({ hop }: { hop: ReachHop }) {
+  const p = hop.policy;
+  const egress = hop.egress;
+  return (
+    <li>
+      <div style={{ fontWeight: 600 }}>{hop.fwName} <span style={{ fontWeight: 400, opacity: 0.7 }}>→ {hop.dst}</span></div>
+      {p ? (
+        <div>
+          policy {typeof p.order === 'number' ? `#${p.order} ` : ''}<b>{p.name}</b> — {p.action ?? 'allow'}
+          {p.serviceEntries?.length ? <span style={{ opacity: 0.7 }}> ({p.serviceEntries.map(formatServiceEntry).join(', ')})</span> : p.service ? <span style={{ opacity: 0.7 }}> ({p.service})</span> : null}
+        </div>
+      ) : (
+        <div style={{ opacity: 0.8 }}>no matching policy</div>
+      )}
+      {hop.nat.length > 0 && <div style={{ opacity: 0.85 }}>nat: {hop.nat.map(formatNat).join('; ')}</div>}
+      {egress && egress.kind === 'connected' && <div style={{ opacity: 0.85 }}>out {egress.iface} ({egress.cidr})</div>}
+      {egress && egress.kind === 'vpn' && <div style={{ opacity: 0.85 }}>out BOVPN {egress.gateway}{egress.peer ? ` to ${egress.peer}` : ''}</div>}
+      {egress && egress.kind === 'route' && <div style={{ opacity: 0.85 }}>out via {egress.route.kind === 'default' ? 'default route' : egress.route.dest}{egress.route.nextHop ? ` → ${egress.route.nextHop}` : ''}</div>}
+      {hop.notes.map((n, i) => <div key={i} style={{ opacity: 0.6 }}>{n}</div>)}
+    </li>
+  );
+}
@@ -0,0 +1,164 @@
+// src/reach/reachability.ts
+// "Can A reach B?": walk the loaded firewalls from the one that owns the source toward the
+// destination (connected networks, then BOVPN tunnels, then static/default routes) and evaluate
+// each firewall's policies on the way. Static and 1-to-1 NAT on the matching policy rewrite the
+// destination for the rest of the path.
+
+import { cidrContains, cidrContainsIp, isIp, isHostCidr, parseCidr, prefixLen } from '../ip';
+import { firstMatchingPolicy, type TrafficQuery } from '../policy_match';
+import type { Domain, NatTranslation, RouteInfo } from '../parse_watchguard';
+import type { UnifiedPolicy } from '../xml_to_upolicy';
+import type { VpnLink, VpnPeer } from '../vpn_links';
+
+export type ReachFirewall = { id: string; name: string; domain: Domain; policies: UnifiedPolicy[] };
+
+export type ReachEgress =
+  | { kind: 'connected'; cidr: string; iface: string }
+  | { kind: 'vpn'; gateway: string; linkId?: string; peer?: string; nextFw?: string }
+  | { kind: 'route'; route: RouteInfo; nextFw?: string }
+  | { kind: 'none' };
+
+export type ReachHop = {
+  fwId: string;
+  fwName: string;
+  dst: string; // destination as this firewall sees it (after NAT on earlier hops)
+  policy?: UnifiedPolicy;
+  nat: NatTranslation[];
+  egress?: ReachEgress; // unset when the policy stopped the flow
+  notes: string[];
+};
+
+export type ReachVerdict = 'allowed' | 'denied' | 'no-route' | 'loop';
+
+export type ReachResult = {
+  verdict: ReachVerdict;
+  summary: string;
+  srcNet?: string; // connected network the source sits on, when known
+  hops: ReachHop[];
+};
+
+/** Accepts "10.0.0.5", "10.0.0.0/24" or "2001:db8::/64"; throws on anything else */
+export function normalizeEndpoint(s: string): string {
+  const t = s.trim();
+  parseCidr(t);
+  return t;
+}
+
+const within = (cidr: string, target: string) => (target.includes('/') ? cidrContains(cidr, target) : cidrContainsIp(cidr, target));
+
+function connectedNet(d: Domain, target: string): { cidr: string; iface: string } | null {
+  for (const i of d.interfaces) for (const c of i.cidrs) if (within(c, target)) return { cidr: c, iface: i.name };
+  return null;
+}
+
+function ownsAddress(d: Domain, ip: string): boolean {
+  return d.interfaces.some(i => i.primaryIp === ip || i.primaryIp6 === ip || i.cidrs.some(c => c.split('/')[0] === ip));
+}
+
+function bestRoute(d: Domain, target: string): RouteInfo | null {
+  let best: RouteInfo | null = null;
+  for (const r of d.routes) {
+    if (!within(r.dest, target)) continue;
+    if (!best || prefixLen(r.dest) > prefixLen(best.dest) || (prefixLen(r.dest) === prefixLen(best.dest) && (r.metric ?? 0) < (best.metric ?? 0))) best = r;
+  }
+  return best;
+}
+
+function vpnEgress(fw: ReachFirewall, src: string, dst: string, links: VpnLink[], peers: VpnPeer[]): Extract<ReachEgress, { kind: 'vpn' }> | null {
+  for (const t of fw.domain.vpnTunnels) {
+    const pair = t.pairs.find(p => safeWithin(p.remote, dst) && (!isRange(p.local) || safeWithin(p.local, src)));
+    if (!pair) continue;
+    const link = links.find(l => (l.aFw === fw.id && l.aGateway === t.gateway) || (l.bFw === fw.id && l.bGateway === t.gateway));
+    if (link) return { kind: 'vpn', gateway: t.gateway, linkId: link.id, nextFw: link.aFw === fw.id ? link.bFw : link.aFw };
+    const peer = peers.find(p => p.fwId === fw.id && p.gateway === t.gateway);
+    return { kind: 'vpn', gateway: t.gateway, peer: peer?.peer };
+  }
+  return null;
+}
+// Tunnel pairs may hold "Any" or names instead of networks
+const isRange = (s: string) => isIp(s.split('/')[0]);
+const safeWithin = (cidr: string, target: string) => isRange(cidr) && within(cidr, target);
+
+// A static or 1-to-1 translation whose public side is the destination host moves it to the internal host
+function translateDst(nat: NatTranslation[], dst: string): string {
+  if (dst.includes('/') && !isHostCidr(dst)) return dst;
+  const ip = dst.split('/')[0];
+  for (const t of nat) {
+    if (t.kind === 'dynamic') continue;
+    const intIp = t.intAddr.split('/')[0];
+    if (t.extAddr.split('/')[0] === ip && isIp(intIp)) return intIp;
+  }
+  return dst;
+}
+
+function sourceFirewall(fws: ReachFirewall[], src: string, dst: string): { fw: ReachFirewall; srcNet?: string; note?: string } | null {
+  for (const fw of fws) { const n = connectedNet(fw.domain, src); if (n) return { fw, srcNet: n.cidr }; }
+  for (const fw of fws) {
+    const r = bestRoute(fw.domain, src);
+    if (r && r.kind !== 'default') return { fw, note: `Source is behind ${fw.name} via ${r.dest}` };
+  }
+  for (const fw of fws) {
+    if (fw.domain.vpnTunnels.some(t => t.pairs.some(p => safeWithin(p.remote, src)))) return { fw, note: `Source arrives at ${fw.name} over BOVPN` };
+  }
+  // Not inside any loaded network: treat it as coming from the internet toward the destination side
+  const toward = fws.find(fw => connectedNet(fw.domain, dst)) ?? fws[0];
+  return toward ? { fw: toward, note: `Source is outside the loaded networks; assuming it arrives at ${toward.name} from the internet` } : null;
+}
+
+export function reach(fws: ReachFirewall[], q: TrafficQuery, vpn: { links: VpnLink[]; peers: VpnPeer[] }): ReachResult {
+  const start = sourceFirewall(fws, q.src, q.dst);
+  if (!start) return { verdict: 'no-route', summary: 'No firewalls loaded', hops: [] };
+
+  const hops: ReachHop[] = [];
+  const visited = new Set<string>();
+  let fw: ReachFirewall | undefined = start.fw;
+  let dst = q.dst;
+
+  while (fw) {
+    if (visited.has(fw.id)) return { verdict: 'loop', summary: `Routing loop at ${fw.name}`, srcNet: start.srcNet, hops };
+    visited.add(fw.id);
+
+    const hop: ReachHop = { fwId: fw.id, fwName: fw.name, dst, nat: [], notes: hops.length === 0 && start.note ? [start.note] : [] };
+    hops.push(hop);
+
+    const m = firstMatchingPolicy(fw.policies, { ...q, dst }, fw.domain);
+    hop.notes.push(...m.notes);
+    if (!m.policy) {
+      return { verdict: 'denied', summary: `Denied by ${fw.name}: no policy matches (default deny)`, srcNet: start.srcNet, hops };
+    }
+    hop.policy = m.policy;
+    if (m.policy.action && m.policy.action !== 'allow') {
+      return { verdict: 'denied', summary: `${m.policy.action === 'drop' ? 'Dropped' : 'Denied'} by ${fw.name} policy '${m.policy.name}'`, srcNet: start.srcNet, hops };
+    }
+    hop.nat = m.policy.nat?.translations ?? [];
+    dst = translateDst(hop.nat, dst);
+    if (dst !== hop.dst) hop.notes.push(`Destination translated to ${dst}`);
+
+    const conn = connectedNet(fw.domain, dst);
+    if (conn) {
+      hop.egress = { kind: 'connected', cidr: conn.cidr, iface: conn.iface };
+      return { verdict: 'allowed', summary: `Allowed: delivered by ${fw.name} on ${conn.iface} (${conn.cidr})`, srcNet: start.srcNet, hops };
+    }
+
+    const tunnel = vpnEgress(fw, q.src, dst, vpn.links, vpn.peers);
+    if (tunnel) {
+      hop.egress = tunnel;
+      if (tunnel.nextFw) { fw = fws.find(f => f.id === tunnel.nextFw); continue; }
+      return { verdict: 'allowed', summary: `Allowed: leaves ${fw.name} over BOVPN ${tunnel.gateway}${tunnel.peer ? ` to ${tunnel.peer}` : ''}`, srcNet: start.srcNet, hops };
+    }
+
+    const route = bestRoute(fw.domain, dst);
+    if (!route) {
+      hop.egress = { kind: 'none' };
+      return { verdict: 'no-route', summary: `${fw.name} has no route to ${dst}`, srcNet: start.srcNet, hops };
+    }
+    const nh = route.nextHop;
+    const next: ReachFirewall | undefined = nh ? fws.find(f => f.id !== fw!.id && ownsAddress(f.domain, nh)) : undefined;
+    hop.egress = { kind: 'route', route, nextFw: next?.id };
+    if (!next) {
+      return { verdict: 'allowed', summary: `Allowed: leaves ${fw.name} via ${route.kind === 'default' ? 'default route' : route.dest}${nh ? ` to ${nh}` : ''}`, srcNet: start.srcNet, hops };
+    }
+    fw = next;
+  }
+  return { verdict: 'no-route', summary: 'Next firewall not loaded', srcNet: start.srcNet, hops };
+}
@@ -0,0 +1,86 @@
+import React from 'react';
+import { ruleFindingsToCsv, RULE_KIND_LABEL, type RuleFinding, type RuleFindingKind } from './rule_analysis';
+import type { UnifiedPolicy } from '../xml_to_upolicy';
+
+const KINDS: RuleFindingKind[] = ['shadowed', 'redundant', 'conflict'];
+export const RULE_KIND_COLOR: Record<RuleFindingKind, string> = { shadowed: '#7f1d1d', redundant: '#78350f', conflict: '#6b21a8' };
+
+export default function RuleAnalysis(props: { findings: RuleFinding[]; onClose: ()=>void; onShowPolicies?: (label: string, policies: UnifiedPolicy[])=>void }) {
+  const { findings, onClose, onShowPolicies } = props;
+  const [kinds, setKinds] = React.useState<Set<RuleFindingKind>>(new Set(KINDS));
+
+  const rows = React.useMemo(() => findings
+    .filter(f => kinds.has(f.kind))
+    .slice()
+    .sort((a, b) => (a.policy.order ?? Infinity) - (b.policy.order ?? Infinity)), [findings, kinds]);
+  const counts = React.useMemo(() => {
+    const m = new Map<RuleFindingKind, number>();
+    for (const f of findings) m.set(f.kind, (m.get(f.kind) ?? 0) + 1);
+    return m;
+  }, [findings]);
+
+  function downloadCsv() {
+    const blob = new Blob([ruleFindingsToCsv(rows)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = 'policy-anomalies.csv'; a.click();
+    setTimeout(()=> URL.revokeObjectURL(url), 5000);
+  }
+
+  const th: React.CSSProperties = { textAlign: 'left', padding: '4px 6px', borderBottom: '1px solid #1f2a44', fontWeight: 600, position: 'sticky', top: 0, background: '#0f1a2b' };
+  const td: React.CSSProperties = { padding: '4px 6px', borderBottom: '1px solid #1f2a44', verticalAlign: 'top' };
+  const name = (p: UnifiedPolicy) => `${typeof p.order === 'number' ? `#${p.order} ` : ''}${p.name}`;
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1000, background: 'rgba(0,0,0,0.45)', display: 'grid', placeItems: 'center' }} onClick={onClose}>
+      <div style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 1000, maxHeight: '80vh', overflow: 'auto' }} onClick={e=>e.stopPropagation()}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>Policy anomalies</div>
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: 6 }}>
+            <button type="button" onClick={downloadCsv} disabled={!rows.length} style={{ background: '#1d4ed8', color: 'white', border: 'none', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Export CSV</button>
+            <button type="button" onClick={onClose} style={{ background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Close</button>
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 10, fontSize: 12 }}>
+          {KINDS.map(k => (
+            <label key={k} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+              <input type="checkbox" checked={kinds.has(k)} onChange={e=> setKinds(prev => { const n = new Set(prev); if (e.target.checked) n.add(k); else n.delete(k); return n; })} />
+              {RULE_KIND_LABEL[k]} ({counts.get(k) ?? 0})
+            </label>
+          ))}
+          <div style={{ marginLeft: 'auto', opacity: 0.7 }}>Enabled policies only; addresses and services are compared</div>
+        </div>
+        {rows.length === 0 ? (
+          <div style={{ opacity: 0.7 }}>No shadowed, redundant or conflicting policies found.</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={th}>Finding</th>
+                <th style={th}>Policy</th>
+                <th style={th}>Because of</th>
+                <th style={th}>Detail</th>
+                <th style={th}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((f, i) => (
+                <tr key={`${f.policy.id}-${f.other.id}-${i}`}>
+                  <td style={td}><span style={{ background: RULE_KIND_COLOR[f.kind], padding: '0 6px', borderRadius: 999 }}>{RULE_KIND_LABEL[f.kind]}</span></td>
+                  <td style={td}>{name(f.policy)} <span style={{ opacity: 0.6 }}>{f.policy.action ?? ''}</span></td>
+                  <td style={td}>{name(f.other)} <span style={{ opacity: 0.6 }}>{f.other.action ?? ''}</span></td>
+                  <td style={td}>{f.detail}</td>
+                  <td style={td}>
+                    {onShowPolicies && (
+                      <button type="button" onClick={()=> onShowPolicies(`${RULE_KIND_LABEL[f.kind].toLowerCase()}: ${f.policy.name}`, [f.policy, f.other])} style={{ background: 'transparent', color: '#93c5fd', border: 'none', padding: 0, cursor: 'pointer', fontSize: 12, whiteSpace: 'nowrap' }}>Show pair</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+// src/rules/rule_analysis.ts
+// Rule-base anomalies between enabled policies, in evaluation order:
+//   shadowed  – every packet a policy matches is already taken by an earlier policy with the other decision
+//   redundant – a policy adds nothing: an earlier policy with the same decision covers it, or a later one
+//               does and nothing in between would decide differently
+//   conflict  – two policies with different decisions overlap without either containing the other
+// A later policy that is a superset of an earlier one with the other decision (the usual "deny the rest")
+// is intentional and not reported. Matching considers addresses and services only; policies whose
+// addresses did not resolve are left out rather than guessed at.
+
+import { cidrSpans, spansCover, spansOverlap, hostCidr, isIp, type IpSpan } from '../ip';
+import type { ServiceEntry } from '../parse_watchguard';
+import type { UnifiedPolicy } from '../xml_to_upolicy';
+import { csvCell } from '../csv';
+
+export type RuleFindingKind = 'shadowed' | 'redundant' | 'conflict';
+
+export type RuleFinding = {
+  kind: RuleFindingKind;
+  policy: UnifiedPolicy;
+  other: UnifiedPolicy; // the earlier/covering policy, or the other side of a conflict
+  detail: string;
+};
+
+export const RULE_KIND_LABEL: Record<RuleFindingKind, string> = {
+  shadowed: 'Shadowed',
+  redundant: 'Redundant',
+  conflict: 'Conflict',
+};
+
+type Svc = { name: string; any: boolean; entries: ServiceEntry[] | null };
+
+type Space = {
+  p: UnifiedPolicy;
+  decision: 'allow' | 'deny'; // deny and drop both refuse the traffic
+  src: IpSpan[];
+  dst: IpSpan[];
+  srcF: Set<string>;
+  dstF: Set<string>;
+  svc: Svc;
+};
+
+function spaceOf(p: UnifiedPolicy): Space | null {
+  const cidrs = (list: string[], hosts: string[]) => [...list, ...hosts.filter(isIp).map(hostCidr)];
+  const src = cidrSpans(cidrs(p.srcCidrs, p.srcHosts));
+  const dst = cidrSpans(cidrs(p.dstCidrs, p.dstHosts));
+  const srcF = new Set(p.srcFqdns ?? []);
+  const dstF = new Set(p.dstFqdns ?? []);
+  if ((!src.length && !srcF.size) || (!dst.length && !dstF.size)) return null;
+  const entries = p.serviceEntries?.length ? p.serviceEntries : null;
+  return {
+    p,
+    decision: !p.action || p.action === 'allow' ? 'allow' : 'deny',
+    src, dst, srcF, dstF,
+    svc: {
+      name: (p.service ?? '').toLowerCase(),
+      any: /^any$/i.test(p.service ?? '') || !!entries?.some(e => e.proto === 'any'),
+      entries,
+    },
+  };
+}
+
+// ---------------- services ----------------
+
+function icmpCovers(o: ServiceEntry, i: ServiceEntry): boolean {
+  return o.icmpType === undefined || (o.icmpType === i.icmpType && (o.icmpCode === undefined || o.icmpCode === i.icmpCode));
+}
+
+function entryCoveredBy(i: ServiceEntry, outer: ServiceEntry[]): boolean {
+  if (outer.some(o => o.proto === 'any')) return true;
+  const same = outer.filter(o => o.proto === i.proto);
+  if (i.proto === 'icmp') return same.some(o => icmpCovers(o, i));
+  // Port ranges may be split across entries (80-85 + 86-90), so walk the merged ranges
+  const ranges = same.map(o => [o.portFrom, o.portTo]).sort((a, b) => a[0] - b[0]);
+  let next = i.portFrom; // first port not covered yet
+  for (const [from, to] of ranges) {
+    if (from > next) break;
+    next = Math.max(next, to + 1);
+    if (next > i.portTo) return true;
+  }
+  return false;
+}
+
+function entriesOverlap(a: ServiceEntry, b: ServiceEntry): boolean {
+  if (a.proto === 'any' || b.proto === 'any') return true;
+  if (a.proto !== b.proto) return false;
+  if (a.proto === 'icmp') return icmpCovers(a, b) || icmpCovers(b, a);
+  return a.portFrom <= b.portTo && b.portFrom <= a.portTo;
+}
+
+// Without resolved entries only the service name can be compared
+function svcCovers(o: Svc, i: Svc): boolean {
+  if (o.any) return true;
+  if (i.any) return false;
+  if (!o.entries || !i.entries) return o.name !== '' && o.name === i.name;
+  return i.entries.every(e => entryCoveredBy(e, o.entries!));
+}
+
+function svcOverlap(a: Svc, b: Svc): boolean {
+  if (a.any || b.any) return true;
+  if (!a.entries || !b.entries) return a.name !== '' && a.name === b.name;
+  return a.entries.some(x => b.entries!.some(y => entriesOverlap(x, y)));
+}
+
+// ---------------- match spaces ----------------
+
+// FQDN members are compared by name: an address range never covers a name it cannot see
+function covers(o: Space, i: Space): boolean {
+  return spansCover(o.src, i.src) && spansCover(o.dst, i.dst)
+    && [...i.srcF].every(f => o.srcF.has(f)) && [...i.dstF].every(f => o.dstF.has(f))
+    && svcCovers(o.svc, i.svc);
+}
+
+function overlap(a: Space, b: Space): boolean {
+  const src = spansOverlap(a.src, b.src) || [...a.srcF].some(f => b.srcF.has(f));
+  const dst = spansOverlap(a.dst, b.dst) || [...a.dstF].some(f => b.dstF.has(f));
+  return src && dst && svcOverlap(a.svc, b.svc);
+}
+
+const label = (p: UnifiedPolicy) => (typeof p.order === 'number' ? `#${p.order} ${p.name}` : p.name);
+
+export function analyzeRules(policies: UnifiedPolicy[]): RuleFinding[] {
+  const spaces = policies
+    .filter(p => p.enabled !== false)
+    .slice()
+    .sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity))
+    .map(spaceOf)
+    .filter((s): s is Space => s !== null);
+
+  const findings: RuleFinding[] = [];
+  const flagged = new Set<UnifiedPolicy>();
+
+  // Covered by an earlier policy: never reached
+  for (let j = 0; j < spaces.length; j++) {
+    const b = spaces[j];
+    for (let i = 0; i < j; i++) {
+      const a = spaces[i];
+      if (!covers(a, b)) continue;
+      findings.push(a.decision === b.decision
+        ? { kind: 'redundant', policy: b.p, other: a.p, detail: `Fully matched earlier by ${label(a.p)} (same action)` }
+        : { kind: 'shadowed', policy: b.p, other: a.p, detail: `Never reached: ${label(a.p)} matches all of its traffic first and ${a.decision === 'allow' ? 'allows' : 'denies'} it` });
+      flagged.add(b.p);
+      break;
+    }
+  }
+
+  // Covered by a later policy with the same decision, and nothing in between decides otherwise
+  for (let i = 0; i < spaces.length; i++) {
+    const a = spaces[i];
+    if (flagged.has(a.p)) continue;
+    for (let k = i + 1; k < spaces.length; k++) {
+      const c = spaces[k];
+      if (flagged.has(c.p) || c.decision !== a.decision || !covers(c, a)) continue;
+      const between = spaces.slice(i + 1, k).some(m => m.decision !== a.decision && !flagged.has(m.p) && overlap(m, a));
+      if (between) continue;
+      findings.push({ kind: 'redundant', policy: a.p, other: c.p, detail: `Removing it changes nothing: ${label(c.p)} matches the same traffic with the same action` });
+      flagged.add(a.p);
+      break;
+    }
+  }
+
+  // Partial overlaps with different decisions; the earlier policy wins the overlap
+  for (let j = 0; j < spaces.length; j++) {
+    const b = spaces[j];
+    if (flagged.has(b.p)) continue;
+    for (let i = 0; i < j; i++) {
+      const a = spaces[i];
+      if (flagged.has(a.p) || a.decision === b.decision || !overlap(a, b) || covers(b, a)) continue;
+      findings.push({ kind: 'conflict', policy: b.p, other: a.p, detail: `Overlaps ${label(a.p)} with the opposite action; ${label(a.p)} wins where they overlap` });
+    }
+  }
+  return findings;
+}
+
+/** Findings per policy; conflicts are listed on both sides */
+export function findingsByPolicy(findings: RuleFinding[]): Map<UnifiedPolicy, RuleFinding[]> {
+  const map = new Map<UnifiedPolicy, RuleFinding[]>();
+  const add = (p: UnifiedPolicy, f: RuleFinding) => { if (!map.has(p)) map.set(p, []); map.get(p)!.push(f); };
+  for (const f of findings) {
+    add(f.policy, f);
+    if (f.kind === 'conflict') add(f.other, f);
+  }
+  return map;
+}
+
+export function ruleFindingsToCsv(rows: RuleFinding[]): string {
+  const header = ['kind', 'order', 'policy', 'action', 'other_order', 'other_policy', 'other_action', 'detail'];
+  const lines = rows.map(r => [RULE_KIND_LABEL[r.kind], r.policy.order, r.policy.name, r.policy.action, r.other.order, r.other.name, r.other.action, r.detail].map(csvCell).join(','));
+  return [header.join(','), ...lines].join('\n');
+}
@@ -0,0 +1,79 @@
+import React from 'react';
+import { MIN_PASSPHRASE_LENGTH } from './encryption';
+import { changeDbPassphrase, isDbEncrypted } from '../db';
+
+type Mode = 'enable' | 'change' | 'disable';
+
+// Turns encryption of the stored database on or off and changes its passphrase
+export default function EncryptionSettings(props: {
+  onClose: ()=>void;
+  onChanged?: (message: string)=>void;
+}) {
+  const { onClose, onChanged } = props;
+  const [encrypted, setEncrypted] = React.useState(isDbEncrypted());
+  const [mode, setMode] = React.useState<Mode>(encrypted ? 'change' : 'enable');
+  const [current, setCurrent] = React.useState('');
+  const [next, setNext] = React.useState('');
+  const [again, setAgain] = React.useState('');
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [done, setDone] = React.useState<string | null>(null);
+
+  const needsNew = mode !== 'disable';
+  const problem = encrypted && !current ? 'Enter the current passphrase'
+    : needsNew && next.length < MIN_PASSPHRASE_LENGTH ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters for the new passphrase`
+    : needsNew && next !== again ? 'The new passphrases do not match'
+    : null;
+
+  async function apply(e: React.FormEvent) {
+    e.preventDefault();
+    if (problem) return;
+    setBusy(true); setError(null); setDone(null);
+    try {
+      await changeDbPassphrase(encrypted ? current : null, needsNew ? next : null);
+      const message = mode === 'enable' ? 'Database encryption turned on.' : mode === 'change' ? 'Database passphrase changed.' : 'Database encryption turned off.';
+      const now = isDbEncrypted();
+      setEncrypted(now); setMode(now ? 'change' : 'enable');
+      setCurrent(''); setNext(''); setAgain('');
+      setDone(message);
+      onChanged?.(message);
+    } catch (err: any) {
+      setError(String(err?.message ?? err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const input: React.CSSProperties = { background: '#0b1220', color: '#e6edf7', border: '1px solid #2b3b5e', borderRadius: 6, padding: '6px 8px' };
+  const tab = (m: Mode, label: string) => (
+    <button type="button" onClick={()=> { setMode(m); setError(null); setDone(null); }} style={{ background: mode === m ? '#1d4ed8' : 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>{label}</button>
+  );
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1000, background: 'rgba(0,0,0,0.45)', display: 'grid', placeItems: 'center' }} onClick={onClose}>
+      <form onSubmit={apply} style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 480, display: 'grid', gap: 8 }} onClick={e=>e.stopPropagation()}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>Database encryption</div>
+          <button type="button" onClick={onClose} style={{ marginLeft: 'auto', background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Close</button>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.75 }}>
+          {encrypted
+            ? 'The maps stored in this browser are encrypted (AES-256, key derived from your passphrase). The passphrase is asked for on every start and cannot be recovered if lost.'
+            : 'The maps stored in this browser, including the firewall XML (addressing, aliases, policies), are not encrypted. With a passphrase they are encrypted before they are written.'}
+        </div>
+        {encrypted && <div style={{ display: 'flex', gap: 6 }}>{tab('change', 'Change passphrase')}{tab('disable', 'Turn off')}</div>}
+        {encrypted && <input type="password" value={current} onChange={e=> setCurrent(e.target.value)} placeholder="Current passphrase" autoComplete="current-password" style={input} />}
+        {needsNew && <input type="password" value={next} onChange={e=> setNext(e.target.value)} placeholder="New passphrase" autoComplete="new-password" style={input} />}
+        {needsNew && <input type="password" value={again} onChange={e=> setAgain(e.target.value)} placeholder="Repeat new passphrase" autoComplete="new-password" style={input} />}
+        {problem && (current || next || again) && <div style={{ color: '#fca5a5', fontSize: 12 }}>{problem}</div>}
+        {error && <div style={{ color: '#fca5a5', fontSize: 12 }}>{error}</div>}
+        {done && <div style={{ color: '#86efac', fontSize: 12 }}>{done}</div>}
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <button type="submit" disabled={busy || !!problem} style={{ background: busy || problem ? '#374151' : mode === 'disable' ? '#7f1d1d' : '#16a34a', color: 'white', border: 'none', padding: '6px 10px', borderRadius: 6, cursor: 'pointer' }}>
+            {busy ? 'Saving…' : mode === 'enable' ? 'Encrypt database' : mode === 'change' ? 'Change passphrase' : 'Store unencrypted'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import React from 'react';
+import { MIN_PASSPHRASE_LENGTH } from './encryption';
+
+// Asks for a passphrase without showing it (window.prompt would). confirm: a new passphrase,
+// typed twice and held to the minimum length; allowEmpty: submitting nothing is a valid answer.
+export default function PassphrasePrompt(props: {
+  title: string;
+  note?: string;
+  confirm?: boolean;
+  allowEmpty?: boolean;
+  onSubmit: (passphrase: string)=>void;
+  onCancel: ()=>void;
+}) {
+  const { title, note, confirm, allowEmpty, onSubmit, onCancel } = props;
+  const [pass, setPass] = React.useState('');
+  const [again, setAgain] = React.useState('');
+
+  const problem = !pass
+    ? (allowEmpty ? null : 'Enter a passphrase')
+    : confirm && pass.length < MIN_PASSPHRASE_LENGTH ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+    : confirm && pass !== again ? 'The passphrases do not match'
+    : null;
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!problem) onSubmit(pass);
+  }
+
+  const input: React.CSSProperties = { background: '#0b1220', color: '#e6edf7', border: '1px solid #2b3b5e', borderRadius: 6, padding: '6px 8px', width: '100%', boxSizing: 'border-box' };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1100, background: 'rgba(0,0,0,0.45)', display: 'grid', placeItems: 'center' }} onClick={onCancel}>
+      <form onSubmit={submit} style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 420, display: 'grid', gap: 8 }} onClick={e=>e.stopPropagation()}>
+        <div style={{ fontWeight: 700, fontSize: 16 }}>{title}</div>
+        {note && <div style={{ fontSize: 12, opacity: 0.75 }}>{note}</div>}
+        <input type="password" autoFocus value={pass} onChange={e=> setPass(e.target.value)} placeholder="Passphrase" autoComplete={confirm ? 'new-password' : 'current-password'} style={input} />
+        {confirm && <input type="password" value={again} onChange={e=> setAgain(e.target.value)} placeholder="Repeat passphrase" autoComplete="new-password" style={input} />}
+        {problem && (pass || again) && <div style={{ color: '#fca5a5', fontSize: 12 }}>{problem}</div>}
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 6 }}>
+          <button type="button" onClick={onCancel} style={{ background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Cancel</button>
+          <button type="submit" disabled={!!problem} style={{ background: problem ? '#374151' : '#1d4ed8', color: 'white', border: 'none', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>OK</button>
+        </div>
+      </form>
+    </div>
+  );
+}
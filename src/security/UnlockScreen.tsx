@@ -0,0 +1,39 @@
+import React from 'react';
+
+// Shown on start instead of the app while the stored database is encrypted (see isDbLocked)
+export default function UnlockScreen(props: { onUnlock: (passphrase: string)=>Promise<void> }) {
+  const { onUnlock } = props;
+  const [pass, setPass] = React.useState('');
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!pass) return;
+    setBusy(true); setError(null);
+    try {
+      await onUnlock(pass);
+    } catch (err: any) {
+      setError(String(err?.message ?? err));
+      setPass('');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 2000, background: '#0b1220', display: 'grid', placeItems: 'center' }}>
+      <form onSubmit={submit} style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 16, width: 380, display: 'grid', gap: 10 }}>
+        <div style={{ fontWeight: 700, fontSize: 16 }}>WatchGuard Network Mapper</div>
+        <div style={{ fontSize: 12, opacity: 0.75 }}>The maps in this browser are encrypted. Enter the passphrase to open them.</div>
+        <input type="password" autoFocus value={pass} onChange={e=> setPass(e.target.value)} placeholder="Passphrase" autoComplete="current-password" disabled={busy}
+               style={{ background: '#0b1220', color: '#e6edf7', border: '1px solid #2b3b5e', borderRadius: 6, padding: '6px 8px' }} />
+        {error && <div style={{ color: '#fca5a5', fontSize: 12 }}>{error}</div>}
+        <button type="submit" disabled={busy || !pass} style={{ background: busy ? '#374151' : '#1d4ed8', color: 'white', border: 'none', padding: '6px 10px', borderRadius: 6, cursor: 'pointer' }}>
+          {busy ? 'Unlocking…' : 'Unlock'}
+        </button>
+        <div style={{ fontSize: 11, opacity: 0.6 }}>A forgotten passphrase cannot be recovered; clearing the site data starts over with an empty database.</div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+// src/security/anonymize.ts
+// "Anonymize for sharing": a copy of a map bundle with real addressing and names replaced, for
+// sending to vendors and consultants. Replacements are consistent across the whole bundle (the
+// same address or alias becomes the same stand-in in the XML, policies and LAN data), so the
+// anonymized map still draws, resolves and matches its LAN inventory like the original.
+//
+// Addresses are remapped prefix-preserving: two addresses sharing an n-bit prefix still share
+// one afterwards, so subnets, containment and overlaps survive. Private ranges stay private
+// (10/8 remains in 10/8, ...), public IPv4 moves to other public /8s, global IPv6 to 2001:db8::/32.
+// The last IPv4 octet (last IPv6 group) is kept so gateways and host numbering stay readable.
+
+import { formatIp, normalizeCidr, normalizeIp, parseIp, type IpFamily } from '../ip';
+import type { MapBundle } from '../map_bundle';
+import type { MapTableRows } from '../db';
+import { redactSecrets } from './redact';
+
+export type Anonymizer = {
+  ip: (ip: string) => string;
+  cidr: (cidr: string) => string;
+  mac: (mac: string) => string;
+  host: (fqdn: string) => string;
+  /** kind-1, kind-2, … per distinct value */
+  name: (kind: string, value: string) => string;
+  /** addresses and MACs inside free text */
+  text: (text: string) => string;
+  xml: (xmlText: string) => string;
+};
+
+// Predefined aliases keep their names: the parser resolves them by name
+const BUILTIN_ALIAS = /^(Any(-[\w.]+)?|Firebox|SSLVPN-Users|dvcp_\w+)$/i;
+const HOST_TAG = /(^|-)(domain|fqdn|host|hostname|dns|server|gateway)(-|$)/i;
+const HOST_NAME = /^(\*\.)?([a-z0-9_-]+\.)+[a-z][a-z0-9-]*$/i;
+const VERSION_TAG = /version|build|release/i;
+
+const LEAF = /<([A-Za-z_][\w.-]*)(\s[^<>]*)?>([^<]*)<\/\1\s*>/g;
+const ALIAS_DEF = /<(?:alias|address-group)>\s*<name>([^<]+)<\/name>/g;
+// DHCP reservations name devices; they get the same stand-ins as LAN hosts
+const DHCP_RESERVATION = /<(reserved-address|reservation|static-binding)>[\s\S]*?<\/\1>/g;
+const DEVICE_NAME = /<(name|host-name|client-name)>([^<]+)<\/\1>/g;
+const ADDRESS = /(?<![\w:.])((?:[0-9A-Fa-f]{0,4}:){2,7}(?:[0-9A-Fa-f]{0,4}|(?:\d{1,3}\.){3}\d{1,3})|(?:\d{1,3}\.){3}\d{1,3})(\/\d{1,3})?(?![\w:]|\.\d)/g;
+const MAC = /(?<![\w:.-])([0-9A-Fa-f]{2}([:-])(?:[0-9A-Fa-f]{2}\2){4}[0-9A-Fa-f]{2}|[0-9A-Fa-f]{4}\.[0-9A-Fa-f]{4}\.[0-9A-Fa-f]{4})(?![\w:.-])/g;
+
+// First octets that are wholly public (no private, shared, loopback or documentation space)
+const PUBLIC_OCTETS = Array.from({ length: 223 }, (_, i) => i + 1)
+  .filter(o => ![10, 100, 127, 169, 172, 192, 198, 203].includes(o));
+
+const randomBit = () => crypto.getRandomValues(new Uint8Array(1))[0] & 1;
+
+const escapeXml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const unescapeXml = (s: string) => s.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+// Netmasks (255.255.255.0) are not addresses
+function isMask(v: bigint): boolean {
+  const inv = ~v & 0xffffffffn;
+  return v !== 0n && (inv & (inv + 1n)) === 0n;
+}
+
+export function makeAnonymizer(): Anonymizer {
+  const flips = new Map<string, number>(); // family/bit/original prefix → flip
+  const octets = new Map<number, number>(); // public first octet → stand-in
+  const names = new Map<string, string>();
+  const counts = new Map<string, number>();
+  const macs = new Map<string, string>();
+
+  // Flips bits [from, to) (0 = most significant), each decided once per original prefix
+  function flip(family: IpFamily, value: bigint, from: number, to: number): bigint {
+    const width = family === 4 ? 32 : 128;
+    let out = value;
+    for (let i = from; i < to; i++) {
+      const key = `${family}/${i}/${(value >> BigInt(width - i)).toString(16)}`;
+      let b = flips.get(key);
+      if (b === undefined) { b = randomBit(); flips.set(key, b); }
+      if (b) out ^= 1n << BigInt(width - 1 - i);
+    }
+    return out;
+  }
+
+  function publicOctet(o: number): number {
+    let to = octets.get(o);
+    if (to === undefined) {
+      const taken = new Set(octets.values());
+      const free = PUBLIC_OCTETS.filter(x => !taken.has(x));
+      if (!free.length) throw new Error('Too many public address blocks to anonymize');
+      to = free[Math.floor(Math.random() * free.length)];
+      octets.set(o, to);
+    }
+    return to;
+  }
+
+  function v4(v: bigint): bigint {
+    const a = Number(v >> 24n), b = Number((v >> 16n) & 255n);
+    if (a === 0 || a === 127 || a >= 224 || isMask(v)) return v;
+    const fixed = a === 10 ? 8
+      : a === 172 && (b & 0xf0) === 16 ? 12
+      : a === 192 && b === 168 ? 16
+      : a === 100 && (b & 0xc0) === 64 ? 10
+      : a === 169 && b === 254 ? 16
+      : a === 198 && (b & 0xfe) === 18 ? 15
+      : 0;
+    if (fixed) return flip(4, v, fixed, 24);
+    return (BigInt(publicOctet(a)) << 24n) | (flip(4, v, 8, 24) & 0xffffffn);
+  }
+
+  function v6(v: bigint): bigint {
+    const top = Number(v >> 112n);
+    if (v >> 48n === 0n || top >> 8 === 0xff) return v; // ::, ::1, IPv4-mapped, multicast
+    if (top >> 6 === 0x3fa) return flip(6, v, 10, 112); // fe80::/10
+    if (top >> 9 === 0x7e) return flip(6, v, 7, 112); // fc00::/7
+    return (0x20010db8n << 96n) | (flip(6, v, 32, 112) & ((1n << 96n) - 1n));
+  }
+
+  function ip(s: string): string {
+    let p;
+    try { p = parseIp(s); } catch { return s; }
+    return formatIp(p.family, p.family === 4 ? v4(p.value) : v6(p.value));
+  }
+
+  function cidr(s: string): string {
+    const [addr, prefix] = s.trim().split('/');
+    if (prefix === undefined) return ip(addr);
+    let aligned: boolean;
+    try { aligned = normalizeCidr(s) === `${normalizeIp(addr)}/${Number(prefix)}`; } catch { return `${ip(addr)}/${prefix}`; }
+    const mapped = `${ip(addr)}/${prefix}`;
+    return aligned ? normalizeCidr(mapped) : mapped;
+  }
+
+  function mac(s: string): string {
+    const key = s.toLowerCase().replace(/[^0-9a-f]/g, '');
+    let out = macs.get(key);
+    if (!out) {
+      const n = macs.size + 1;
+      out = ['02', '00', '00', (n >> 16) & 255, (n >> 8) & 255, n & 255].map(x => x.toString(16).padStart(2, '0')).join(':');
+      macs.set(key, out);
+    }
+    return out;
+  }
+
+  function name(kind: string, value: string): string {
+    const key = `${kind}\n${value}`;
+    let out = names.get(key);
+    if (!out) {
+      const n = (counts.get(kind) ?? 0) + 1;
+      counts.set(kind, n);
+      out = `${kind}-${n}`;
+      names.set(key, out);
+    }
+    return out;
+  }
+
+  function host(fqdn: string): string {
+    const s = fqdn.trim().toLowerCase();
+    return s.startsWith('*.') ? `*.${name('domain', s.slice(2))}.example` : `${name('site', s)}.example`;
+  }
+
+  function text(s: string): string {
+    return s
+      .replace(MAC, m => mac(m))
+      .replace(ADDRESS, (whole, addr: string, prefix: string | undefined) => {
+        try { parseIp(addr); } catch { return whole; }
+        return prefix ? cidr(`${addr}${prefix}`) : ip(addr);
+      });
+  }
+
+  function xml(xmlText: string): string {
+    const src = redactSecrets(xmlText).xml.replace(DHCP_RESERVATION, block => block.replace(DEVICE_NAME, (whole, tag: string, v: string) =>
+      (v.trim() ? `<${tag}>${escapeXml(name('host', unescapeXml(v.trim())))}</${tag}>` : whole)));
+    const aliases = new Set<string>();
+    for (const m of src.matchAll(ALIAS_DEF)) {
+      const n = unescapeXml(m[1].trim());
+      if (n && !BUILTIN_ALIAS.test(n)) aliases.add(n);
+    }
+    return src.replace(LEAF, (whole, tag: string, attrs: string | undefined, raw: string) => {
+      const open = `<${tag}${attrs ?? ''}>`, close = `</${tag}>`;
+      if (tag === 'description') return `${open}${close}`;
+      const value = unescapeXml(raw.trim());
+      if (!value || VERSION_TAG.test(tag)) return whole;
+      if (aliases.has(value)) return `${open}${name('alias', value)}${close}`;
+      if (HOST_TAG.test(tag) && HOST_NAME.test(value)) return `${open}${host(value)}${close}`;
+      const out = text(value);
+      return out === value ? whole : `${open}${escapeXml(out)}${close}`;
+    });
+  }
+
+  return { ip, cidr, mac, host, name, text, xml };
+}
+
+/**
+ * Anonymized copy of a bundle. Credentials are redacted, descriptions and free-text notes are
+ * dropped, and the audit log is left out (it names people and real objects).
+ */
+export function anonymizeMapBundle(b: MapBundle, a: Anonymizer = makeAnonymizer()): MapBundle {
+  const rows = (t: keyof MapTableRows) => (b.tables[t] ?? []).map(r => ({ ...r }));
+  const opt = (v: unknown, f: (s: string) => string) => (v == null || v === '' ? v : f(String(v)));
+
+  const tables: MapTableRows = {
+    map_xml: rows('map_xml').map(r => ({ ...r, xml: a.xml(String(r.xml)) })),
+    map_devices: rows('map_devices').map(r => ({ ...r, name: opt(r.name, s => a.name('firewall', s)), xml: a.xml(String(r.xml)) })),
+    xml_revisions: rows('xml_revisions').map(r => ({ ...r, name: opt(r.name, s => a.name('revision', s)), xml: a.xml(String(r.xml)) })),
+    annotations2: rows('annotations2').map(r => ({ ...r, cidr: a.cidr(String(r.cidr)), note: '', edgeNote: null })),
+    fqdn_resolutions: rows('fqdn_resolutions').map(r => ({
+      ...r,
+      fqdn: a.host(String(r.fqdn)),
+      ips: opt(r.ips, s => s.split(',').map(x => a.ip(x.trim())).join(',')),
+    })),
+    lan_switches: rows('lan_switches').map(r => ({
+      ...r,
+      subnet: a.cidr(String(r.subnet)),
+      name: opt(r.name, s => a.name('switch', s)),
+      mgmtIp: opt(r.mgmtIp, a.ip),
+      location: opt(r.location, s => a.name('location', s)),
+      meta: null,
+    })),
+    lan_ports: rows('lan_ports').map(r => ({ ...r, meta: null })),
+    lan_vlans: rows('lan_vlans').map(r => ({ ...r, subnet: a.cidr(String(r.subnet)), name: r.vid == null ? opt(r.name, s => a.name('vlan', s)) : `VLAN ${r.vid}`, meta: null })),
+    lan_port_vlans: rows('lan_port_vlans'),
+    lan_hosts: rows('lan_hosts').map(r => ({
+      ...r,
+      subnet: a.cidr(String(r.subnet)),
+      ip: opt(r.ip, a.ip),
+      mac: opt(r.mac, a.mac),
+      name: opt(r.name, s => a.name('host', s)),
+      note: null,
+    })),
+    lan_bindings: rows('lan_bindings'),
+    lan_notes: [],
+    lan_locations: rows('lan_locations').map(r => ({ ...r, name: a.name('location', String(r.name)), address: null, notes: null })),
+    manual_devices: rows('manual_devices').map(r => ({ ...r, name: a.name('device', String(r.name)), mgmtIp: opt(r.mgmtIp, a.ip), notes: null })),
+    manual_networks: rows('manual_networks').map(r => ({ ...r, cidr: a.cidr(String(r.cidr)), name: opt(r.name, s => a.name('network', s)), notes: null })),
+    manual_links: rows('manual_links').map(r => ({ ...r, label: opt(r.label, a.text) })),
+    audit_log: [],
+  };
+  return {
+    ...b,
+    exportedAt: new Date().toISOString(),
+    map: { ...b.map, name: 'Anonymized map', xmlName: undefined },
+    tables,
+  };
+}
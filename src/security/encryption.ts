@@ -0,0 +1,92 @@
+// src/security/encryption.ts
+// Passphrase encryption for data at rest: the persisted database, its pre-upgrade backup and
+// exported map bundles. AES-256-GCM with a key derived from the passphrase by PBKDF2-SHA256
+// (WebCrypto). Each sealed value carries its salt, iteration count and a fresh IV, so only the
+// passphrase is needed to open it; the passphrase and key are never stored.
+
+export const SEALED_FORMAT = 'wgmap-encrypted';
+export const SEALED_VERSION = 1;
+export const MIN_PASSPHRASE_LENGTH = 8;
+const PBKDF2_ITERATIONS = 600_000;
+const MIN_ITERATIONS = 100_000; // refuse weaker files rather than derive a weak key for them
+
+export type Sealed = {
+  format: typeof SEALED_FORMAT;
+  version: number;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: Uint8Array;
+  iv: Uint8Array;
+  data: Uint8Array; // ciphertext with the GCM tag
+};
+
+export type PassphraseKey = { key: CryptoKey; salt: Uint8Array; iterations: number };
+
+const random = (n: number) => crypto.getRandomValues(new Uint8Array(n));
+
+/** salt / iterations: those of an existing sealed value to open it; omitted for a new key */
+export async function deriveKey(passphrase: string, salt: Uint8Array = random(16), iterations = PBKDF2_ITERATIONS): Promise<PassphraseKey> {
+  if (iterations < MIN_ITERATIONS) throw new Error(`Encrypted data uses too few key derivation rounds (${iterations})`);
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+  return { key, salt, iterations };
+}
+
+export async function seal(k: PassphraseKey, bytes: Uint8Array): Promise<Sealed> {
+  const iv = random(12);
+  const data = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: iv as BufferSource }, k.key, bytes as BufferSource));
+  return { format: SEALED_FORMAT, version: SEALED_VERSION, kdf: 'PBKDF2-SHA256', iterations: k.iterations, salt: k.salt, iv, data };
+}
+
+// GCM authenticates the data, so a wrong key and a tampered file fail the same way
+export async function unseal(k: PassphraseKey, s: Sealed): Promise<Uint8Array> {
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: s.iv as BufferSource }, k.key, s.data as BufferSource));
+  } catch {
+    throw new Error('Wrong passphrase (or the encrypted data is damaged)');
+  }
+}
+
+export async function unsealWith(passphrase: string, s: Sealed): Promise<Uint8Array> {
+  return unseal(await deriveKey(passphrase, s.salt, s.iterations), s);
+}
+
+export function isSealed(v: unknown): v is Sealed {
+  const s = v as Sealed;
+  return !!s && typeof s === 'object' && s.format === SEALED_FORMAT
+    && s.salt instanceof Uint8Array && s.iv instanceof Uint8Array && s.data instanceof Uint8Array;
+}
+
+// ---------------- Files ----------------
+// Sealed values written to disk are JSON with base64 fields
+
+const toBase64 = (b: Uint8Array) => {
+  let s = '';
+  for (let i = 0; i < b.length; i += 0x8000) s += String.fromCharCode(...b.subarray(i, i + 0x8000));
+  return btoa(s);
+};
+const fromBase64 = (s: string) => Uint8Array.from(atob(s), c => c.charCodeAt(0));
+
+export function sealedToJson(s: Sealed): string {
+  return JSON.stringify({ ...s, salt: toBase64(s.salt), iv: toBase64(s.iv), data: toBase64(s.data) });
+}
+
+/** null when the text is not a sealed file */
+export function sealedFromJson(text: string): Sealed | null {
+  let o: any;
+  try { o = JSON.parse(text); } catch { return null; }
+  if (!o || o.format !== SEALED_FORMAT) return null;
+  if (typeof o.version !== 'number' || o.version > SEALED_VERSION) throw new Error(`Encrypted file version ${o.version} was written by a newer version of this app (supported: ${SEALED_VERSION})`);
+  if (o.kdf !== 'PBKDF2-SHA256' || typeof o.iterations !== 'number') throw new Error(`Unsupported key derivation '${o.kdf}'`);
+  try {
+    return { ...o, salt: fromBase64(o.salt), iv: fromBase64(o.iv), data: fromBase64(o.data) };
+  } catch {
+    throw new Error('Encrypted file is damaged');
+  }
+}
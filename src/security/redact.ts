@@ -0,0 +1,49 @@
+// src/security/redact.ts
+// Strips credentials from firewall XML before it is stored: pre-shared keys, passwords, SNMP
+// communities, RADIUS/LDAP secrets, private keys and certificates. Text-based so it runs on
+// any XML string without a DOM; only leaf element text (CDATA included) and attribute values
+// are touched, so the structure the parser reads (interfaces, aliases, policies, NAT, VPN
+// peers) stays intact.
+
+export const REDACTED = 'REDACTED';
+
+// Leaf elements (and attributes) whose whole value is a secret, by name
+const SECRET_TAG = /(^|[-_])(password|passwd|passphrase|psk|key|pre-?shared-?key|shared-?key|shared-?secret|secret|community|private-?key|auth-?key|priv-?key|enc(ryption)?-?key|key-?material|pkcs12|p12)([-_]|$)/i;
+// Names that match the pattern above but hold settings rather than secrets
+const NOT_SECRET_TAG = /(^|[-_])(type|enabled?|required|length|len|size|bits|id|policy|expir\w*|life-?time|time|mode|method|format|strength|count|version|algorithm|group|exchange|usage)$/i;
+// Certificates and key blobs: PEM, or 200+ characters of base64 in any element. The base64 may
+// be wrapped, but only at line breaks between full-width lines, so long prose never matches
+const PEM = /-----BEGIN [A-Z0-9 ]+-----/;
+const BLOB = /^(?=[\s\S]{200,}$)(?:[A-Za-z0-9+/]{60,}[ \t]*\r?\n[ \t]*)*[A-Za-z0-9+/]+={0,2}$/;
+
+// Leaf text may be (or include) CDATA sections
+const LEAF = /<([A-Za-z_][\w.-]*)(\s[^<>]*)?>((?:[^<]|<!\[CDATA\[[\s\S]*?\]\]>)+)<\/\1\s*>/g;
+const CDATA = /<!\[CDATA\[([\s\S]*?)\]\]>/g;
+const START_TAG = /<([A-Za-z_][\w.-]*)(\s[^<>]*?)(\/?)>/g;
+const ATTR = /([A-Za-z_][\w.:-]*)(\s*=\s*)(?:"([^"]*)"|'([^']*)')/g;
+
+const isSecretName = (name: string) => SECRET_TAG.test(name) && !NOT_SECRET_TAG.test(name);
+
+/** count: number of values replaced */
+export function redactSecrets(xml: string): { xml: string; count: number } {
+  let count = 0;
+  const out = xml
+    .replace(START_TAG, (whole, tag: string, attrs: string, selfClose: string) => {
+      const next = attrs.replace(ATTR, (a, name: string, eq: string, dq: string | undefined, sq: string | undefined) => {
+        const value = (dq ?? sq ?? '').trim();
+        if (!value || value === REDACTED || !isSecretName(name.replace(/^.*:/, ''))) return a;
+        count++;
+        return `${name}${eq}"${REDACTED}"`;
+      });
+      return next === attrs ? whole : `<${tag}${next}${selfClose}>`;
+    })
+    .replace(LEAF, (whole, tag: string, attrs: string | undefined, text: string) => {
+      const value = text.replace(CDATA, '$1').trim();
+      if (!value || value === REDACTED) return whole;
+      const secret = isSecretName(tag) || PEM.test(value) || BLOB.test(value);
+      if (!secret) return whole;
+      count++;
+      return `<${tag}${attrs ?? ''}>${REDACTED}</${tag}>`;
+    });
+  return { xml: out, count };
+}
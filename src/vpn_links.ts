@@ -0,0 +1,112 @@
+// src/vpn_links.ts
+// Match Branch Office VPN gateways across loaded firewalls by peer address.
+//
+// A gateway on firewall A pairs with a gateway on firewall B when A's remote address
+// is one of B's addresses (gateway local address or any interface IP), or vice versa.
+// Gateways whose peer is not among the loaded firewalls are returned as unmatched so
+// the map can still show the tunnel to an external peer.
+
+import type { Domain, VpnGateway } from './parse_watchguard';
+import { isIp } from './ip';
+
+export type VpnFirewall = { id: string; name: string; domain: Domain };
+
+export type VpnPair = { local: string; remote: string };
+
+export type VpnLink = {
+  id: string;
+  aFw: string;
+  bFw: string;
+  aGateway: string;
+  bGateway: string;
+  ikeVersion?: number;
+  ikeMismatch: boolean;
+  pairs: VpnPair[]; // as seen from firewall A
+};
+
+export type VpnPeer = {
+  fwId: string;
+  gateway: string;
+  peer: string;
+  ikeVersion?: number;
+  pairs: VpnPair[];
+};
+
+function addressesOf(d: Domain): Set<string> {
+  const set = new Set<string>();
+  for (const intf of d.interfaces) {
+    if (intf.primaryIp) set.add(intf.primaryIp);
+    for (const c of intf.cidrs) set.add(c.split('/')[0]);
+  }
+  for (const g of d.vpnGateways) for (const a of g.localAddrs) set.add(a);
+  return set;
+}
+
+function pairsFor(d: Domain, gateway: string): VpnPair[] {
+  const out: VpnPair[] = [];
+  const seen = new Set<string>();
+  for (const t of d.vpnTunnels) {
+    if (t.gateway !== gateway) continue;
+    for (const p of t.pairs) {
+      const key = `${p.local}|${p.remote}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      out.push(p);
+    }
+  }
+  return out;
+}
+
+export function matchVpnTunnels(fws: VpnFirewall[]): { links: VpnLink[]; peers: VpnPeer[] } {
+  const addrs = new Map(fws.map(f => [f.id, addressesOf(f.domain)] as const));
+  const links: VpnLink[] = [];
+  const matched = new Set<string>(); // `${fwId}|${gateway}`
+
+  const pointsAt = (g: VpnGateway, fwId: string) => g.remoteAddrs.some(r => addrs.get(fwId)!.has(r));
+  // Dynamic peers are configured by hostname or not at all; they accept whoever names them
+  const isOpen = (g: VpnGateway) => !g.remoteAddrs.some(isIp);
+
+  for (let i = 0; i < fws.length; i++) {
+    for (let j = i + 1; j < fws.length; j++) {
+      const a = fws[i], b = fws[j];
+      for (const ga of a.domain.vpnGateways) {
+        for (const gb of b.domain.vpnGateways) {
+          const ab = pointsAt(ga, b.id), ba = pointsAt(gb, a.id);
+          if (!ab && !ba) continue;
+          if ((!ab && !isOpen(ga)) || (!ba && !isOpen(gb))) continue;
+          matched.add(`${a.id}|${ga.name}`);
+          matched.add(`${b.id}|${gb.name}`);
+          const aPairs = pairsFor(a.domain, ga.name);
+          const ikeMismatch = ga.ikeVersion != null && gb.ikeVersion != null && ga.ikeVersion !== gb.ikeVersion;
+          links.push({
+            id: `vpn:${a.id}:${ga.name}__${b.id}:${gb.name}`,
+            aFw: a.id,
+            bFw: b.id,
+            aGateway: ga.name,
+            bGateway: gb.name,
+            ikeVersion: ga.ikeVersion ?? gb.ikeVersion,
+            ikeMismatch,
+            pairs: aPairs.length ? aPairs : pairsFor(b.domain, gb.name).map(p => ({ local: p.remote, remote: p.local })),
+          });
+        }
+      }
+    }
+  }
+
+  const peers: VpnPeer[] = [];
+  for (const f of fws) {
+    for (const g of f.domain.vpnGateways) {
+      if (matched.has(`${f.id}|${g.name}`)) continue;
+      for (const peer of g.remoteAddrs) {
+        peers.push({ fwId: f.id, gateway: g.name, peer, ikeVersion: g.ikeVersion, pairs: pairsFor(f.domain, g.name) });
+      }
+    }
+  }
+  return { links, peers };
+}
+
+export function formatVpnPairs(pairs: VpnPair[], max = 3): string {
+  const lines = pairs.slice(0, max).map(p => `${p.local} ⇄ ${p.remote}`);
+  if (pairs.length > max) lines.push(`+${pairs.length - max} more`);
+  return lines.join('\n');
+}
@@ -0,0 +1,163 @@
+// src/xml_dom.ts
+// XML parsing for the config parsers. In the browser this is DOMParser; under Node (the CLI)
+// there is no DOM, so a small built-in parser provides the part of the Element API the parsers
+// use: tagName, textContent, children, parentElement and querySelector/querySelectorAll with
+// tag-name selectors joined by descendant (" ") or child (">") combinators and "," lists.
+
+export interface XmlElement {
+  readonly tagName: string;
+  readonly textContent: string | null;
+  readonly children: ArrayLike<XmlElement> & Iterable<XmlElement>;
+  readonly parentElement: XmlElement | null;
+  querySelector(selectors: string): XmlElement | null;
+  querySelectorAll(selectors: string): ArrayLike<XmlElement> & Iterable<XmlElement>;
+}
+
+export type XmlDocument = Pick<XmlElement, 'querySelector' | 'querySelectorAll'>;
+
+/** Throws 'Invalid XML' when the text is not well-formed */
+export function parseXml(xmlText: string): XmlDocument {
+  if (typeof DOMParser !== 'undefined') {
+    const doc = new DOMParser().parseFromString(xmlText, 'application/xml');
+    if (doc.querySelector('parsererror')) throw new Error('Invalid XML');
+    return doc;
+  }
+  return parseXmlText(xmlText);
+}
+
+// ---------------- Built-in parser ----------------
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decode(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (whole, e: string) => {
+    if (e[0] === '#') return String.fromCodePoint(e[1] === 'x' || e[1] === 'X' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10));
+    return ENTITIES[e] ?? whole;
+  });
+}
+
+class XmlNode {
+  readonly tagName: string;
+  parentElement: XmlNode | null;
+  readonly children: XmlNode[] = [];
+  readonly content: Array<XmlNode | string> = []; // child elements and text, in order
+
+  constructor(tagName: string, parent: XmlNode | null) {
+    this.tagName = tagName;
+    this.parentElement = parent;
+  }
+
+  get textContent(): string {
+    return this.content.map(c => (typeof c === 'string' ? c : c.textContent)).join('');
+  }
+
+  querySelectorAll(selectors: string): XmlNode[] {
+    const groups = parseSelectors(selectors);
+    const out: XmlNode[] = [];
+    const walk = (n: XmlNode) => {
+      for (const c of n.children) {
+        if (groups.some(g => matches(c, g, g.length - 1))) out.push(c);
+        walk(c);
+      }
+    };
+    walk(this);
+    return out;
+  }
+
+  querySelector(selectors: string): XmlNode | null {
+    return this.querySelectorAll(selectors)[0] ?? null;
+  }
+}
+
+// A selector is a list of steps; each step is a tag name (or *) and how it relates to the previous one
+type Step = { tag: string; child: boolean };
+
+const selectorCache = new Map<string, Step[][]>();
+
+function parseSelectors(selectors: string): Step[][] {
+  let groups = selectorCache.get(selectors);
+  if (groups) return groups;
+  groups = selectors.split(',').map(g => {
+    const steps: Step[] = [];
+    let child = false;
+    for (const tok of g.replace(/>/g, ' > ').trim().split(/\s+/)) {
+      if (tok === '>') { child = true; continue; }
+      if (!/^(\*|[\w.:-]+)$/.test(tok)) throw new Error(`Unsupported selector: ${selectors}`);
+      steps.push({ tag: tok, child });
+      child = false;
+    }
+    if (!steps.length) throw new Error(`Unsupported selector: ${selectors}`);
+    return steps;
+  });
+  selectorCache.set(selectors, groups);
+  return groups;
+}
+
+function matches(n: XmlNode, steps: Step[], i: number): boolean {
+  const step = steps[i];
+  if (step.tag !== '*' && step.tag !== n.tagName) return false;
+  if (i === 0) return true;
+  if (step.child) return !!n.parentElement && matches(n.parentElement, steps, i - 1);
+  for (let p = n.parentElement; p; p = p.parentElement) {
+    if (matches(p, steps, i - 1)) return true;
+  }
+  return false;
+}
+
+const NAME = /^[A-Za-z_][\w.:-]*/;
+
+function parseXmlText(xmlText: string): XmlNode {
+  const doc = new XmlNode('#document', null);
+  let cur = doc;
+  let i = 0;
+  const fail = (): never => { throw new Error('Invalid XML'); };
+  const skipTo = (end: string) => {
+    const at = xmlText.indexOf(end, i);
+    if (at < 0) fail();
+    const body = xmlText.slice(i, at);
+    i = at + end.length;
+    return body;
+  };
+
+  while (i < xmlText.length) {
+    const lt = xmlText.indexOf('<', i);
+    const text = xmlText.slice(i, lt < 0 ? xmlText.length : lt);
+    if (text) {
+      if (cur === doc) { if (text.trim()) fail(); }
+      else cur.content.push(decode(text));
+    }
+    if (lt < 0) break;
+    i = lt;
+    if (xmlText.startsWith('<!--', i)) { i += 4; skipTo('-->'); continue; }
+    if (xmlText.startsWith('<![CDATA[', i)) { i += 9; if (cur === doc) fail(); cur.content.push(skipTo(']]>')); continue; }
+    if (xmlText.startsWith('<?', i)) { i += 2; skipTo('?>'); continue; }
+    if (xmlText.startsWith('<!', i)) { i += 2; skipTo('>'); continue; } // DOCTYPE
+    if (xmlText.startsWith('</', i)) {
+      i += 2;
+      const name = skipTo('>').trim();
+      if (cur === doc || name !== cur.tagName) fail();
+      cur = cur.parentElement ?? doc;
+      continue;
+    }
+    i += 1;
+    const name = NAME.exec(xmlText.slice(i, i + 200))?.[0] ?? fail();
+    i += name.length;
+    // Attributes are skipped (the parsers read element text only); quoted values may hold '>'
+    let selfClosing = false;
+    for (;;) {
+      const c = xmlText[i];
+      if (c === undefined) fail();
+      if (c === '"' || c === "'") { i++; skipTo(c); continue; }
+      if (c === '>') { i++; break; }
+      if (c === '/' && xmlText[i + 1] === '>') { i += 2; selfClosing = true; break; }
+      i++;
+    }
+    if (cur === doc && doc.children.length) fail(); // a second root element
+    const el = new XmlNode(name, cur === doc ? null : cur); // like the DOM, the root has no parent element
+    cur.children.push(el);
+    cur.content.push(el);
+    if (!selfClosing) cur = el;
+  }
+  if (cur !== doc || !doc.children.length) fail();
+  return doc;
+}
@@ -7,31 +7,50 @@
 //   <to-alias-list><alias>NAME</alias>…</to-alias-list>
 // Aliases/Address groups are resolved by parse_watchguard.ts.
 
-import type { RawConfig, AliasUniverse, ResolvedAlias } from './parse_watchguard';
+import { resolveService, parseWatchGuardXmlText, toDomain, makeAliasUniverse, type RawConfig, type Domain, type FqdnTable, type AliasUniverse, type ResolvedAlias, type ServiceEntry, type NatTranslation } from './parse_watchguard';
+import { overlaps, isIp } from './ip';
+import { parseXml, type XmlDocument, type XmlElement } from './xml_dom';
+
+// Fireware firewall action: 1 = Allowed, 2 = Denied (silently dropped), 3 = Denied (send reset).
+export type PolicyAction = 'allow' | 'drop' | 'deny';
 
 export type UnifiedPolicy = {
   id: string;
   name: string;
+  action?: PolicyAction;
+  enabled?: boolean;
+  log?: boolean;
+  order?: number; // effective precedence, 1 = evaluated first
   service?: string;
+  serviceEntries?: ServiceEntry[]; // concrete proto/port ranges the service permits
   fromAliases: string[]; // as read from XML (alias names)
   toAliases: string[];
   srcCidrs: string[];
   dstCidrs: string[];
   srcHosts: string[];
   dstHosts: string[];
+  srcFqdns?: string[]; // FQDN members, kept by name
+  dstFqdns?: string[];
   source: 'XML' | 'XLS' | 'PDF';
   tags?: string[];
-  nat?: { dnat?: boolean; oneToOne?: boolean };
+  nat?: PolicyNat;
   debug?: string[];
 };
 
+// dnat = the policy's dynamic NAT switch; snat = SNAT actions the policy sends traffic to.
+export type PolicyNat = { dnat?: boolean; oneToOne?: boolean; snat?: string[]; translations?: NatTranslation[] };
+
 type PolicyNode = {
   name: string;
   id: string;
+  action: PolicyAction;
+  enabled: boolean;
+  log: boolean;
+  order: number;
   service?: string;
   fromNames: string[];
   toNames: string[];
-  nat?: { dnat?: boolean; oneToOne?: boolean };
+  nat?: PolicyNat;
 };
 
 type AbsPolicyNode = {
@@ -43,23 +62,34 @@ type AbsPolicyNode = {
 
 // ---------------- helpers ----------------
 
-function els(el: Element | Document, selector: string): Element[] {
+function els(el: XmlElement | XmlDocument, selector: string): XmlElement[] {
   return Array.from(el.querySelectorAll(selector));
 }
-function textContent(el: Element | null, tag: string): string | undefined {
+function textContent(el: XmlElement | null, tag: string): string | undefined {
   if (!el) return undefined;
   const child = el.querySelector(tag);
   return child ? (child.textContent || undefined) : undefined;
 }
-function directText(el: Element | null): string | undefined {
+function directText(el: XmlElement | null): string | undefined {
   return el ? (el.textContent || undefined) : undefined;
 }
+// Only direct children: policies embed proxy/NAT blocks that reuse tags like <enable>.
+function childText(el: XmlElement, ...tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const child = Array.from(el.children).find(c => c.tagName === tag);
+    if (child) return (child.textContent || '').trim();
+  }
+  return undefined;
+}
+function flag(v: string | undefined, dflt: boolean): boolean {
+  if (v === undefined || v === '') return dflt;
+  return /^(1|true|yes|enabled?)$/i.test(v);
+}
 
 // ---------------- main ----------------
 
 export function xmlPoliciesToUnified(raw: RawConfig, universe: AliasUniverse): UnifiedPolicy[] {
-  const doc = new DOMParser().parseFromString(raw.xmlText, 'application/xml');
-  if (doc.querySelector('parsererror')) throw new Error('Invalid XML');
+  const doc = parseXml(raw.xmlText);
 
   const concrete = parseConcretePolicies(doc);
   const abs = parseAbsPolicies(doc);
@@ -68,7 +98,7 @@ export function xmlPoliciesToUnified(raw: RawConfig, universe: AliasUniverse): U
   const byName = new Map(concrete.map(p => [p.name, p]));
 
   // Start with concrete
-  const unified: UnifiedPolicy[] = concrete.map(p => materializeUnified(p, universe, 'XML'));
+  const unified: UnifiedPolicy[] = concrete.map(p => materializeUnified(p, raw, universe, 'XML'));
 
   // Apply abs overlays
   for (const a of abs) {
@@ -80,7 +110,7 @@ export function xmlPoliciesToUnified(raw: RawConfig, universe: AliasUniverse): U
         fromNames: a.fromNames.length ? a.fromNames : base.fromNames,
         toNames: a.toNames.length ? a.toNames : base.toNames,
       };
-      unified.push(materializeUnified(merged, universe, 'XML'));
+      unified.push(materializeUnified(merged, raw, universe, 'XML'));
     }
   }
 
@@ -95,20 +125,35 @@ export function xmlPoliciesToUnified(raw: RawConfig, universe: AliasUniverse): U
       t: [...u.dstCidrs].sort(),
       fh: [...u.srcHosts].sort(),
       th: [...u.dstHosts].sort(),
+      ff: [...(u.srcFqdns ?? [])].sort(),
+      tf: [...(u.dstFqdns ?? [])].sort(),
     });
     if (!seen.has(key)) { seen.add(key); out.push(u); }
   }
   return out;
 }
 
+/** One device's XML all the way to its policies, for views that look at every loaded firewall */
+export async function policiesFromXmlText(xmlText: string, fqdnTable?: FqdnTable): Promise<{ raw: RawConfig; domain: Domain; policies: UnifiedPolicy[] }> {
+  const raw = await parseWatchGuardXmlText(xmlText);
+  const domain = toDomain(raw);
+  return { raw, domain, policies: xmlPoliciesToUnified(raw, makeAliasUniverse(raw, domain, fqdnTable)) };
+}
+
 // ---------------- parsers ----------------
 
-function parseConcretePolicies(doc: Document): PolicyNode[] {
+function parseConcretePolicies(doc: XmlDocument): PolicyNode[] {
   const out: PolicyNode[] = [];
-  els(doc, 'policy-list > policy').forEach(p => {
+  els(doc, 'policy-list > policy').forEach((p, idx) => {
     const name = textContent(p, 'name') || '';
     const id = textContent(p, 'policy-id') || name;
     const service = textContent(p, 'service');
+    const action = parseAction(childText(p, 'firewall', 'action'));
+    const enabled = flag(childText(p, 'enable', 'enabled'), true);
+    const log = flag(childText(p, 'log', 'send-log', 'log-enabled'), false);
+    // Explicit precedence when the export carries one; otherwise the list order is the rule order.
+    const explicitOrder = parseInt(childText(p, 'order', 'policy-order', 'precedence') || '', 10);
+    const order = Number.isFinite(explicitOrder) ? explicitOrder : idx + 1;
 
     // YOUR XML: from-alias-list > alias (text), to-alias-list > alias (text)
     const fromNames = els(p, 'from-alias-list > alias')
@@ -119,12 +164,12 @@ function parseConcretePolicies(doc: Document): PolicyNode[] {
       .filter(Boolean);
 
     const nat = parseNatFlags(p);
-    out.push({ name, id, service, fromNames, toNames, nat });
+    out.push({ name, id, action, enabled, log, order, service, fromNames, toNames, nat });
   });
   return out;
 }
 
-function parseAbsPolicies(doc: Document): AbsPolicyNode[] {
+function parseAbsPolicies(doc: XmlDocument): AbsPolicyNode[] {
   const out: AbsPolicyNode[] = [];
   els(doc, 'abs-policy-list > abs-policy').forEach(ap => {
     const fromNames = els(ap, 'from-alias-list > alias')
@@ -141,18 +186,63 @@ function parseAbsPolicies(doc: Document): AbsPolicyNode[] {
   return out;
 }
 
-function parseNatFlags(p: Element): PolicyNode['nat'] {
-  const dnat = p.querySelector('dnat') ? true : undefined;
-  const oneToOne = p.querySelector('one-to-one-nat') ? true : undefined;
-  if (dnat || oneToOne) return { dnat, oneToOne };
+function parseAction(v?: string): PolicyAction {
+  const t = (v || '').toLowerCase();
+  if (t === '2' || t === 'denied' || t === 'drop') return 'drop';
+  if (t === '3' || t.includes('reset') || t === 'deny') return 'deny';
+  return 'allow';
+}
+
+// NAT switches may be bare tags or carry a value; only an explicit off value disables them.
+function natSwitch(el: XmlElement | null): true | undefined {
+  if (!el) return undefined;
+  return /^(0|false|no|disabled?)$/i.test((el.textContent || '').trim()) ? undefined : true;
+}
+
+function parseNatFlags(p: XmlElement): PolicyNode['nat'] {
+  const dnat = natSwitch(p.querySelector('dnat'));
+  const oneToOne = natSwitch(p.querySelector('one-to-one-nat'));
+  const snat = els(p, 'snat-name, snat-action').map(e => (e.textContent || '').trim()).filter(Boolean);
+  if (dnat || oneToOne || snat.length) return { dnat, oneToOne, snat: snat.length ? snat : undefined };
   return undefined;
 }
 
 // ---------------- materialization ----------------
 
-function resolveAliasList(names: string[], universe: AliasUniverse): { cidrs: Set<string>, hosts: Set<string>, notes: string[] } {
+// Does a NAT address (CIDR, IP or alias name) touch the policy side?
+function natTouches(addr: string, side: { cidrs: Set<string>, hosts: Set<string> }, names: string[]): boolean {
+  if (names.includes(addr)) return true;
+  if (!isIp(addr.split('/')[0])) return false;
+  for (const x of side.cidrs) if (overlaps(addr, x)) return true;
+  for (const h of side.hosts) if (overlaps(addr, h)) return true;
+  return false;
+}
+
+function natTranslations(node: PolicyNode, snatNames: string[], raw: RawConfig, from: { cidrs: Set<string>, hosts: Set<string> }, to: { cidrs: Set<string>, hosts: Set<string> }): NatTranslation[] {
+  const out: NatTranslation[] = [];
+  for (const n of snatNames) {
+    for (const m of raw.snatActions.get(n)?.members ?? []) out.push({ kind: 'static', rule: n, ...m });
+  }
+  // 1-to-1 entries apply inbound (public side in To) and outbound (private side in From)
+  if (node.nat?.oneToOne) {
+    for (const e of raw.oneToOneNat) {
+      if (natTouches(e.extAddr, to, node.toNames) || natTouches(e.intAddr, from, node.fromNames) || natTouches(e.intAddr, to, node.toNames)) {
+        out.push({ kind: 'one-to-one', ...e });
+      }
+    }
+  }
+  if (node.nat?.dnat) {
+    for (const e of raw.dynamicNat) {
+      if (natTouches(e.src, from, node.fromNames)) out.push({ kind: 'dynamic', ...e });
+    }
+  }
+  return out;
+}
+
+function resolveAliasList(names: string[], universe: AliasUniverse): { cidrs: Set<string>, hosts: Set<string>, fqdns: Set<string>, notes: string[] } {
   const cidrs = new Set<string>();
   const hosts = new Set<string>();
+  const fqdns = new Set<string>();
   const notes: string[] = [];
 
   for (const n of names) {
@@ -160,29 +250,46 @@ function resolveAliasList(names: string[], universe: AliasUniverse): { cidrs: Se
     const r: ResolvedAlias = universe.resolveAlias(n);
     r.cidrs.forEach(c => cidrs.add(c));
     r.hosts.forEach(h => hosts.add(h));
+    r.fqdns.forEach(f => fqdns.add(f));
     if (r.notes.length) notes.push(...r.notes.map(x => `[${n}] ${x}`));
   }
 
-  return { cidrs, hosts, notes };
+  return { cidrs, hosts, fqdns, notes };
 }
 
-function materializeUnified(node: PolicyNode, universe: AliasUniverse, source: 'XML' | 'XLS'): UnifiedPolicy {
+function materializeUnified(node: PolicyNode, raw: RawConfig, universe: AliasUniverse, source: 'XML' | 'XLS'): UnifiedPolicy {
+  // SNAT actions appear in the To list; they are translations, not aliases
+  const snatNames = Array.from(new Set([...(node.nat?.snat ?? []), ...node.toNames.filter(n => raw.snatActions.has(n))]));
   const from = resolveAliasList(node.fromNames, universe);
-  const to = resolveAliasList(node.toNames, universe);
+  const to = resolveAliasList(node.toNames.filter(n => !raw.snatActions.has(n)), universe);
+  const svc = node.service ? resolveService(raw, node.service) : undefined;
+  const translations = natTranslations(node, snatNames, raw, from, to);
+  // Traffic through a static NAT lands on the internal host
+  for (const t of translations) if (t.kind === 'static' && isIp(t.intAddr)) to.hosts.add(t.intAddr);
+  const nat = node.nat || translations.length
+    ? { ...node.nat, snat: snatNames.length ? snatNames : undefined, translations: translations.length ? translations : undefined }
+    : undefined;
 
   return {
     id: node.id,
     name: node.name,
+    action: node.action,
+    enabled: node.enabled,
+    log: node.log,
+    order: node.order,
     service: node.service,
+    serviceEntries: svc?.entries,
     fromAliases: node.fromNames,
     toAliases: node.toNames,
     srcCidrs: Array.from(from.cidrs),
     dstCidrs: Array.from(to.cidrs),
     srcHosts: Array.from(from.hosts),
     dstHosts: Array.from(to.hosts),
+    srcFqdns: from.fqdns.size ? Array.from(from.fqdns) : undefined,
+    dstFqdns: to.fqdns.size ? Array.from(to.fqdns) : undefined,
     source,
-    nat: node.nat,
+    nat,
     tags: [],
-    debug: [...from.notes, ...to.notes],
+    debug: [...from.notes, ...to.notes, ...(svc?.notes ?? []).map(x => `[${node.service}] ${x}`)],
   };
 }
@@ -0,0 +1,132 @@
+import React from 'react';
+import { buildZoneMatrix, zoneMatrixToCsv, cellKey, type MatrixMode } from './zone_matrix';
+import { formatServiceEntry, type Domain, type FqdnTable } from '../parse_watchguard';
+import { policiesFromXmlText, type UnifiedPolicy } from '../xml_to_upolicy';
+
+export default function ZoneMatrix(props: {
+  firewalls: Array<{ id: string; name: string; domain: Domain; xmlText?: string }>;
+  fqdnTable?: FqdnTable;
+  onClose: ()=>void;
+  onShowPolicies?: (label: string, policies: UnifiedPolicy[])=>void;
+}) {
+  const { firewalls, fqdnTable, onClose, onShowPolicies } = props;
+  const [fwId, setFwId] = React.useState(firewalls[0]?.id ?? '');
+  const [mode, setMode] = React.useState<MatrixMode>('zone');
+  const [policies, setPolicies] = React.useState<UnifiedPolicy[] | null>(null);
+  const [picked, setPicked] = React.useState<{ row: string; col: string } | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const fw = firewalls.find(f => f.id === fwId);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setPolicies(null); setPicked(null); setError(null);
+    (async () => {
+      try {
+        const out = fw?.xmlText && fw.xmlText.trim() ? (await policiesFromXmlText(fw.xmlText, fqdnTable)).policies : [];
+        if (!cancelled) setPolicies(out);
+      } catch (e: any) {
+        if (!cancelled) setError(String(e?.message ?? e));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [fw, fqdnTable]);
+
+  const matrix = React.useMemo(() => (policies && fw ? buildZoneMatrix(policies, fw.domain, mode) : null), [policies, fw, mode]);
+  const pickedCell = picked && matrix ? matrix.cells.get(cellKey(picked.row, picked.col)) : undefined;
+
+  function downloadCsv() {
+    if (!matrix) return;
+    const blob = new Blob([zoneMatrixToCsv(matrix)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = `access-matrix-${mode}.csv`; a.click();
+    setTimeout(()=> URL.revokeObjectURL(url), 5000);
+  }
+
+  const th: React.CSSProperties = { textAlign: 'left', padding: '4px 6px', borderBottom: '1px solid #1f2a44', fontWeight: 600, background: '#0f1a2b' };
+  const td: React.CSSProperties = { padding: '4px 6px', border: '1px solid #1f2a44', verticalAlign: 'top', minWidth: 90 };
+  const select: React.CSSProperties = { background: '#0b1220', color: '#e6edf7', border: '1px solid #2b3b5e', borderRadius: 6, padding: '2px 6px' };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1000, background: 'rgba(0,0,0,0.45)', display: 'grid', placeItems: 'center' }} onClick={onClose}>
+      <div style={{ background: '#0f1a2b', color: '#e6edf7', border: '1px solid #1f2a44', borderRadius: 10, padding: 12, width: 1000, maxHeight: '80vh', overflow: 'auto' }} onClick={e=>e.stopPropagation()}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>Access matrix</div>
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: 6 }}>
+            <button type="button" onClick={downloadCsv} disabled={!matrix?.rows.length} style={{ background: '#1d4ed8', color: 'white', border: 'none', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Export CSV</button>
+            <button type="button" onClick={onClose} style={{ background: 'transparent', color: '#e6edf7', border: '1px solid #2b3b5e', padding: '4px 10px', borderRadius: 6, cursor: 'pointer' }}>Close</button>
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 10, fontSize: 12 }}>
+          {firewalls.length > 1 && (
+            <select value={fwId} onChange={e=> setFwId(e.target.value)} style={select}>
+              {firewalls.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+            </select>
+          )}
+          <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}><input type="radio" checked={mode === 'zone'} onChange={()=> { setMode('zone'); setPicked(null); }} /> Zones</label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}><input type="radio" checked={mode === 'interface'} onChange={()=> { setMode('interface'); setPicked(null); }} /> Interfaces</label>
+          <div style={{ marginLeft: 'auto', opacity: 0.7 }}>Rows: from · Columns: to · enabled allow policies</div>
+        </div>
+        {error ? (
+          <div style={{ color: '#fca5a5' }}>{error}</div>
+        ) : !matrix ? (
+          <div style={{ opacity: 0.7 }}>Loading policies…</div>
+        ) : matrix.rows.length === 0 ? (
+          <div style={{ opacity: 0.7 }}>No allow policies.</div>
+        ) : (
+          <table style={{ borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={th}>from \ to</th>
+                {matrix.cols.map(c => <th key={c} style={th}>{c}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.rows.map(r => (
+                <tr key={r}>
+                  <th style={th}>{r}</th>
+                  {matrix.cols.map(c => {
+                    const cell = matrix.cells.get(cellKey(r, c));
+                    const active = picked?.row === r && picked?.col === c;
+                    return (
+                      <td key={c} onClick={()=> cell && setPicked({ row: r, col: c })} style={{ ...td, cursor: cell ? 'pointer' : 'default', background: active ? '#1e3a8a' : cell ? (cell.anyService || cell.anyAddress ? '#3b1d1d' : '#10291c') : 'transparent' }}>
+                        {cell ? (
+                          <>
+                            <div style={{ fontWeight: 600 }}>{cell.policies.length} polic{cell.policies.length === 1 ? 'y' : 'ies'}</div>
+                            <div style={{ opacity: 0.8 }}>{cell.services.slice(0, 4).join(', ')}{cell.services.length > 4 ? ` +${cell.services.length - 4}` : ''}</div>
+                            {(cell.anyService || cell.anyAddress) && (
+                              <div style={{ color: '#fca5a5' }}>{[cell.anyService ? 'any service' : '', cell.anyAddress ? 'Any address' : ''].filter(Boolean).join(' · ')}</div>
+                            )}
+                          </>
+                        ) : <span style={{ opacity: 0.3 }}>—</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {picked && pickedCell && (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+              <div style={{ fontWeight: 600 }}>{picked.row} → {picked.col}</div>
+              {onShowPolicies && (
+                <button type="button" onClick={()=> onShowPolicies(`${picked.row} → ${picked.col}`, pickedCell.policies)} style={{ marginLeft: 'auto', background: 'transparent', color: '#93c5fd', border: '1px solid #2b3b5e', padding: '2px 8px', borderRadius: 6, cursor: 'pointer', fontSize: 12 }}>Show in Policies panel</button>
+              )}
+            </div>
+            <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'grid', gap: 4, fontSize: 12 }}>
+              {pickedCell.policies.slice().sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity)).map((p, i) => (
+                <li key={`${p.id}-${i}`} style={{ border: '1px solid #1f2a44', borderRadius: 6, padding: 6 }}>
+                  <span style={{ opacity: 0.7 }}>{typeof p.order === 'number' ? `#${p.order} ` : ''}</span><b>{p.name}</b>
+                  <span style={{ opacity: 0.8 }}> — {p.serviceEntries?.length ? p.serviceEntries.map(formatServiceEntry).join(', ') : p.service ?? ''}</span>
+                  <div style={{ opacity: 0.7 }}>{p.fromAliases.join(', ') || '—'} → {p.toAliases.join(', ') || '—'}</div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
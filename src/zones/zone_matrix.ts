@@ -0,0 +1,116 @@
+// src/zones/zone_matrix.ts
+// Zone-to-zone (or interface-to-interface) access matrix: which allow policies let traffic
+// from one side of the firewall to another. Addresses are placed on the interface whose network
+// holds them, or that routes to them; anything else counts as External (the internet).
+
+import { cidrContainsIp, overlaps, subtractCidrs } from '../ip';
+import type { Domain } from '../parse_watchguard';
+import type { UnifiedPolicy } from '../xml_to_upolicy';
+import { csvCell } from '../csv';
+
+export type MatrixMode = 'zone' | 'interface';
+
+export type MatrixCell = {
+  policies: UnifiedPolicy[];
+  services: string[];
+  anyService: boolean; // at least one policy allows any service
+  anyAddress: boolean; // at least one policy uses Any on either side
+};
+
+export type ZoneMatrix = {
+  rows: string[]; // source zones/interfaces
+  cols: string[]; // destination zones/interfaces
+  cells: Map<string, MatrixCell>; // key: `${row}\u0000${col}`
+};
+
+export const FIREBOX = 'Firebox';
+const EXTERNAL = 'External';
+
+export const cellKey = (row: string, col: string) => `${row}\u0000${col}`;
+
+type Side = { aliases: string[]; cidrs: string[]; hosts: string[] };
+
+function placesFor(side: Side, d: Domain, mode: MatrixMode): { places: Set<string>; any: boolean } {
+  const places = new Set<string>();
+  let any = false;
+  const label = (i: Domain['interfaces'][number]) => (mode === 'zone' ? i.zone ?? 'Custom' : i.name);
+  const externalPlaces = mode === 'zone' ? [EXTERNAL] : d.interfaces.filter(i => i.zone === 'External').map(i => i.name);
+  const addExternal = () => (externalPlaces.length ? externalPlaces : [EXTERNAL]).forEach(p => places.add(p));
+
+  for (const a of side.aliases) {
+    if (a === 'Any') { any = true; d.interfaces.forEach(i => places.add(label(i))); addExternal(); }
+    else if (a === 'Firebox') places.add(FIREBOX);
+    else if (a === 'Any-External') addExternal();
+    else if (a === 'Any-Trusted' || a === 'Any-Optional') {
+      const zone = a.slice(4);
+      d.interfaces.filter(i => i.zone === zone).forEach(i => places.add(label(i)));
+    }
+  }
+  if (any) return { places, any };
+
+  const inside = (addr: string, isCidr: boolean) => {
+    let hit = false;
+    for (const i of d.interfaces) {
+      if (i.zone === 'External') continue;
+      const onIface = i.cidrs.some(c => (isCidr ? overlaps(c, addr) : cidrContainsIp(c, addr)));
+      const routed = d.routes.some(r => r.kind !== 'default' && r.nextHop && i.cidrs.some(c => cidrContainsIp(c, r.nextHop!))
+        && (isCidr ? overlaps(r.dest, addr) : cidrContainsIp(r.dest, addr)));
+      if (onIface || routed) { places.add(label(i)); hit = true; }
+    }
+    return hit;
+  };
+  // Whatever part of a network is not inside (e.g. 0.0.0.0/0) reaches the internet too
+  const internal = [
+    ...d.interfaces.filter(i => i.zone !== 'External').flatMap(i => i.cidrs),
+    ...d.routes.filter(r => r.kind !== 'default' && r.nextHop && d.interfaces.some(i => i.zone !== 'External' && i.cidrs.some(c => cidrContainsIp(c, r.nextHop!)))).map(r => r.dest),
+  ];
+  for (const c of side.cidrs) {
+    inside(c, true);
+    if (subtractCidrs([c], internal).length) addExternal();
+  }
+  for (const h of side.hosts) if (!inside(h, false)) addExternal();
+  return { places, any };
+}
+
+function sortPlaces(names: Iterable<string>, d: Domain, mode: MatrixMode): string[] {
+  const order = mode === 'zone'
+    ? ['Trusted', 'Optional', 'Custom', EXTERNAL, FIREBOX]
+    : [...d.interfaces.map(i => i.name), EXTERNAL, FIREBOX];
+  const rank = (n: string) => { const i = order.indexOf(n); return i < 0 ? order.length : i; };
+  return Array.from(new Set(names)).sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
+
+export function buildZoneMatrix(policies: UnifiedPolicy[], d: Domain, mode: MatrixMode): ZoneMatrix {
+  const cells = new Map<string, MatrixCell>();
+  const rows = new Set<string>(), cols = new Set<string>();
+  for (const p of policies) {
+    if (p.enabled === false || (p.action && p.action !== 'allow')) continue;
+    const src = placesFor({ aliases: p.fromAliases, cidrs: p.srcCidrs, hosts: p.srcHosts }, d, mode);
+    const dst = placesFor({ aliases: p.toAliases, cidrs: p.dstCidrs, hosts: p.dstHosts }, d, mode);
+    const anyService = /^any$/i.test(p.service ?? '') || !!p.serviceEntries?.some(e => e.proto === 'any');
+    for (const r of src.places) {
+      for (const c of dst.places) {
+        rows.add(r); cols.add(c);
+        const k = cellKey(r, c);
+        const cell = cells.get(k) ?? { policies: [], services: [], anyService: false, anyAddress: false };
+        cell.policies.push(p);
+        if (p.service && !cell.services.includes(p.service)) cell.services.push(p.service);
+        cell.anyService ||= anyService;
+        cell.anyAddress ||= src.any || dst.any;
+        cells.set(k, cell);
+      }
+    }
+  }
+  return { rows: sortPlaces(rows, d, mode), cols: sortPlaces(cols, d, mode), cells };
+}
+
+export function zoneMatrixToCsv(m: ZoneMatrix): string {
+  const header = ['from \\ to', ...m.cols];
+  const lines = m.rows.map(r => [r, ...m.cols.map(c => {
+    const cell = m.cells.get(cellKey(r, c));
+    if (!cell) return '';
+    const flags = [cell.anyService ? 'any service' : '', cell.anyAddress ? 'Any address' : ''].filter(Boolean).join(', ');
+    return `${cell.policies.length} (${cell.services.join(' ')})${flags ? ` [${flags}]` : ''}`;
+  })].map(csvCell).join(','));
+  return [header.map(csvCell).join(','), ...lines].join('\n');
+}
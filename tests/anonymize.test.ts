@@ -0,0 +1,105 @@
+// tests/anonymize.test.ts
+// The stand-ins from makeAnonymizer in src/security/anonymize.ts. They are random, so the tests
+// check what must hold for every run: consistency, prefix preservation, address classes, and
+// what the XML keeps (structure, builtin aliases, versions) and loses (secrets, descriptions).
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { makeAnonymizer } from '../src/security/anonymize';
+import { cidrContains, cidrContainsIp, ipFamily, normalizeCidr } from '../src/ip';
+import { REDACTED } from '../src/security/redact';
+
+test('the same value always gets the same stand-in', () => {
+  const a = makeAnonymizer();
+  assert.equal(a.ip('10.1.2.3'), a.ip('10.1.2.3'));
+  assert.equal(a.ip('2001:db8:abcd::1'), a.ip('2001:DB8:ABCD:0::1'));
+  assert.equal(a.mac('00:11:22:33:44:55'), a.mac('00-11-22-33-44-55'));
+  assert.equal(a.name('host', 'printer'), 'host-1');
+  assert.equal(a.name('host', 'scanner'), 'host-2');
+  assert.equal(a.name('host', 'printer'), 'host-1');
+  assert.equal(a.name('switch', 'printer'), 'switch-1');
+});
+
+test('IPv4 keeps its class, the last octet and shared prefixes', () => {
+  const a = makeAnonymizer();
+  const inside = (cidr: string, ip: string) => assert.ok(cidrContainsIp(cidr, ip), `${ip} outside ${cidr}`);
+  inside('10.0.0.0/8', a.ip('10.20.30.40'));
+  inside('172.16.0.0/12', a.ip('172.20.1.2'));
+  inside('192.168.0.0/16', a.ip('192.168.5.6'));
+  inside('100.64.0.0/10', a.ip('100.70.0.1'));
+  assert.ok(a.ip('10.20.30.40').endsWith('.40'));
+
+  const pub = a.ip('8.8.8.8');
+  assert.ok(pub.endsWith('.8'));
+  for (const priv of ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', '100.64.0.0/10', '127.0.0.0/8', '203.0.113.0/24']) {
+    assert.ok(!cidrContainsIp(priv, pub), `${pub} in ${priv}`);
+  }
+
+  // A subnet still contains its hosts, and the mapped subnet is still aligned
+  const net = a.cidr('10.20.30.0/24');
+  assert.equal(net, normalizeCidr(net));
+  inside(net, a.ip('10.20.30.77'));
+  assert.ok(cidrContains(a.cidr('10.20.0.0/16'), net));
+  assert.ok(!cidrContainsIp(net, a.ip('10.20.31.77')));
+});
+
+test('special addresses and netmasks are left alone', () => {
+  const a = makeAnonymizer();
+  for (const same of ['0.0.0.0', '127.0.0.1', '224.0.0.5', '255.255.255.0', '255.255.252.0', '::1', 'ff02::1']) {
+    assert.equal(a.ip(same), same);
+  }
+  assert.equal(a.ip('not-an-ip'), 'not-an-ip');
+});
+
+test('IPv6 moves global space to the documentation prefix and keeps local scopes', () => {
+  const a = makeAnonymizer();
+  const g = a.ip('2a00:1450:4001:81c::200e');
+  assert.equal(ipFamily(g), 6);
+  assert.ok(cidrContainsIp('2001:db8::/32', g));
+  assert.ok(g.endsWith(':200e'));
+  assert.ok(cidrContainsIp('fe80::/10', a.ip('fe80::1234')));
+  assert.ok(cidrContainsIp('fc00::/7', a.ip('fd12:3456::1')));
+  assert.ok(cidrContains(a.cidr('2a00:1450::/32'), a.cidr('2a00:1450:4001::/48')));
+});
+
+test('MACs become locally administered stand-ins, hosts move under .example', () => {
+  const a = makeAnonymizer();
+  assert.equal(a.mac('00:11:22:33:44:55'), '02:00:00:00:00:01');
+  assert.equal(a.mac('0011.2233.4466'), '02:00:00:00:00:02');
+  assert.equal(a.host('Mail.Corp.com'), 'site-1.example');
+  assert.equal(a.host('mail.corp.com'), 'site-1.example');
+  assert.equal(a.host('*.corp.com'), '*.domain-1.example');
+});
+
+test('free text has its addresses and MACs replaced', () => {
+  const a = makeAnonymizer();
+  const out = a.text('uplink 10.1.1.1 (00:11:22:33:44:55) to 10.1.1.0/24, mask 255.255.255.0, v1.2.3.4.5');
+  assert.equal(out, `uplink ${a.ip('10.1.1.1')} (${a.mac('00:11:22:33:44:55')}) to ${a.cidr('10.1.1.0/24')}, mask 255.255.255.0, v1.2.3.4.5`);
+});
+
+test('XML keeps its structure while names, addresses, secrets and descriptions go', () => {
+  const a = makeAnonymizer();
+  const xml = [
+    '<profile><for-version>12.10.4</for-version>',
+    '<alias-list><alias><name>HQ-Servers</name><description>Room 12 racks</description></alias>',
+    '<alias><name>Any-External</name></alias></alias-list>',
+    '<policy-list><policy><to-alias-list><alias>HQ-Servers</alias><alias>Any-External</alias></to-alias-list></policy></policy-list>',
+    '<interface><ip>192.168.10.1</ip><netmask>255.255.255.0</netmask></interface>',
+    '<gateway><remote-hostname>vpn.corp.com</remote-hostname><psk>s3cr3t</psk></gateway>',
+    '<reserved-address><name>CEO-Laptop</name><ip>192.168.10.50</ip></reserved-address>',
+    '</profile>',
+  ].join('');
+  const out = a.xml(xml);
+  assert.ok(out.includes('<for-version>12.10.4</for-version>'));
+  assert.ok(out.includes('<name>alias-1</name><description></description>'));
+  assert.ok(out.includes('<alias>alias-1</alias><alias>Any-External</alias>'));
+  assert.ok(out.includes('<name>Any-External</name>'));
+  assert.ok(out.includes(`<ip>${a.ip('192.168.10.1')}</ip><netmask>255.255.255.0</netmask>`));
+  assert.ok(out.includes('<remote-hostname>site-1.example</remote-hostname>'));
+  assert.ok(out.includes(`<psk>${REDACTED}</psk>`));
+  assert.ok(out.includes(`<name>host-1</name><ip>${a.ip('192.168.10.50')}</ip>`));
+  // Addresses are checked above: a 192.168 stand-in has only 8 random bits and may equal the original
+  for (const leak of ['HQ-Servers', 'Room 12', 'corp.com', 's3cr3t', 'CEO-Laptop']) {
+    assert.ok(!out.includes(leak), leak);
+  }
+});
@@ -0,0 +1,39 @@
+// tests/golden.ts
+// What the golden files record for each fixture: the domain (toDomain), every alias and address
+// group resolved (makeAliasUniverse), the unified policies (xmlPoliciesToUnified) and their merge
+// with the fixture's spreadsheet policies, if it has any (mergePolicies).
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import { parseWatchGuardXmlText, toDomain, makeAliasUniverse } from '../src/parse_watchguard';
+import { xmlPoliciesToUnified } from '../src/xml_to_upolicy';
+import { mergePolicies } from '../src/merge_policies';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+export const FIXTURES_DIR = path.join(here, 'fixtures');
+export const GOLDEN_DIR = path.join(here, 'golden');
+
+/** Fixture names: <name>.xml, with optional <name>.xls.json (policies as read from a spreadsheet) */
+export function fixtureNames(): string[] {
+  return readdirSync(FIXTURES_DIR).filter(f => f.endsWith('.xml')).map(f => f.slice(0, -4)).sort();
+}
+
+export const goldenPath = (name: string) => path.join(GOLDEN_DIR, `${name}.json`);
+
+export async function snapshot(name: string): Promise<string> {
+  const raw = await parseWatchGuardXmlText(readFileSync(path.join(FIXTURES_DIR, `${name}.xml`), 'utf8'));
+  const domain = toDomain(raw);
+  const universe = makeAliasUniverse(raw, domain);
+  const aliases = Object.fromEntries([...new Set([...raw.aliasesByName.keys(), ...raw.addrGroupsByName.keys()])].sort().map(n => [n, universe.resolveAlias(n)]));
+  const policies = xmlPoliciesToUnified(raw, universe);
+  const xlsFile = path.join(FIXTURES_DIR, `${name}.xls.json`);
+  const xls = existsSync(xlsFile) ? JSON.parse(readFileSync(xlsFile, 'utf8')) : [];
+  const merged = mergePolicies(policies, xls);
+  // Maps and Sets become objects and arrays
+  return `${JSON.stringify({ domain, aliases, policies, merged }, (_key, v) => (v instanceof Map ? Object.fromEntries(v) : v instanceof Set ? [...v] : v), 2)}\n`;
+}
+
+export async function writeGolden(name: string): Promise<void> {
+  writeFileSync(goldenPath(name), await snapshot(name), 'utf8');
+}
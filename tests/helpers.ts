@@ -0,0 +1,17 @@
+// tests/helpers.ts
+// Fixture builders shared by the policy tests: a TCP service entry and a unified policy with
+// only the fields a test cares about filled in.
+
+import type { ServiceEntry } from '../src/parse_watchguard';
+import type { UnifiedPolicy } from '../src/xml_to_upolicy';
+
+export const tcp = (portFrom: number, portTo = portFrom): ServiceEntry => ({ proto: 'tcp', portFrom, portTo });
+
+export function policy(order: number, name: string, p: Partial<UnifiedPolicy> & { src: string[]; dst: string[] }): UnifiedPolicy {
+  const { src, dst, ...rest } = p;
+  return {
+    id: `p${order}`, name, order, action: 'allow', enabled: true, service: 'Any',
+    fromAliases: [], toAliases: [], srcCidrs: src, dstCidrs: dst, srcHosts: [], dstHosts: [], source: 'XML',
+    ...rest,
+  };
+}
@@ -0,0 +1,160 @@
+// tests/ip.test.ts
+// Address math in src/ip.ts: both families, malformed input and the edge prefixes (/0, /32, /128).
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseIp, isIp, ipFamily, normalizeIp, maskToPrefix, parseCidr, networkOf, normalizeCidr, hostCidr,
+  prefixLen, isHostCidr, bucketCidr, overlaps, cidrContainsIp, cidrContains, rangeToCidrs, subtractCidrs,
+  cidrSpans, spansCover, spansOverlap, compareIp,
+} from '../src/ip';
+
+test('parseIp reads both families', () => {
+  assert.deepEqual(parseIp('10.1.2.3'), { family: 4, value: 0x0a010203n });
+  assert.deepEqual(parseIp(' 0.0.0.0 '), { family: 4, value: 0n });
+  assert.deepEqual(parseIp('255.255.255.255'), { family: 4, value: 0xffffffffn });
+  assert.deepEqual(parseIp('::'), { family: 6, value: 0n });
+  assert.deepEqual(parseIp('::1'), { family: 6, value: 1n });
+  assert.deepEqual(parseIp('2001:db8::1'), { family: 6, value: (0x20010db8n << 96n) | 1n });
+  assert.deepEqual(parseIp('fe80::1%eth0'), { family: 6, value: (0xfe80n << 112n) | 1n });
+  assert.deepEqual(parseIp('[2001:db8::1]'), parseIp('2001:db8::1'));
+  assert.deepEqual(parseIp('::ffff:192.0.2.1'), { family: 6, value: (0xffffn << 32n) | 0xc0000201n });
+});
+
+test('parseIp rejects malformed addresses', () => {
+  for (const bad of ['', '10.0.0.256', '10.0.0', '10.0.0.0.1', '10.0.0.x', '1.2.3.-4', '2001:db8:::1', '1::2::3', '12345::', '1:2:3:4:5:6:7:8:9', '::ffff:300.0.0.1', 'host.example']) {
+    assert.throws(() => parseIp(bad), /Bad IP/, bad);
+    assert.equal(isIp(bad), false, bad);
+    assert.equal(ipFamily(bad), null, bad);
+  }
+  assert.equal(ipFamily('10.0.0.1'), 4);
+  assert.equal(ipFamily('2001:db8::'), 6);
+});
+
+test('normalizeIp compresses IPv6 the RFC 5952 way', () => {
+  assert.equal(normalizeIp('2001:0DB8:0000:0000:0000:0000:0000:0001'), '2001:db8::1');
+  assert.equal(normalizeIp('2001:db8:0:0:1:0:0:1'), '2001:db8::1:0:0:1');
+  assert.equal(normalizeIp('2001:db8:0:1:1:1:1:1'), '2001:db8:0:1:1:1:1:1'); // a single zero group stays
+  assert.equal(normalizeIp('0:0:0:0:0:0:0:0'), '::');
+  assert.equal(normalizeIp('10.0.0.1'), '10.0.0.1');
+});
+
+test('maskToPrefix accepts dotted masks and prefix lengths', () => {
+  assert.equal(maskToPrefix('255.255.255.0'), 24);
+  assert.equal(maskToPrefix('0.0.0.0'), 0);
+  assert.equal(maskToPrefix('255.255.255.255'), 32);
+  assert.equal(maskToPrefix('/26'), 26);
+  assert.equal(maskToPrefix('128', 6), 128);
+  assert.throws(() => maskToPrefix('33'), /Bad mask/);
+  assert.throws(() => maskToPrefix('129', 6), /Bad mask/);
+  assert.throws(() => maskToPrefix('255.255.255.0', 6), /Bad mask/);
+  assert.throws(() => maskToPrefix('garbage'), /Bad mask/);
+});
+
+test('parseCidr gives network bounds, bare addresses are hosts', () => {
+  assert.deepEqual(parseCidr('10.1.2.3/24'), { family: 4, prefix: 24, network: 0x0a010200n, last: 0x0a0102ffn });
+  assert.deepEqual(parseCidr('0.0.0.0/0'), { family: 4, prefix: 0, network: 0n, last: 0xffffffffn });
+  assert.deepEqual(parseCidr('10.1.2.3'), { family: 4, prefix: 32, network: 0x0a010203n, last: 0x0a010203n });
+  const all6 = (1n << 128n) - 1n;
+  assert.deepEqual(parseCidr('::/0'), { family: 6, prefix: 0, network: 0n, last: all6 });
+  assert.deepEqual(parseCidr('2001:db8::1/128'), { family: 6, prefix: 128, network: (0x20010db8n << 96n) | 1n, last: (0x20010db8n << 96n) | 1n });
+  assert.throws(() => parseCidr('10.0.0.0/33'));
+  assert.throws(() => parseCidr('10.0.0.999/24'));
+});
+
+test('networkOf, normalizeCidr and hostCidr', () => {
+  assert.equal(networkOf('10.1.2.3', '255.255.255.0'), '10.1.2.0/24');
+  assert.equal(networkOf('10.1.2.3', '0'), '0.0.0.0/0');
+  assert.equal(networkOf('10.1.2.3', '32'), '10.1.2.3/32');
+  assert.equal(networkOf('2001:db8:1:2::5', '64'), '2001:db8:1:2::/64');
+  assert.equal(networkOf('2001:db8::5', '128'), '2001:db8::5/128');
+  assert.throws(() => networkOf('10.0.0.256', '24'), /Bad IP/);
+  assert.equal(normalizeCidr('10.1.2.3/16'), '10.1.0.0/16');
+  assert.equal(normalizeCidr('2001:DB8::1'), '2001:db8::1/128');
+  assert.equal(hostCidr('10.0.0.1'), '10.0.0.1/32');
+  assert.equal(hostCidr('2001:db8::1'), '2001:db8::1/128');
+});
+
+test('prefixLen and isHostCidr', () => {
+  assert.equal(prefixLen('10.0.0.0/8'), 8);
+  assert.equal(prefixLen('0.0.0.0/0'), 0);
+  assert.equal(prefixLen('10.0.0.1'), 32);
+  assert.equal(prefixLen('2001:db8::1'), 128);
+  assert.equal(prefixLen('10.0.0.0/x'), 32);
+  assert.equal(isHostCidr('10.0.0.1/32'), true);
+  assert.equal(isHostCidr('2001:db8::1/128'), true);
+  assert.equal(isHostCidr('2001:db8::/64'), false);
+  assert.equal(isHostCidr('0.0.0.0/0'), false);
+});
+
+test('bucketCidr groups into /24 and /64, and throws on non-addresses', () => {
+  assert.equal(bucketCidr('10.1.2.3'), '10.1.2.0/24');
+  assert.equal(bucketCidr('10.1.2.3/32'), '10.1.2.0/24');
+  assert.equal(bucketCidr('2001:db8:1:2::5/128'), '2001:db8:1:2::/64');
+  assert.throws(() => bucketCidr('10.0.0.256/32'), /Bad IP/);
+  assert.throws(() => bucketCidr('Any-External'), /Bad IP/);
+});
+
+test('overlaps, cidrContainsIp and cidrContains never match across families or bad input', () => {
+  assert.equal(overlaps('10.0.0.0/8', '10.20.0.0/16'), true);
+  assert.equal(overlaps('10.0.0.0/24', '10.0.1.0/24'), false);
+  assert.equal(overlaps('0.0.0.0/0', '192.0.2.1/32'), true);
+  assert.equal(overlaps('::/0', '10.0.0.0/8'), false);
+  assert.equal(overlaps('10.0.0.0/8', 'nonsense'), false);
+
+  assert.equal(cidrContainsIp('10.0.0.0/24', '10.0.0.255'), true);
+  assert.equal(cidrContainsIp('10.0.0.0/24', '10.0.1.0'), false);
+  assert.equal(cidrContainsIp('10.0.0.5/32', '10.0.0.5'), true);
+  assert.equal(cidrContainsIp('0.0.0.0/0', '203.0.113.9'), true);
+  assert.equal(cidrContainsIp('::/0', '10.0.0.1'), false);
+  assert.equal(cidrContainsIp('2001:db8::/32', '2001:db8:ffff::1'), true);
+  assert.equal(cidrContainsIp('10.0.0.0/24', '10.0.0.256'), false);
+
+  assert.equal(cidrContains('10.0.0.0/8', '10.1.0.0/16'), true);
+  assert.equal(cidrContains('10.1.0.0/16', '10.0.0.0/8'), false);
+  assert.equal(cidrContains('10.0.0.0/24', '10.0.0.0/24'), true);
+  assert.equal(cidrContains('0.0.0.0/0', '10.0.0.1/32'), true);
+  assert.equal(cidrContains('2001:db8::/32', '2001:db8:1::/48'), true);
+  assert.equal(cidrContains('2001:db8::/32', '10.0.0.0/8'), false);
+  assert.equal(cidrContains('10.0.0.0/8', 'bad/24'), false);
+});
+
+test('rangeToCidrs gives the minimal cover', () => {
+  assert.deepEqual(rangeToCidrs('10.0.0.0', '10.0.0.255'), ['10.0.0.0/24']);
+  assert.deepEqual(rangeToCidrs('10.0.0.1', '10.0.0.6'), ['10.0.0.1/32', '10.0.0.2/31', '10.0.0.4/31', '10.0.0.6/32']);
+  assert.deepEqual(rangeToCidrs('10.0.0.6', '10.0.0.4'), ['10.0.0.4/31', '10.0.0.6/32']); // reversed bounds
+  assert.deepEqual(rangeToCidrs('10.0.0.9', '10.0.0.9'), ['10.0.0.9/32']);
+  assert.deepEqual(rangeToCidrs('0.0.0.0', '255.255.255.255'), ['0.0.0.0/0']);
+  assert.deepEqual(rangeToCidrs('2001:db8::', '2001:db8::ffff'), ['2001:db8::/112']);
+  assert.throws(() => rangeToCidrs('10.0.0.1', '2001:db8::1'), /Mixed-family/);
+  assert.throws(() => rangeToCidrs('10.0.0.1', '10.0.0.300'), /Bad IP/);
+});
+
+test('subtractCidrs removes excluded space per family', () => {
+  assert.deepEqual(subtractCidrs(['10.0.0.0/24'], ['10.0.0.0/25']), ['10.0.0.128/25']);
+  assert.deepEqual(subtractCidrs(['10.0.0.0/30'], ['10.0.0.1/32']), ['10.0.0.0/32', '10.0.0.2/31']);
+  assert.deepEqual(subtractCidrs(['10.0.0.0/24'], ['10.0.0.0/16']), []);
+  assert.deepEqual(subtractCidrs(['10.0.0.0/24'], ['2001:db8::/32']), ['10.0.0.0/24']);
+  assert.deepEqual(subtractCidrs(['0.0.0.0/0'], ['128.0.0.0/1']), ['0.0.0.0/1']);
+  assert.deepEqual(subtractCidrs(['2001:db8::/127', '10.0.0.0/31'], ['2001:db8::1/128']), ['10.0.0.0/31', '2001:db8::/128']);
+  assert.deepEqual(subtractCidrs(['10.0.0.0/25', '10.0.0.128/25', 'junk'], []), ['10.0.0.0/24']); // merged, junk skipped
+});
+
+test('cidrSpans, spansCover and spansOverlap', () => {
+  const spans = cidrSpans(['10.0.0.128/25', '10.0.0.0/25', '2001:db8::/127', 'junk']);
+  assert.deepEqual(spans, [
+    { family: 4, first: 0x0a000000n, last: 0x0a0000ffn },
+    { family: 6, first: 0x20010db8n << 96n, last: (0x20010db8n << 96n) | 1n },
+  ]);
+  assert.equal(spansCover(spans, cidrSpans(['10.0.0.64/26'])), true);
+  assert.equal(spansCover(spans, cidrSpans(['10.0.0.0/23'])), false);
+  assert.equal(spansCover(spans, cidrSpans(['10.0.0.1/32', '2001:db8::1/128'])), true);
+  assert.equal(spansCover(cidrSpans(['0.0.0.0/0']), cidrSpans(['2001:db8::1/128'])), false);
+  assert.equal(spansOverlap(spans, cidrSpans(['10.0.0.255/32'])), true);
+  assert.equal(spansOverlap(spans, cidrSpans(['10.0.1.0/24', '2001:db8::2/128'])), false);
+});
+
+test('compareIp sorts IPv4 before IPv6, then by address and prefix', () => {
+  const sorted = ['2001:db8::/32', '10.0.0.0/24', '10.0.0.0/8', '9.255.255.255', '::1'].sort(compareIp);
+  assert.deepEqual(sorted, ['9.255.255.255', '10.0.0.0/8', '10.0.0.0/24', '::1', '2001:db8::/32']);
+});
@@ -0,0 +1,16 @@
+// tests/parser.test.ts
+// Regression suite: each fixture export must still parse to its golden file. After an intended
+// parser change, regenerate the golden files (npm run test:update) and review their diff.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync } from 'node:fs';
+import { fixtureNames, goldenPath, snapshot } from './golden';
+
+for (const name of fixtureNames()) {
+  test(name, async () => {
+    const file = goldenPath(name);
+    assert.ok(existsSync(file), `No golden file for ${name}; run npm run test:update`);
+    assert.deepEqual(JSON.parse(await snapshot(name)), JSON.parse(readFileSync(file, 'utf8')));
+  });
+}
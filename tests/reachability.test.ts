@@ -0,0 +1,129 @@
+// tests/reachability.test.ts
+// "Can A reach B?" in src/reach/reachability.ts over two firewalls joined by a BOVPN tunnel:
+// delivery on a connected network, policy denials, the tunnel hop, static NAT and routing.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { reach, type ReachFirewall } from '../src/reach/reachability';
+import { firstMatchingPolicy } from '../src/policy_match';
+import { matchVpnTunnels } from '../src/vpn_links';
+import type { Domain, InterfaceInfo } from '../src/parse_watchguard';
+import { policy, tcp } from './helpers';
+
+function domain(interfaces: InterfaceInfo[], extra: Partial<Domain> = {}): Domain {
+  return {
+    interfaces, cidrsByInterface: new Map(), zoneByInterface: new Map(), zoneCidrs: new Map(),
+    routes: [], vpnGateways: [], vpnTunnels: [], ...extra,
+  };
+}
+
+// Any-External resolves to the firewall's own external network during alias expansion
+const hq: ReachFirewall = {
+  id: 'hq', name: 'HQ',
+  domain: domain([
+    { name: 'LAN', zone: 'Trusted', cidrs: ['10.0.0.0/24'], primaryIp: '10.0.0.1' },
+    { name: 'DMZ', zone: 'Optional', cidrs: ['172.16.0.0/24'], primaryIp: '172.16.0.1' },
+    { name: 'WAN', zone: 'External', cidrs: ['203.0.113.0/24'], primaryIp: '203.0.113.1' },
+  ], {
+    routes: [{ kind: 'default', dest: '0.0.0.0/0', nextHop: '203.0.113.254' }],
+    vpnGateways: [{ name: 'To-Branch', localAddrs: ['203.0.113.1'], remoteAddrs: ['198.51.100.1'] }],
+    vpnTunnels: [{ name: 'HQ-Branch', gateway: 'To-Branch', pairs: [{ local: '10.0.0.0/24', remote: '10.1.0.0/24' }] }],
+  }),
+  policies: [
+    policy(1, 'Deny-DMZ-SSH', { action: 'deny', src: ['10.0.0.0/24'], dst: ['172.16.0.0/24'], service: 'SSH', serviceEntries: [tcp(22)] }),
+    policy(2, 'LAN-to-DMZ', { src: ['10.0.0.0/24'], dst: ['172.16.0.0/24'] }),
+    policy(3, 'LAN-to-Branch', { src: ['10.0.0.0/24'], dst: ['10.1.0.0/24'] }),
+    policy(4, 'Web-In', {
+      fromAliases: ['Any-External'], src: ['203.0.113.0/24'],
+      toAliases: ['Web-SNAT'], dst: ['203.0.113.10/32'],
+      service: 'HTTPS', serviceEntries: [tcp(443)],
+      nat: { snat: ['Web-SNAT'], translations: [{ kind: 'static', rule: 'Web-SNAT', extAddr: '203.0.113.10', intAddr: '172.16.0.10' }] },
+    }),
+    policy(5, 'Outgoing', { src: ['10.0.0.0/24'], toAliases: ['Any-External'], dst: ['203.0.113.0/24'] }),
+  ],
+};
+
+const branch: ReachFirewall = {
+  id: 'branch', name: 'Branch',
+  domain: domain([
+    { name: 'LAN', zone: 'Trusted', cidrs: ['10.1.0.0/24'], primaryIp: '10.1.0.1' },
+    { name: 'WAN', zone: 'External', cidrs: ['198.51.100.0/24'], primaryIp: '198.51.100.1' },
+  ], {
+    vpnGateways: [{ name: 'To-HQ', localAddrs: ['198.51.100.1'], remoteAddrs: ['203.0.113.1'] }],
+    vpnTunnels: [{ name: 'Branch-HQ', gateway: 'To-HQ', pairs: [{ local: '10.1.0.0/24', remote: '10.0.0.0/24' }] }],
+  }),
+  policies: [
+    policy(1, 'RDP-from-HQ', { src: ['10.0.0.0/24'], dst: ['10.1.0.0/24'], service: 'RDP', serviceEntries: [tcp(3389)] }),
+    policy(2, 'Outgoing', { src: ['10.1.0.0/24'], toAliases: ['Any-External'], dst: ['198.51.100.0/24'] }),
+  ],
+};
+
+const fws = [hq, branch];
+const vpn = matchVpnTunnels(fws);
+
+test('traffic to a connected network is delivered by the first allowing policy', () => {
+  const r = reach(fws, { src: '10.0.0.5', dst: '172.16.0.20', proto: 'tcp', port: 443 }, vpn);
+  assert.equal(r.verdict, 'allowed');
+  assert.equal(r.srcNet, '10.0.0.0/24');
+  assert.equal(r.hops.length, 1);
+  assert.equal(r.hops[0].policy?.name, 'LAN-to-DMZ');
+  assert.deepEqual(r.hops[0].egress, { kind: 'connected', cidr: '172.16.0.0/24', iface: 'DMZ' });
+});
+
+test('an earlier deny policy blocks the flow', () => {
+  const r = reach(fws, { src: '10.0.0.5', dst: '172.16.0.20', proto: 'tcp', port: 22 }, vpn);
+  assert.equal(r.verdict, 'denied');
+  assert.equal(r.summary, "Denied by HQ policy 'Deny-DMZ-SSH'");
+  assert.equal(r.hops[0].egress, undefined);
+});
+
+test('traffic crosses the BOVPN tunnel and is evaluated again on the peer', () => {
+  const r = reach(fws, { src: '10.0.0.5', dst: '10.1.0.7', proto: 'tcp', port: 3389 }, vpn);
+  assert.equal(r.verdict, 'allowed');
+  assert.deepEqual(r.hops.map(h => [h.fwName, h.policy?.name]), [['HQ', 'LAN-to-Branch'], ['Branch', 'RDP-from-HQ']]);
+  assert.equal(r.hops[0].egress?.kind, 'vpn');
+  assert.deepEqual(r.hops[1].egress, { kind: 'connected', cidr: '10.1.0.0/24', iface: 'LAN' });
+});
+
+test('the peer firewall can still deny what the tunnel carries', () => {
+  const r = reach(fws, { src: '10.0.0.5', dst: '10.1.0.7', proto: 'tcp', port: 22 }, vpn);
+  assert.equal(r.verdict, 'denied');
+  assert.equal(r.hops.length, 2);
+  assert.equal(r.summary, 'Denied by Branch: no policy matches (default deny)');
+});
+
+test('static NAT on the matching policy moves the destination to the internal host', () => {
+  const r = reach(fws, { src: '198.18.5.5', dst: '203.0.113.10', proto: 'tcp', port: 443 }, vpn);
+  assert.equal(r.verdict, 'allowed');
+  const [hop] = r.hops;
+  assert.equal(hop.policy?.name, 'Web-In');
+  assert.equal(hop.dst, '203.0.113.10');
+  assert.equal(hop.nat[0].kind, 'static');
+  assert.ok(hop.notes.includes('Destination translated to 172.16.0.10'));
+  assert.deepEqual(hop.egress, { kind: 'connected', cidr: '172.16.0.0/24', iface: 'DMZ' });
+  // Without the published port nothing matches
+  assert.equal(reach(fws, { src: '198.18.5.5', dst: '203.0.113.10', proto: 'tcp', port: 80 }, vpn).verdict, 'denied');
+});
+
+test('traffic to the internet leaves by the default route, or stops without one', () => {
+  const out = reach(fws, { src: '10.0.0.5', dst: '8.8.8.8', proto: 'udp', port: 53 }, vpn);
+  assert.equal(out.verdict, 'allowed');
+  assert.equal(out.hops[0].policy?.name, 'Outgoing');
+  assert.equal(out.summary, 'Allowed: leaves HQ via default route to 203.0.113.254');
+
+  const none = reach(fws, { src: '10.1.0.7', dst: '8.8.8.8' }, vpn);
+  assert.equal(none.verdict, 'no-route');
+  assert.equal(none.summary, 'Branch has no route to 8.8.8.8');
+});
+
+test('firstMatchingPolicy needs the whole query covered and notes unresolved services', () => {
+  const policies = [
+    policy(1, 'Custom', { src: ['10.0.0.0/24'], dst: ['172.16.0.0/24'], service: 'Custom-App' }),
+    policy(2, 'One-Host', { src: ['10.0.0.5/32'], dst: ['172.16.0.0/24'] }),
+    policy(3, 'LAN', { src: ['10.0.0.0/24'], dst: ['172.16.0.0/24'] }),
+  ];
+  const m = firstMatchingPolicy(policies, { src: '10.0.0.0/25', dst: '172.16.0.20', proto: 'tcp', port: 80 }, hq.domain);
+  assert.equal(m.policy?.name, 'LAN'); // One-Host overlaps the source but does not cover it
+  assert.deepEqual(m.notes, ["Skipped 'Custom': service Custom-App not resolved"]);
+  assert.equal(firstMatchingPolicy(policies, { src: '10.9.0.5', dst: '172.16.0.20' }, hq.domain).policy, undefined);
+});
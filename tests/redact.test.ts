@@ -0,0 +1,80 @@
+// tests/redact.test.ts
+// Credential stripping in src/security/redact.ts: secret elements (plain and CDATA), secret
+// attributes, key blobs, and the settings and addressing that must survive untouched.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { redactSecrets, REDACTED } from '../src/security/redact';
+
+test('secret elements lose their text', () => {
+  const xml = [
+    '<psk>s3cr3t</psk>',
+    '<pre-shared-key>abc</pre-shared-key>',
+    '<shared-key>abc</shared-key>',
+    '<key>abc</key>',
+    '<radius-secret>abc</radius-secret>',
+    '<community>private</community>',
+    '<user><name>admin</name><password encrypted="1">pw</password></user>',
+  ].join('');
+  const r = redactSecrets(xml);
+  assert.equal(r.count, 7);
+  assert.equal(r.xml, [
+    `<psk>${REDACTED}</psk>`,
+    `<pre-shared-key>${REDACTED}</pre-shared-key>`,
+    `<shared-key>${REDACTED}</shared-key>`,
+    `<key>${REDACTED}</key>`,
+    `<radius-secret>${REDACTED}</radius-secret>`,
+    `<community>${REDACTED}</community>`,
+    `<user><name>admin</name><password encrypted="1">${REDACTED}</password></user>`,
+  ].join(''));
+});
+
+test('CDATA bodies are redacted like plain text', () => {
+  const r = redactSecrets('<psk><![CDATA[s3cr3t]]></psk><note><![CDATA[keep <me>]]></note>');
+  assert.equal(r.count, 1);
+  assert.equal(r.xml, `<psk>${REDACTED}</psk><note><![CDATA[keep <me>]]></note>`);
+  assert.equal(redactSecrets('<psk> <![CDATA[a]]>b </psk>').xml, `<psk>${REDACTED}</psk>`);
+});
+
+test('secret-named attributes are redacted in any start tag', () => {
+  const r = redactSecrets(`<user name="ops" password="pw1"/><peer psk='k' id="2"><auth-key>x</auth-key></peer>`);
+  assert.equal(r.count, 3);
+  assert.equal(r.xml, `<user name="ops" password="${REDACTED}"/><peer psk="${REDACTED}" id="2"><auth-key>${REDACTED}</auth-key></peer>`);
+});
+
+test('settings named like secrets are kept', () => {
+  const xml = [
+    '<password-length>8</password-length>',
+    '<psk-type>1</psk-type>',
+    '<key-size>2048</key-size>',
+    '<key-life-time>480</key-life-time>',
+    '<pfs-key-group>14</pfs-key-group>',
+    '<user password-required="1"/>',
+    '<password></password>',
+  ].join('');
+  assert.deepEqual(redactSecrets(xml), { xml, count: 0 });
+});
+
+test('PEM and long base64 blobs are redacted in any element', () => {
+  const pem = '-----BEGIN CERTIFICATE-----\nMIIB\n-----END CERTIFICATE-----';
+  const blob = 'QUJD'.repeat(60);
+  const r = redactSecrets(`<cert>${pem}</cert><content>${blob}</content><name>${'A'.repeat(20)}</name>`);
+  assert.equal(r.count, 2);
+  assert.equal(r.xml, `<cert>${REDACTED}</cert><content>${REDACTED}</content><name>${'A'.repeat(20)}</name>`);
+
+  const wrapped = ['QUJD'.repeat(16), 'QUJD'.repeat(16), 'QUJD'.repeat(16), 'QUI='].join('\n      ');
+  assert.equal(redactSecrets(`<content>\n      ${wrapped}\n    </content>`).xml, `<content>${REDACTED}</content>`);
+});
+
+test('long plain-text descriptions are not mistaken for key blobs', () => {
+  const text = 'Allows the accounting subnet to reach the payroll servers over HTTPS during business hours only';
+  const xml = `<description>${text} ${text} ${text}</description><notes>${text.replace(/ /g, '\n')}</notes>`;
+  assert.deepEqual(redactSecrets(xml), { xml, count: 0 });
+});
+
+test('addressing and structure are untouched, and redacting twice changes nothing', () => {
+  const xml = '<?xml version="1.0"?><profile><interface><name>LAN</name><ip>10.0.0.1</ip><netmask>255.255.255.0</netmask></interface><psk>s</psk></profile>';
+  const once = redactSecrets(xml);
+  assert.equal(once.xml, xml.replace('<psk>s</psk>', `<psk>${REDACTED}</psk>`));
+  assert.deepEqual(redactSecrets(once.xml), { xml: once.xml, count: 0 });
+});
@@ -0,0 +1,72 @@
+// tests/rule_analysis.test.ts
+// Rule-base anomalies in src/rules/rule_analysis.ts: shadowed, redundant and conflicting policies,
+// and the intentional "deny the rest" pattern that must not be reported.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeRules, type RuleFinding } from '../src/rules/rule_analysis';
+import { policy, tcp } from './helpers';
+
+const found = (findings: RuleFinding[]) => findings.map(f => `${f.kind}:${f.policy.name}<${f.other.name}`);
+
+test('a later policy fully covered by an earlier one with the other action is shadowed', () => {
+  const rules = [
+    policy(1, 'Deny-LAN-to-DMZ', { action: 'deny', src: ['10.0.0.0/16'], dst: ['172.16.0.0/24'] }),
+    policy(2, 'Allow-Web', { src: ['10.0.1.0/24'], dst: ['172.16.0.10/32'], service: 'HTTP', serviceEntries: [tcp(80)] }),
+  ];
+  assert.deepEqual(found(analyzeRules(rules)), ['shadowed:Allow-Web<Deny-LAN-to-DMZ']);
+});
+
+test('a later policy covered by an earlier one with the same action is redundant', () => {
+  const rules = [
+    policy(1, 'Web-Range', { src: ['10.0.0.0/16'], dst: ['172.16.0.0/24'], service: 'Web', serviceEntries: [tcp(80, 85), tcp(86, 90)] }),
+    policy(2, 'Web-Host', { src: ['10.0.1.0/24'], dst: ['172.16.0.10/32'], service: 'HTTP', serviceEntries: [tcp(80)] }),
+  ];
+  assert.deepEqual(found(analyzeRules(rules)), ['redundant:Web-Host<Web-Range']);
+});
+
+test('an earlier policy covered by a later one with the same action is redundant when nothing between decides otherwise', () => {
+  const rules = [
+    policy(1, 'Narrow', { src: ['10.0.1.0/24'], dst: ['172.16.0.10/32'] }),
+    policy(2, 'Unrelated-Deny', { action: 'deny', src: ['192.168.0.0/24'], dst: ['172.16.0.0/24'] }),
+    policy(3, 'Broad', { src: ['10.0.0.0/16'], dst: ['172.16.0.0/24'] }),
+  ];
+  assert.deepEqual(found(analyzeRules(rules)), ['redundant:Narrow<Broad']);
+
+  // A deny in between that overlaps makes the narrow allow meaningful
+  rules[1] = policy(2, 'Block-One', { action: 'deny', src: ['10.0.1.5/32'], dst: ['172.16.0.0/24'] });
+  assert.deepEqual(found(analyzeRules(rules)).filter(f => f.startsWith('redundant')), []);
+});
+
+test('partially overlapping policies with different actions conflict', () => {
+  const rules = [
+    policy(1, 'Allow-A', { src: ['10.0.0.0/24'], dst: ['172.16.0.0/24'], service: 'HTTPS', serviceEntries: [tcp(443)] }),
+    policy(2, 'Deny-B', { action: 'drop', src: ['10.0.0.128/25', '10.0.1.0/24'], dst: ['172.16.0.0/24'], service: 'HTTPS', serviceEntries: [tcp(443)] }),
+  ];
+  assert.deepEqual(found(analyzeRules(rules)), ['conflict:Deny-B<Allow-A']);
+});
+
+test('a broader later policy with the other action is the intended default and not reported', () => {
+  const rules = [
+    policy(1, 'Allow-Web', { src: ['10.0.1.0/24'], dst: ['172.16.0.10/32'], service: 'HTTP', serviceEntries: [tcp(80)] }),
+    policy(2, 'Deny-Rest', { action: 'deny', src: ['10.0.0.0/8'], dst: ['172.16.0.0/12'] }),
+  ];
+  assert.deepEqual(analyzeRules(rules), []);
+});
+
+test('disabled and unresolved policies are left out', () => {
+  const rules = [
+    policy(1, 'Off', { enabled: false, action: 'deny', src: ['10.0.0.0/8'], dst: ['172.16.0.0/12'] }),
+    policy(2, 'Unresolved', { action: 'deny', src: [], dst: ['172.16.0.0/12'] }),
+    policy(3, 'Allow-Web', { src: ['10.0.1.0/24'], dst: ['172.16.0.10/32'] }),
+  ];
+  assert.deepEqual(analyzeRules(rules), []);
+});
+
+test('different services do not cover each other', () => {
+  const rules = [
+    policy(1, 'Deny-SSH', { action: 'deny', src: ['10.0.0.0/8'], dst: ['172.16.0.0/12'], service: 'SSH', serviceEntries: [tcp(22)] }),
+    policy(2, 'Allow-Web', { src: ['10.0.1.0/24'], dst: ['172.16.0.10/32'], service: 'HTTP', serviceEntries: [tcp(80)] }),
+  ];
+  assert.deepEqual(analyzeRules(rules), []);
+});
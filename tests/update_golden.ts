@@ -0,0 +1,10 @@
+// tests/update_golden.ts
+// Rewrites the golden files from the current parser output: npm run test:update [fixture...]
+
+import { fixtureNames, writeGolden } from './golden';
+
+const names = process.argv.slice(2);
+for (const name of names.length ? names : fixtureNames()) {
+  await writeGolden(name);
+  console.log(`wrote golden/${name}.json`);
+}